@@ -8,6 +8,9 @@ import { AuthProvider, useAuth } from "@/contexts/auth-context";
 import Dashboard from "./pages/dashboard";
 import Portfolios from "./pages/portfolios";
 import HoldingDetails from "./pages/holding-details";
+import Transactions from "./pages/transactions";
+import Dividends from "./pages/dividends";
+import TaxReports from "./pages/tax-reports";
 import Login from "@/pages/login";
 import NotFound from "@/pages/not-found";
 
@@ -45,6 +48,9 @@ function Router() {
           <Route path="/dashboard" component={Dashboard} />
           <Route path="/portfolios" component={Portfolios} />
           <Route path="/holdings/:id" component={HoldingDetails} />
+          <Route path="/transactions" component={Transactions} />
+          <Route path="/dividends" component={Dividends} />
+          <Route path="/tax-reports" component={TaxReports} />
         </>
       ) : (
         <Route path="/" component={Login} />
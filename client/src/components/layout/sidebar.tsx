@@ -15,10 +15,10 @@ import {
 const navigation = [
   { name: "Dashboard", href: "/", icon: BarChart3 },
   { name: "My Portfolios", href: "/portfolios", icon: Briefcase },
-  { name: "Transactions", href: "#transactions", icon: ArrowLeftRight },
+  { name: "Transactions", href: "/transactions", icon: ArrowLeftRight },
   { name: "Analytics", href: "#analytics", icon: TrendingUp },
-  { name: "Dividends", href: "#dividends", icon: Coins },
-  { name: "Tax Reports", href: "#tax-reports", icon: FileText },
+  { name: "Dividends", href: "/dividends", icon: Coins },
+  { name: "Tax Reports", href: "/tax-reports", icon: FileText },
   { name: "Settings", href: "#settings", icon: Settings },
 ];
 
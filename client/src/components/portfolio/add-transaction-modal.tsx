@@ -1,15 +1,16 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { apiRequest } from "@/lib/queryClient";
+import { fetchLots } from "@/lib/api";
+import { dataSource, type PortfolioDataSource } from "@/lib/data-source";
 import { useToast } from "@/hooks/use-toast";
-import { insertTransactionSchema } from "@shared/schema";
+import { insertTransactionSchema, type InstrumentType, type LotLedger, type LotReliefMethod, type LotSelection, type Transaction, type TransactionType } from "@shared/schema";
 import { z } from "zod";
 
 const formSchema = insertTransactionSchema.extend({
@@ -22,6 +23,8 @@ interface AddTransactionModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   portfolioId: string;
+  // Where the transaction is recorded: the chosen data source unless the page lists another's portfolios
+  source?: PortfolioDataSource;
 }
 
 const exchanges = [
@@ -33,6 +36,32 @@ const exchanges = [
   "AEX",
 ];
 
+const reliefMethods = [
+  { value: "DEFAULT", label: "Portfolio default" },
+  { value: "FIFO", label: "First in, first out" },
+  { value: "LIFO", label: "Last in, first out" },
+  { value: "HIFO", label: "Highest cost first" },
+  { value: "AVERAGE", label: "Average cost" },
+  { value: "SPECIFIC", label: "Choose lots" },
+];
+
+const otherTransactionTypes: { value: TransactionType; label: string }[] = [
+  { value: "dividend", label: "Dividend" },
+  { value: "split", label: "Stock split" },
+  { value: "bonus", label: "Bonus issue" },
+  { value: "consolidate", label: "Consolidation" },
+  { value: "demerger", label: "Demerger" },
+  { value: "roc", label: "Return of capital" },
+  { value: "cancellation", label: "Cancel a trade" },
+];
+
+const instrumentTypes: { value: InstrumentType; label: string }[] = [
+  { value: "STK", label: "Listed stock or ETF" },
+  { value: "MF", label: "Mutual fund" },
+  { value: "FIXED", label: "Fixed income" },
+  { value: "OTH", label: "Other" },
+];
+
 const currencies = [
   "USD",
   "EUR",
@@ -42,8 +71,10 @@ const currencies = [
   "JPY",
 ];
 
-export function AddTransactionModal({ open, onOpenChange, portfolioId }: AddTransactionModalProps) {
-  const [transactionType, setTransactionType] = useState<"buy" | "sell">("buy");
+export function AddTransactionModal({ open, onOpenChange, portfolioId, source = dataSource }: AddTransactionModalProps) {
+  const [transactionType, setTransactionType] = useState<TransactionType>("buy");
+  const [reliefMethod, setReliefMethod] = useState("DEFAULT");
+  const [lotQuantities, setLotQuantities] = useState<Record<string, string>>({});
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -59,17 +90,45 @@ export function AddTransactionModal({ open, onOpenChange, portfolioId }: AddTran
       fees: "0",
       currency: "USD",
       exchange: "NASDAQ",
+      instrumentType: "STK",
       date: new Date().toISOString().split('T')[0],
     },
   });
 
+  const symbol = form.watch("symbol");
+  const choosingLots = transactionType === "sell" && reliefMethod === "SPECIFIC";
+  const isRatioAction = ["split", "bonus", "consolidate"].includes(transactionType);
+  const showQuantity = !isRatioAction && transactionType !== "roc" && transactionType !== "cancellation";
+  const showPrice = !isRatioAction && transactionType !== "demerger" && transactionType !== "cancellation";
+
+  // Trades that a cancellation can reverse
+  const { data: portfolioTransactions = [] } = useQuery<Transaction[]>({
+    queryKey: ["/api/portfolios", portfolioId, "transactions", "all"],
+    queryFn: () => source.getTransactions(portfolioId),
+    enabled: open && transactionType === "cancellation",
+  });
+
+  // Open lots to pick from when identifying specific lots for a sale
+  const { data: ledger } = useQuery<LotLedger>({
+    queryKey: ["/api/portfolios", portfolioId, "lots", symbol],
+    queryFn: () => fetchLots(portfolioId, symbol),
+    enabled: open && choosingLots && !!symbol,
+  });
+
   const createTransactionMutation = useMutation({
     mutationFn: async (data: FormData) => {
-      const response = await apiRequest("POST", `/api/portfolios/${portfolioId}/transactions`, {
+      const lotSelections: LotSelection[] = Object.entries(lotQuantities)
+        .filter(([, quantity]) => parseFloat(quantity) > 0)
+        .map(([lotId, quantity]) => ({ lotId, quantity }));
+
+      await source.createTransaction({
         ...data,
+        portfolioId,
+        date: new Date(data.date),
         type: transactionType,
+        reliefMethod: transactionType === "sell" && reliefMethod !== "DEFAULT" ? reliefMethod as LotReliefMethod : null,
+        lotSelections: choosingLots ? lotSelections : null,
       });
-      return response.json();
     },
     onSuccess: () => {
       toast({
@@ -79,8 +138,13 @@ export function AddTransactionModal({ open, onOpenChange, portfolioId }: AddTran
       queryClient.invalidateQueries({ queryKey: ["/api/portfolios", portfolioId] });
       queryClient.invalidateQueries({ queryKey: ["/api/portfolios", portfolioId, "holdings"] });
       queryClient.invalidateQueries({ queryKey: ["/api/portfolios", portfolioId, "transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios", portfolioId, "lots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/holdings"] });
       onOpenChange(false);
       form.reset();
+      setTransactionType("buy");
+      setReliefMethod("DEFAULT");
+      setLotQuantities({});
     },
     onError: (error: any) => {
       toast({
@@ -92,14 +156,17 @@ export function AddTransactionModal({ open, onOpenChange, portfolioId }: AddTran
   });
 
   const onSubmit = (data: FormData) => {
-    // Calculate total amount if not provided
-    const quantity = parseFloat(data.quantity);
-    const price = parseFloat(data.price);
+    // Corporate actions that don't trade shares or cash send zero quantity/price
+    const quantity = showQuantity ? parseFloat(data.quantity) : 0;
+    const price = showPrice ? parseFloat(data.price) : 0;
     const fees = parseFloat(data.fees || "0");
-    const totalAmount = (quantity * price) + fees;
+    // A dividend's total is the gross amount declared; withholding and fees come off it separately
+    const totalAmount = transactionType === "dividend" ? quantity * price : (quantity * price) + fees;
 
     createTransactionMutation.mutate({
       ...data,
+      quantity: quantity.toString(),
+      price: price.toString(),
       totalAmount: totalAmount.toString(),
     });
   };
@@ -134,8 +201,59 @@ export function AddTransactionModal({ open, onOpenChange, portfolioId }: AddTran
                   Sell
                 </Button>
               </div>
+              <Select
+                value={transactionType === "buy" || transactionType === "sell" ? "" : transactionType}
+                onValueChange={(value) => setTransactionType(value as TransactionType)}
+              >
+                <SelectTrigger className="mt-2">
+                  <SelectValue placeholder="Income or corporate action..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherTransactionTypes.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
+            {transactionType === "cancellation" && (
+              <FormField
+                control={form.control}
+                name="relatedTransactionId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Trade to cancel</FormLabel>
+                    <Select
+                      value={field.value || ""}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        const related = portfolioTransactions.find((t) => t.id === value);
+                        if (related) form.setValue("symbol", related.symbol);
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select trade" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {portfolioTransactions
+                          .filter((t) => t.type !== "cancellation")
+                          .map((t) => (
+                            <SelectItem key={t.id} value={t.id}>
+                              {new Date(t.date).toLocaleDateString()} {t.type.toUpperCase()} {t.symbol} {parseFloat(t.quantity).toLocaleString()}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
               name="symbol"
@@ -150,13 +268,93 @@ export function AddTransactionModal({ open, onOpenChange, portfolioId }: AddTran
               )}
             />
 
+            {transactionType === "buy" && (
+              <FormField
+                control={form.control}
+                name="instrumentType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Instrument type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select instrument type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {instrumentTypes.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {isRatioAction && (
+              <FormField
+                control={form.control}
+                name="splitRatio"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {transactionType === "bonus" ? "Bonus shares : shares held" : "New shares : old shares"}
+                    </FormLabel>
+                    <FormControl>
+                      <Input placeholder={transactionType === "consolidate" ? "1:10" : "2:1"} {...field} value={field.value || ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {transactionType === "demerger" && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="relatedSymbol"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New symbol</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., KD" {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="costApportionment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cost apportioned (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" placeholder="20" {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
+              {showQuantity && (
               <FormField
                 control={form.control}
                 name="quantity"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Quantity</FormLabel>
+                    <FormLabel>
+                      {transactionType === "demerger" ? "Shares received" : transactionType === "dividend" ? "Shares held" : "Quantity"}
+                    </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="100" {...field} />
                     </FormControl>
@@ -164,13 +362,17 @@ export function AddTransactionModal({ open, onOpenChange, portfolioId }: AddTran
                   </FormItem>
                 )}
               />
+              )}
 
+              {showPrice && (
               <FormField
                 control={form.control}
                 name="price"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Price</FormLabel>
+                    <FormLabel>
+                      {transactionType === "roc" ? "Capital returned per share" : transactionType === "dividend" ? "Dividend per share" : "Price"}
+                    </FormLabel>
                     <FormControl>
                       <Input type="number" step="0.01" placeholder="150.00" {...field} />
                     </FormControl>
@@ -178,8 +380,69 @@ export function AddTransactionModal({ open, onOpenChange, portfolioId }: AddTran
                   </FormItem>
                 )}
               />
+              )}
             </div>
 
+            {transactionType === "dividend" && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="withholdingTax"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tax withheld</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="frankingCredits"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Franking credits</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="reinvestedQuantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Shares reinvested (DRIP)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="0" {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="reinvestmentPrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>DRIP issue price</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="date"
@@ -246,6 +509,54 @@ export function AddTransactionModal({ open, onOpenChange, portfolioId }: AddTran
               />
             </div>
 
+            {transactionType === "sell" && (
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-2">
+                  Lot relief method
+                </label>
+                <Select value={reliefMethod} onValueChange={setReliefMethod}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reliefMethods.map((method) => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {choosingLots && (
+              <div className="space-y-2">
+                {!ledger || ledger.openLots.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {symbol ? `No open lots for ${symbol}` : "Enter a symbol to choose lots"}
+                  </p>
+                ) : (
+                  ledger.openLots.map((lot) => (
+                    <div key={lot.id} className="flex items-center justify-between space-x-3">
+                      <div className="text-sm">
+                        <p className="text-foreground">{new Date(lot.openDate).toLocaleDateString()}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {lot.quantity.toLocaleString()} @ {lot.costPerShare.toFixed(2)}
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        className="w-28"
+                        placeholder="0"
+                        value={lotQuantities[lot.id] || ""}
+                        onChange={(e) => setLotQuantities({ ...lotQuantities, [lot.id]: e.target.value })}
+                      />
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="fees"
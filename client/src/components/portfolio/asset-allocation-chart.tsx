@@ -12,7 +12,7 @@ export function AssetAllocationChart({ holdings }: AssetAllocationChartProps) {
   // Calculate allocation data
   const allocationData = holdings.reduce((acc, holding) => {
     const region = getRegionFromExchange(holding.exchange);
-    acc[region] = (acc[region] || 0) + holding.currentValue;
+    acc[region] = (acc[region] || 0) + holding.currentValueBase;
     return acc;
   }, {} as Record<string, number>);
 
@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { addBenchmark, deleteBenchmark, fetchBenchmarkComparison, fetchBenchmarks } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import type { Benchmark, BenchmarkComparison } from "@shared/schema";
+
+interface BenchmarkCardProps {
+  portfolioId: string;
+  holdingSymbol?: string; // compare this holding; the whole portfolio when omitted
+  defaultCurrency: string; // offered for new benchmarks
+  selected?: Benchmark;
+  onSelect: (benchmark: Benchmark | undefined) => void; // the benchmark being compared and charted
+}
+
+const periodLabels: Record<string, string> = {
+  "1M": "1 month",
+  "3M": "3 months",
+  YTD: "Year to date",
+  "1Y": "1 year",
+  "3Y": "3 years",
+  ITD: "Since inception",
+};
+
+export function BenchmarkCard({ portfolioId, holdingSymbol, defaultCurrency, selected, onSelect }: BenchmarkCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [symbol, setSymbol] = useState("");
+  const [currency, setCurrency] = useState(defaultCurrency);
+
+  const { data: allBenchmarks = [] } = useQuery<Benchmark[]>({
+    queryKey: ["/api/portfolios", portfolioId, "benchmarks"],
+    queryFn: () => fetchBenchmarks(portfolioId),
+    enabled: !!portfolioId,
+  });
+  const benchmarks = allBenchmarks.filter((b) => b.holdingSymbol === (holdingSymbol?.toUpperCase() ?? null));
+
+  // Keep a benchmark selected while there is one to compare with
+  useEffect(() => {
+    if (!benchmarks.some((b) => b.id === selected?.id)) {
+      onSelect(benchmarks[0]);
+    }
+  }, [allBenchmarks]);
+
+  const { data: comparison, isLoading: comparisonLoading } = useQuery<BenchmarkComparison>({
+    queryKey: ["/api/portfolios", portfolioId, "benchmarks", selected?.id, "comparison"],
+    queryFn: () => fetchBenchmarkComparison(portfolioId, selected!.id),
+    enabled: !!selected,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update benchmarks",
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (): Promise<Benchmark> => addBenchmark(portfolioId, { symbol, currency, holdingSymbol }),
+    onSuccess: (benchmark) => {
+      toast({
+        title: "Success",
+        description: `Comparing with ${benchmark.symbol}`,
+      });
+      setSymbol("");
+      onSelect(benchmark);
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios", portfolioId, "benchmarks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/market-data", benchmark.symbol] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (benchmark: Benchmark) => deleteBenchmark(portfolioId, benchmark.id),
+    onSuccess: (_, benchmark) => {
+      toast({
+        title: "Success",
+        description: `${benchmark.symbol} removed`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios", portfolioId, "benchmarks"] });
+    },
+    onError,
+  });
+
+  const formatPercent = (percent: number | null) => {
+    if (percent === null) return "—";
+    return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+  };
+
+  const tone = (percent: number | null) => {
+    if (percent === null) return "";
+    return percent >= 0 ? "text-success" : "text-danger";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Benchmark performance</CardTitle>
+          {selected && (
+            <div className="flex items-center space-x-2">
+              <Select
+                value={selected.id}
+                onValueChange={(id) => onSelect(benchmarks.find((b) => b.id === id))}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {benchmarks.map((benchmark) => (
+                    <SelectItem key={benchmark.id} value={benchmark.id}>
+                      {benchmark.symbol}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(selected)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Compare your performance against a benchmark. You can use an index-tracking ETF or any other
+          instrument, global or local; it is bought and sold with the same cash flows as {holdingSymbol ?? "this portfolio"}.
+        </p>
+
+        {selected && (
+          comparisonLoading ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : comparison && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-2 text-sm font-medium text-muted-foreground">PERIOD</th>
+                    <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">RETURN</th>
+                    <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">{comparison.benchmark.symbol}</th>
+                    <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">EXCESS</th>
+                    <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">ALPHA</th>
+                    <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">BETA</th>
+                    <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">TRACKING ERROR</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {comparison.windows.map((window) => (
+                    <tr key={window.period} className="hover:bg-muted/50">
+                      <td className="py-3 px-2 text-sm">{periodLabels[window.period] ?? window.period}</td>
+                      <td className={`py-3 px-2 text-sm text-right ${tone(window.returnPercent)}`}>{formatPercent(window.returnPercent)}</td>
+                      <td className={`py-3 px-2 text-sm text-right ${tone(window.benchmarkReturnPercent)}`}>{formatPercent(window.benchmarkReturnPercent)}</td>
+                      <td className={`py-3 px-2 text-sm text-right font-medium ${tone(window.excessReturnPercent)}`}>{formatPercent(window.excessReturnPercent)}</td>
+                      <td className="py-3 px-2 text-sm text-right">{formatPercent(window.alphaPercent)}</td>
+                      <td className="py-3 px-2 text-sm text-right">{window.beta === null ? "—" : window.beta.toFixed(2)}</td>
+                      <td className="py-3 px-2 text-sm text-right">
+                        {window.trackingErrorPercent === null ? "—" : `${window.trackingErrorPercent.toFixed(2)}%`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-muted-foreground mt-2">
+                Returns use the portfolio's {comparison.method} method. Alpha and tracking error are annualized from daily returns.
+              </p>
+              {comparison.unpricedDates.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {comparison.benchmark.symbol} has no prices for {comparison.unpricedDates.length} of the days money went in or out, so those are left out of its return.
+                </p>
+              )}
+              {comparison.missingRates.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  No exchange rate for {comparison.missingRates.join(", ")}, so money moved in those currencies is left out of {comparison.benchmark.symbol}'s return.
+                </p>
+              )}
+            </div>
+          )
+        )}
+
+        <form
+          className="flex items-center space-x-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (symbol.trim()) addMutation.mutate();
+          }}
+        >
+          <Input
+            placeholder="Benchmark symbol, e.g. SPY"
+            value={symbol}
+            onChange={(event) => setSymbol(event.target.value)}
+          />
+          <Input
+            className="w-24"
+            placeholder="Currency"
+            maxLength={3}
+            value={currency}
+            onChange={(event) => setCurrency(event.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={addMutation.isPending || !symbol.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add benchmark
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
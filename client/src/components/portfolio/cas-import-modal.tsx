@@ -0,0 +1,341 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { serverApi, type ClientMfPosition } from "@/lib/server-api";
+
+const POLL_INTERVAL_MS = 2000;
+// Processing is taken as finished once the holdings have changed and then held still this many polls
+const SETTLED_POLLS = 2;
+// Past this, the report shows whatever the service has recorded, which is nothing for a statement already imported
+const MAX_WAIT_MS = 90_000;
+
+// Units are compared to three decimals, as statements print them
+const UNITS_TOLERANCE = 0.001;
+
+// How each trade type moves a scheme's units; the others (splits, demergers...) can't be checked
+const unitSigns: Partial<Record<ClientMfPosition["trades"][number]["type"], number>> = {
+  BUY: 1,
+  OPEN_BAL: 1,
+  BONUS: 1,
+  SELL: -1,
+};
+
+type Upload = {
+  before: ClientMfPosition[];
+  reply: string;
+  uploadedAt: number;
+};
+
+type Processing = {
+  fingerprint: string;
+  changed: boolean;
+  stablePolls: number;
+};
+
+type ReconciliationLine = {
+  isin: string;
+  name: string;
+  unitsBefore: number | null; // null when the portfolio didn't hold the scheme
+  unitsAfter: number | null; // null when the portfolio no longer holds it
+  tradesCreated: number;
+  expectedUnits: number | null; // null when a created trade's effect on units isn't known
+};
+
+// What a poll saw, to tell when the service stops recording trades
+function fingerprint(positions: ClientMfPosition[]): string {
+  return positions
+    .map(position => `${position.isin}:${position.units}:${position.trades.length}`)
+    .sort()
+    .join("|");
+}
+
+// Compare each MF holding before the upload with after it, through the trades the import created
+function reconcile(before: ClientMfPosition[], after: ClientMfPosition[]): ReconciliationLine[] {
+  const lines = new Map<string, ReconciliationLine>();
+  const knownTrades = new Set(before.flatMap(position => position.trades.map(trade => trade.id)));
+
+  for (const position of before) {
+    lines.set(position.isin, {
+      isin: position.isin,
+      name: position.name,
+      unitsBefore: position.units,
+      unitsAfter: null,
+      tradesCreated: 0,
+      expectedUnits: position.units,
+    });
+  }
+  for (const position of after) {
+    const line = lines.get(position.isin) ?? {
+      isin: position.isin,
+      name: position.name,
+      unitsBefore: null,
+      unitsAfter: null,
+      tradesCreated: 0,
+      expectedUnits: 0,
+    };
+    line.unitsAfter = position.units;
+    for (const trade of position.trades.filter(trade => !knownTrades.has(trade.id))) {
+      const sign = unitSigns[trade.type];
+      line.tradesCreated++;
+      line.expectedUnits = sign === undefined || line.expectedUnits === null
+        ? null
+        : line.expectedUnits + sign * trade.units;
+    }
+    lines.set(position.isin, line);
+  }
+  return Array.from(lines.values());
+}
+
+type LineStatus = "matched" | "differ" | "unchecked" | "not-in-statement";
+
+function lineStatus(line: ReconciliationLine): LineStatus {
+  if (line.tradesCreated === 0 && line.unitsBefore !== null && line.unitsAfter === line.unitsBefore) {
+    return "not-in-statement";
+  }
+  if (line.expectedUnits === null) return "unchecked";
+  return Math.abs(line.expectedUnits - (line.unitsAfter ?? 0)) > UNITS_TOLERANCE ? "differ" : "matched";
+}
+
+const isMismatch = (line: ReconciliationLine) => {
+  const status = lineStatus(line);
+  return status === "differ" || status === "not-in-statement";
+};
+
+interface CasImportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  portfolioId: string;
+}
+
+// The service's contract has no status endpoint for an upload, so its
+// progress is followed through the portfolio's MF holdings and their trades
+export function CasImportModal({ open, onOpenChange, portfolioId }: CasImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [password, setPassword] = useState("");
+  const [upload, setUpload] = useState<Upload | null>(null);
+  const [processing, setProcessing] = useState<Processing | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const uploadMutation = useMutation({
+    mutationFn: async (): Promise<Upload> => {
+      const before = await serverApi.getMfPositions(portfolioId);
+      const reply = await serverApi.uploadCasFile(portfolioId, password, file!);
+      return { before, reply, uploadedAt: Date.now() };
+    },
+    onSuccess: (result) => {
+      setUpload(result);
+      setProcessing({ fingerprint: fingerprint(result.before), changed: false, stablePolls: 0 });
+      setPassword("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload the CAS statement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const finished = timedOut || (!!processing?.changed && processing.stablePolls >= SETTLED_POLLS);
+
+  // Poll until the service has finished recording the statement's trades
+  const { data: after, dataUpdatedAt, error: pollError } = useQuery({
+    queryKey: ["/api/v2/cas-import", portfolioId, upload?.uploadedAt],
+    queryFn: () => serverApi.getMfPositions(portfolioId),
+    enabled: !!upload,
+    refetchInterval: finished ? false : POLL_INTERVAL_MS,
+  });
+
+  useEffect(() => {
+    if (!after || !upload) return;
+    const seen = fingerprint(after);
+    setProcessing(current => current && (seen === current.fingerprint
+      ? { ...current, stablePolls: current.stablePolls + 1 }
+      : { fingerprint: seen, changed: true, stablePolls: 0 }));
+    if (Date.now() - upload.uploadedAt >= MAX_WAIT_MS) setTimedOut(true);
+  }, [after, dataUpdatedAt, upload]);
+
+  const lines = finished && upload && after ? reconcile(upload.before, after) : [];
+  const imported = lines.filter(line => lineStatus(line) !== "not-in-statement");
+  const mismatches = lines.filter(isMismatch);
+  const tradesCreated = lines.reduce((sum, line) => sum + line.tradesCreated, 0);
+
+  const close = (isOpen: boolean) => {
+    if (!isOpen) {
+      if (upload) {
+        queryClient.invalidateQueries({ queryKey: ["/api/portfolios"] });
+      }
+      setFile(null);
+      setPassword("");
+      setUpload(null);
+      setProcessing(null);
+      setTimedOut(false);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const formatUnits = (units: number | null) =>
+    units === null ? "—" : units.toLocaleString(undefined, { maximumFractionDigits: 3 });
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import CAS Statement</DialogTitle>
+          <DialogDescription>
+            Upload a Consolidated Account Statement to record its mutual fund trades, then check them
+            against the portfolio's MF holdings.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!upload && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="cas-file">Statement (PDF)</Label>
+              <Input
+                id="cas-file"
+                type="file"
+                accept=".pdf,application/pdf"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cas-password">PDF password</Label>
+              <Input
+                id="cas-password"
+                type="password"
+                autoComplete="off"
+                placeholder="Usually your PAN"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        {upload && !finished && (
+          <div className="space-y-3 py-4">
+            <Progress value={processing?.changed ? 75 : 30} />
+            <p className="text-sm text-muted-foreground">
+              {pollError
+                ? `Could not check the portfolio's holdings: ${(pollError as Error).message}`
+                : processing?.changed
+                  ? "Recording the statement's trades"
+                  : "Uploaded; waiting for the service to process the statement"}
+            </p>
+          </div>
+        )}
+
+        {upload && finished && (
+          <div className="space-y-6">
+            {upload.reply && (
+              <p className="text-sm text-muted-foreground">The portfolio service replied: {upload.reply}</p>
+            )}
+            {!processing?.changed && (
+              <p className="text-sm text-muted-foreground">
+                No new trades appeared within {MAX_WAIT_MS / 1000} seconds. The statement may already have been
+                imported, or the service may still be processing it.
+              </p>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              {[
+                { label: "Schemes imported", value: imported.length },
+                { label: "Trades created", value: tradesCreated },
+                { label: "Mismatches", value: mismatches.length },
+              ].map((stat) => (
+                <div key={stat.label} className="rounded-lg border border-border p-3">
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  <p className="text-xl font-bold">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium mb-2">Reconciliation with MF holdings</h3>
+              {lines.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The portfolio holds no mutual funds.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left py-2 px-2 font-medium text-muted-foreground">Scheme</th>
+                        <th className="text-right py-2 px-2 font-medium text-muted-foreground">Units before</th>
+                        <th className="text-right py-2 px-2 font-medium text-muted-foreground">Trades</th>
+                        <th className="text-right py-2 px-2 font-medium text-muted-foreground">Expected</th>
+                        <th className="text-right py-2 px-2 font-medium text-muted-foreground">Units now</th>
+                        <th className="text-left py-2 px-2 font-medium text-muted-foreground">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {lines.map((line) => {
+                        const status = lineStatus(line);
+                        return (
+                          <tr key={line.isin}>
+                            <td className="py-2 px-2">
+                              <p className="font-medium text-foreground">{line.name}</p>
+                              <p className="text-xs text-muted-foreground">{line.isin}</p>
+                            </td>
+                            <td className="py-2 px-2 text-right">{formatUnits(line.unitsBefore)}</td>
+                            <td className="py-2 px-2 text-right">{line.tradesCreated}</td>
+                            <td className="py-2 px-2 text-right">{formatUnits(line.expectedUnits)}</td>
+                            <td className="py-2 px-2 text-right">{formatUnits(line.unitsAfter)}</td>
+                            <td className="py-2 px-2">
+                              {status === "not-in-statement" ? (
+                                <Badge variant="secondary">Not in statement</Badge>
+                              ) : status === "unchecked" ? (
+                                <Badge variant="outline">Not checked</Badge>
+                              ) : status === "differ" ? (
+                                <Badge variant="destructive">Units differ</Badge>
+                              ) : (
+                                <Badge>Matched</Badge>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {!upload ? (
+            <>
+              <Button variant="outline" onClick={() => close(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => uploadMutation.mutate()}
+                disabled={!file || !password || uploadMutation.isPending}
+              >
+                {uploadMutation.isPending ? "Uploading..." : "Upload"}
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => close(false)}>{finished ? "Done" : "Close"}</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
@@ -7,9 +7,9 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
-import { serverApi, type ClientPortfolioCreateRequest } from "@/lib/server-api";
+import { dataSource } from "@/lib/data-source";
 import { useToast } from "@/hooks/use-toast";
-import { insertPortfolioSchema } from "@shared/schema";
+import { insertPortfolioSchema, type Portfolio } from "@shared/schema";
 import { z } from "zod";
 import { Calendar, CalendarIcon } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
@@ -24,6 +24,7 @@ type FormData = z.infer<typeof formSchema>;
 interface CreatePortfolioModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  portfolio?: Portfolio | null; // edit this portfolio rather than create one
 }
 
 const countries = [
@@ -48,70 +49,101 @@ const financialYearEnds = [
   "31st Dec",
 ];
 
+const lotReliefMethods = [
+  { value: "FIFO", label: "First in, first out (FIFO)" },
+  { value: "LIFO", label: "Last in, first out (LIFO)" },
+  { value: "HIFO", label: "Highest cost first (HIFO)" },
+  { value: "AVERAGE", label: "Average cost" },
+  { value: "SPECIFIC", label: "Specific lot identification" },
+];
+
 const performanceMethods = [
   { value: "Simple", label: "Simple", description: "Basic time-weighted returns" },
   { value: "TWRR", label: "Time-Weighted Rate of Return", description: "Industry standard for portfolio performance" },
   { value: "MWRR", label: "Money-Weighted Rate of Return", description: "Considers timing of cash flows" },
 ];
 
-export function CreatePortfolioModal({ open, onOpenChange }: CreatePortfolioModalProps) {
+const emptyForm: FormData = {
+  name: "",
+  description: "",
+  externalIdentifier: "",
+  taxResidency: "US",
+  financialYearEnd: "31st Mar",
+  performanceCalculationMethod: "Simple",
+  lotReliefMethod: "FIFO",
+  baseCurrency: "USD",
+};
+
+export function CreatePortfolioModal({ open, onOpenChange, portfolio }: CreatePortfolioModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      name: "",
-      description: "",
-      externalIdentifier: "",
-      taxResidency: "US",
-      financialYearEnd: "31st Mar",
-      performanceCalculationMethod: "Simple",
-      baseCurrency: "USD",
-    },
+    defaultValues: emptyForm,
   });
 
-  const createPortfolioMutation = useMutation({
+  // Start from the portfolio being edited, or a blank form
+  useEffect(() => {
+    if (!open) return;
+    form.reset(portfolio ? {
+      name: portfolio.name,
+      description: portfolio.description ?? "",
+      externalIdentifier: portfolio.externalIdentifier ?? "",
+      taxResidency: portfolio.taxResidency,
+      financialYearEnd: portfolio.financialYearEnd,
+      performanceCalculationMethod: portfolio.performanceCalculationMethod as FormData["performanceCalculationMethod"],
+      lotReliefMethod: portfolio.lotReliefMethod as FormData["lotReliefMethod"],
+      baseCurrency: portfolio.baseCurrency,
+    } : emptyForm);
+  }, [open, portfolio, form]);
+
+  const savePortfolioMutation = useMutation({
     mutationFn: async (data: FormData) => {
-      // Transform form data to client API format
-      const clientData: ClientPortfolioCreateRequest = {
+      const values = {
         name: data.name,
-        description: data.description || undefined,
+        // Blank clears what an edited portfolio had
+        description: data.description || null,
         baseCurrency: data.baseCurrency || "USD",
         taxResidency: data.taxResidency || "US",
         financialYearEnd: data.financialYearEnd || "31st Mar",
         performanceCalculationMethod: data.performanceCalculationMethod,
-        externalIdentifier: data.externalIdentifier
+        lotReliefMethod: data.lotReliefMethod,
+        externalIdentifier: data.externalIdentifier || null,
       };
-      return await serverApi.createPortfolio(clientData);
+      return portfolio
+        ? dataSource.updatePortfolio(portfolio.id, values)
+        : dataSource.createPortfolio(values);
     },
     onSuccess: () => {
       toast({
         title: "Success",
-        description: "Portfolio created successfully",
+        description: portfolio ? "Portfolio updated successfully" : "Portfolio created successfully",
       });
+      // Metrics are restated when the base currency or relief method changes
       queryClient.invalidateQueries({ queryKey: ["/api/portfolios"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/holdings"] });
       onOpenChange(false);
       form.reset();
     },
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to create portfolio",
+        description: error.message || (portfolio ? "Failed to update portfolio" : "Failed to create portfolio"),
         variant: "destructive",
       });
     },
   });
 
   const onSubmit = (data: FormData) => {
-    createPortfolioMutation.mutate(data);
+    savePortfolioMutation.mutate(data);
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle className="text-2xl font-bold">Create a new portfolio</DialogTitle>
+          <DialogTitle className="text-2xl font-bold">{portfolio ? "Edit portfolio" : "Create a new portfolio"}</DialogTitle>
         </DialogHeader>
         
         <Form {...form}>
@@ -167,7 +199,7 @@ export function CreatePortfolioModal({ open, onOpenChange }: CreatePortfolioModa
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Tax residency of portfolio</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select country" />
@@ -192,7 +224,7 @@ export function CreatePortfolioModal({ open, onOpenChange }: CreatePortfolioModa
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Financial year end date</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select financial year end" />
@@ -220,7 +252,7 @@ export function CreatePortfolioModal({ open, onOpenChange }: CreatePortfolioModa
                   <FormDescription>
                     Select the performance calculation method for percentage statistics
                   </FormDescription>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select calculation method" />
@@ -242,13 +274,41 @@ export function CreatePortfolioModal({ open, onOpenChange }: CreatePortfolioModa
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="lotReliefMethod"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tax lot relief method</FormLabel>
+                  <FormDescription>
+                    Which purchase lots a sale is matched against when calculating realized gains
+                  </FormDescription>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select relief method" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {lotReliefMethods.map((method) => (
+                        <SelectItem key={method.value} value={method.value}>
+                          {method.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="baseCurrency"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Base currency</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select base currency" />
@@ -282,9 +342,11 @@ export function CreatePortfolioModal({ open, onOpenChange }: CreatePortfolioModa
               <Button
                 type="submit"
                 className="flex-1"
-                disabled={createPortfolioMutation.isPending}
+                disabled={savePortfolioMutation.isPending}
               >
-                {createPortfolioMutation.isPending ? "Creating..." : "Create portfolio"}
+                {portfolio
+                  ? savePortfolioMutation.isPending ? "Saving..." : "Save changes"
+                  : savePortfolioMutation.isPending ? "Creating..." : "Create portfolio"}
               </Button>
             </div>
           </form>
@@ -24,7 +24,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { serverApi } from "@/lib/server-api";
+import { dataSource } from "@/lib/data-source";
 import type { HoldingWithMetrics } from "@shared/schema";
 
 const editHoldingSchema = z.object({
@@ -82,25 +82,11 @@ export function EditHoldingModal({ open, onOpenChange, holding }: EditHoldingMod
     mutationFn: async (data: EditHoldingFormData) => {
       if (!holding) throw new Error("No holding selected");
       
-      // In a real implementation, you would have an API endpoint to update holdings
-      // For now, we'll simulate the update
-      const response = await fetch(`/api/holdings/${holding.id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          ...data,
-          quantity: parseFloat(data.quantity),
-          averageCost: parseFloat(data.averageCost),
-        }),
+      await dataSource.updateHolding(holding, {
+        ...data,
+        quantity: parseFloat(data.quantity),
+        averageCost: parseFloat(data.averageCost),
       });
-
-      if (!response.ok) {
-        throw new Error("Failed to update holding");
-      }
-
-      return response.json();
     },
     onSuccess: () => {
       toast({
@@ -158,7 +144,8 @@ export function EditHoldingModal({ open, onOpenChange, holding }: EditHoldingMod
         <DialogHeader>
           <DialogTitle>Edit Holding</DialogTitle>
           <DialogDescription>
-            Update the details of your holding. Changes will be reflected in your portfolio immediately.
+            Update the details of your holding. A new quantity or average cost is recorded as an
+            adjustment transaction, so tax lots and returns follow it.
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
@@ -170,8 +157,9 @@ export function EditHoldingModal({ open, onOpenChange, holding }: EditHoldingMod
                 <FormItem>
                   <FormLabel>Symbol</FormLabel>
                   <FormControl>
-                    <Input placeholder="e.g., AAPL" {...field} />
+                    <Input placeholder="e.g., AAPL" {...field} disabled />
                   </FormControl>
+                  <FormDescription>Transactions are recorded under the symbol, exchange and currency, so they can't change</FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
@@ -198,7 +186,7 @@ export function EditHoldingModal({ open, onOpenChange, holding }: EditHoldingMod
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Exchange</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value} disabled>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select exchange" />
@@ -223,7 +211,7 @@ export function EditHoldingModal({ open, onOpenChange, holding }: EditHoldingMod
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Currency</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value} disabled>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select currency" />
@@ -0,0 +1,244 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { updateTransaction } from "@/lib/api";
+import type { Transaction } from "@shared/schema";
+
+const number = (label: string) =>
+  z.string().refine((val) => val !== "" && !isNaN(Number(val)) && Number(val) >= 0, {
+    message: `${label} must be zero or more`,
+  });
+
+const editTransactionSchema = z.object({
+  symbol: z.string().min(1, "Symbol is required"),
+  date: z.string().min(1, "Date is required"),
+  quantity: number("Quantity"),
+  price: number("Price"),
+  fees: number("Fees"),
+  exchange: z.string().min(1, "Exchange is required"),
+  currency: z.string().min(1, "Currency is required"),
+});
+
+type EditTransactionFormData = z.infer<typeof editTransactionSchema>;
+
+interface EditTransactionModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transaction: Transaction | null;
+}
+
+export function EditTransactionModal({ open, onOpenChange, transaction }: EditTransactionModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<EditTransactionFormData>({
+    resolver: zodResolver(editTransactionSchema),
+    defaultValues: {
+      symbol: "",
+      date: "",
+      quantity: "",
+      price: "",
+      fees: "0",
+      exchange: "",
+      currency: "USD",
+    },
+  });
+
+  // Update form values when transaction changes
+  useEffect(() => {
+    if (transaction) {
+      form.reset({
+        symbol: transaction.symbol,
+        date: new Date(transaction.date).toISOString().split('T')[0],
+        quantity: transaction.quantity,
+        price: transaction.price,
+        fees: transaction.fees || "0",
+        exchange: transaction.exchange,
+        currency: transaction.currency,
+      });
+    }
+  }, [transaction, form]);
+
+  const updateTransactionMutation = useMutation({
+    mutationFn: async (data: EditTransactionFormData) => {
+      if (!transaction) throw new Error("No transaction selected");
+
+      // Same total as when the transaction was added: dividends record the gross amount
+      const quantity = parseFloat(data.quantity);
+      const price = parseFloat(data.price);
+      const fees = parseFloat(data.fees);
+      const totalAmount = transaction.type === "dividend" ? quantity * price : quantity * price + fees;
+
+      return updateTransaction(transaction.portfolioId, transaction.id, {
+        ...data,
+        symbol: data.symbol.toUpperCase(),
+        totalAmount: totalAmount.toString(),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Transaction updated; holdings recalculated",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios", transaction?.portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/holdings"] });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update transaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isCorporateAction = !!transaction && !["buy", "sell", "dividend"].includes(transaction.type);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Transaction</DialogTitle>
+          <DialogDescription>
+            {transaction
+              ? `${transaction.type.toUpperCase()} ${transaction.symbol}. Holdings and realized gains are recalculated when you save.`
+              : ""}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updateTransactionMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="symbol"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Symbol</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {!isCorporateAction && (
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quantity</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Price</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="fees"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fees</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="exchange"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Exchange</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateTransactionMutation.isPending}>
+                {updateTransactionMutation.isPending ? "Saving..." : "Save Changes"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
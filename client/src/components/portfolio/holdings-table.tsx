@@ -2,10 +2,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Filter, Search, Eye } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Filter, Search, Eye, Clock } from "lucide-react";
 import { useState } from "react";
 import { useLocation } from "wouter";
-import { useQueryClient } from "@tanstack/react-query";
 import type { HoldingWithMetrics } from "@shared/schema";
 
 interface HoldingsTableProps {
@@ -16,7 +16,6 @@ interface HoldingsTableProps {
 export function HoldingsTable({ holdings, isLoading }: HoldingsTableProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const [, navigate] = useLocation();
-  const queryClient = useQueryClient();
 
   const filteredHoldings = holdings.filter(holding =>
     holding.symbol.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -107,8 +106,6 @@ export function HoldingsTable({ holdings, isLoading }: HoldingsTableProps) {
                     key={holding.id}
                     className="hover:bg-muted/50 cursor-pointer"
                     onClick={() => {
-                      // Cache the holding data in React Query for instant access on details page
-                      queryClient.setQueryData(["/api/holdings", holding.id], holding);
                       navigate(`/holdings/${holding.id}`);
                     }}
                   >
@@ -128,7 +125,23 @@ export function HoldingsTable({ holdings, isLoading }: HoldingsTableProps) {
                       {parseFloat(holding.quantity).toLocaleString()}
                     </td>
                     <td className="py-3 px-2 text-right text-foreground">
-                      {holding.currentPrice ? formatCurrency(parseFloat(holding.currentPrice), holding.currency) : "—"}
+                      <div className="flex items-center justify-end space-x-1">
+                        {holding.currentPrice && holding.isStale && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Clock className="h-3 w-3 text-warning" />
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              {holding.priceAsOf
+                                ? `Price out of date (as of ${new Date(holding.priceAsOf).toLocaleString()})`
+                                : "Price out of date"}
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
+                        <span>
+                          {holding.currentPrice ? formatCurrency(parseFloat(holding.currentPrice), holding.currency) : "—"}
+                        </span>
+                      </div>
                     </td>
                     <td className="py-3 px-2 text-right font-medium text-foreground">
                       {formatCurrency(holding.currentValue, holding.currency)}
@@ -149,8 +162,6 @@ export function HoldingsTable({ holdings, isLoading }: HoldingsTableProps) {
                         size="sm"
                         onClick={(e) => {
                           e.stopPropagation();
-                          // Cache the holding data in React Query for instant access on details page
-                          queryClient.setQueryData(["/api/holdings", holding.id], holding);
                           navigate(`/holdings/${holding.id}`);
                         }}
                       >
@@ -0,0 +1,495 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Papa from "papaparse";
+import { readSheet } from "read-excel-file/browser";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2, Upload } from "lucide-react";
+import { deleteImportTemplate, fetchImportTemplates, importTransactions, saveImportTemplate } from "@/lib/api";
+import {
+  importDateFormats,
+  importFields,
+  type ImportCell,
+  type ImportField,
+  type ImportOptions,
+  type ImportResult,
+  type ImportRowStatus,
+  type ImportTemplate,
+} from "@shared/schema";
+
+const NONE = "none";
+
+const fieldLabels: Record<ImportField, string> = {
+  date: "Date",
+  type: "Type",
+  symbol: "Symbol",
+  quantity: "Quantity",
+  price: "Price",
+  totalAmount: "Total amount",
+  fees: "Fees",
+  currency: "Currency",
+  exchange: "Exchange",
+  instrumentType: "Instrument type",
+};
+
+const requiredFields: ImportField[] = ["date", "symbol", "quantity", "price"];
+
+// Header names brokers commonly use for each field, to suggest a mapping
+const headerGuesses: Record<ImportField, string[]> = {
+  date: ["date", "trade date", "transaction date", "settlement date"],
+  type: ["type", "action", "side", "buy/sell", "transaction type"],
+  symbol: ["symbol", "ticker", "code", "security", "instrument"],
+  quantity: ["quantity", "qty", "shares", "units", "volume"],
+  price: ["price", "unit price", "trade price", "avg price"],
+  totalAmount: ["total", "amount", "net amount", "value", "consideration"],
+  fees: ["fees", "fee", "commission", "brokerage", "charges"],
+  currency: ["currency", "ccy"],
+  exchange: ["exchange", "market"],
+  instrumentType: ["instrument type", "asset class", "asset type"],
+};
+
+const statusVariants: Record<ImportRowStatus, "default" | "secondary" | "destructive"> = {
+  new: "default",
+  duplicate: "secondary",
+  invalid: "destructive",
+};
+
+const defaultOptions: ImportOptions = {
+  hasHeader: true,
+  columns: {},
+  defaults: { type: "buy" },
+  dateFormat: "YYYY-MM-DD",
+  decimalSeparator: ".",
+};
+
+// Every cell of the first sheet. Spreadsheet dates become YYYY-MM-DD text and numeric cells stay numbers.
+async function readSpreadsheet(file: File): Promise<ImportCell[][]> {
+  if (file.name.toLowerCase().endsWith(".csv")) {
+    return Papa.parse<string[]>(await file.text()).data;
+  }
+  const rows = await readSheet(file);
+  return rows.map(row => row.map((cell: unknown): ImportCell => {
+    if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+    return typeof cell === "number" ? cell : String(cell ?? "");
+  }));
+}
+
+function guessColumns(header: ImportCell[]): ImportOptions["columns"] {
+  const columns: ImportOptions["columns"] = {};
+  for (const field of importFields) {
+    const index = header.findIndex(cell => headerGuesses[field].includes(String(cell).trim().toLowerCase()));
+    if (index >= 0) columns[field] = index;
+  }
+  return columns;
+}
+
+interface ImportTransactionsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  portfolioId: string;
+}
+
+export function ImportTransactionsModal({ open, onOpenChange, portfolioId }: ImportTransactionsModalProps) {
+  const [step, setStep] = useState<"upload" | "map" | "preview">("upload");
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ImportCell[][]>([]);
+  const [options, setOptions] = useState<ImportOptions>(defaultOptions);
+  const [templateName, setTemplateName] = useState("");
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [] } = useQuery<ImportTemplate[]>({
+    queryKey: ["/api/import-templates"],
+    queryFn: fetchImportTemplates,
+    enabled: open,
+  });
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setRows([]);
+    setPreview(null);
+  };
+
+  const close = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const columnCount = rows.reduce((count, row) => Math.max(count, row.length), 0);
+  const columnNames = Array.from({ length: columnCount }, (_, i) =>
+    options.hasHeader && String(rows[0]?.[i] ?? "").trim() ? String(rows[0][i]) : `Column ${i + 1}`);
+  const sample = rows.slice(options.hasHeader ? 1 : 0, (options.hasHeader ? 1 : 0) + 3);
+  const missingFields = requiredFields.filter(field => options.columns[field] === undefined);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.length === 0) throw new Error("The file has no rows");
+      setFileName(file.name);
+      setRows(parsed);
+      setOptions({ ...options, columns: guessColumns(parsed[0]) });
+      setStep("map");
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to read the file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    const columns = { ...options.columns };
+    if (value === NONE) delete columns[field];
+    else columns[field] = parseInt(value);
+    setOptions({ ...options, columns });
+  };
+
+  const setDefault = (key: keyof ImportOptions["defaults"], value: string) => {
+    setOptions({ ...options, defaults: { ...options.defaults, [key]: value || undefined } });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: (dryRun: boolean) => importTransactions(portfolioId, { rows, options, dryRun }),
+    onSuccess: (result: ImportResult) => {
+      if (result.dryRun) {
+        setPreview(result);
+        setStep("preview");
+        return;
+      }
+      toast({
+        title: "Success",
+        description: `${result.imported} transaction${result.imported === 1 ? "" : "s"} imported; holdings recalculated`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/holdings"] });
+      close(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import transactions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: () => saveImportTemplate({ name: templateName.trim(), options }),
+    onSuccess: () => {
+      toast({ title: "Success", description: `Mapping saved as "${templateName.trim()}"` });
+      queryClient.invalidateQueries({ queryKey: ["/api/import-templates"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save mapping",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: (id: string) => deleteImportTemplate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-templates"] });
+    },
+  });
+
+  const loadTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+    setOptions({ ...defaultOptions, ...template.options });
+    setTemplateName(template.name);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or Excel export from your broker."}
+            {step === "map" && `Match the columns of ${fileName} to transaction fields.`}
+            {step === "preview" && "Check what will be imported. Duplicates and invalid rows are skipped."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <label className="flex flex-col items-center justify-center h-40 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-muted">
+            <Upload className="w-8 h-8 text-muted-foreground mb-2" />
+            <span className="text-sm text-muted-foreground">Choose a .csv or .xlsx file</span>
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-2">
+                <Label>Saved mapping</Label>
+                <Select value="" onValueChange={loadTemplate}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder={templates.length ? "Load mapping" : "No saved mappings"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Save as</Label>
+                <Input
+                  className="w-48"
+                  placeholder="Broker name"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => saveTemplateMutation.mutate()}
+                disabled={!templateName.trim() || saveTemplateMutation.isPending}
+              >
+                Save Mapping
+              </Button>
+              {templates.some(t => t.name === templateName.trim()) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteTemplateMutation.mutate(templates.find(t => t.name === templateName.trim())!.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Date format</Label>
+                <Select
+                  value={options.dateFormat}
+                  onValueChange={(value) => setOptions({ ...options, dateFormat: value as ImportOptions["dateFormat"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {importDateFormats.map((format) => (
+                      <SelectItem key={format} value={format}>
+                        {format}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Decimal separator</Label>
+                <Select
+                  value={options.decimalSeparator}
+                  onValueChange={(value) => setOptions({ ...options, decimalSeparator: value as "." | "," })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=".">1,234.56</SelectItem>
+                    <SelectItem value=",">1.234,56</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Default currency</Label>
+                <Input
+                  placeholder="e.g. USD"
+                  value={options.defaults.currency ?? ""}
+                  onChange={(e) => setDefault("currency", e.target.value.toUpperCase())}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Default exchange</Label>
+                <Input
+                  placeholder="e.g. NASDAQ"
+                  value={options.defaults.exchange ?? ""}
+                  onChange={(e) => setDefault("exchange", e.target.value.toUpperCase())}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="import-has-header"
+                checked={options.hasHeader}
+                onCheckedChange={(checked) => setOptions({ ...options, hasHeader: checked === true })}
+              />
+              <Label htmlFor="import-has-header">First row is a header</Label>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {importFields.map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label>
+                    {fieldLabels[field]}
+                    {requiredFields.includes(field) && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={options.columns[field] === undefined ? NONE : String(options.columns[field])}
+                    onValueChange={(value) => setColumn(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Not in file</SelectItem>
+                      {columnNames.map((name, i) => (
+                        <SelectItem key={i} value={String(i)}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Without a type column every row is read as a buy; without a total it is quantity × price plus fees.
+            </p>
+
+            {sample.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-border">
+                      {columnNames.map((name, i) => (
+                        <th key={i} className="text-left py-1 px-2 font-medium text-muted-foreground">{name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {sample.map((row, r) => (
+                      <tr key={r}>
+                        {columnNames.map((_, i) => (
+                          <td key={i} className="py-1 px-2 whitespace-nowrap">{row[i]}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-4">
+            <div className="flex space-x-2">
+              <Badge>{preview.new} new</Badge>
+              <Badge variant="secondary">{preview.duplicate} duplicate</Badge>
+              <Badge variant="destructive">{preview.invalid} invalid</Badge>
+            </div>
+            <div className="overflow-x-auto max-h-96">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">Row</th>
+                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">Status</th>
+                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">Date</th>
+                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">Type</th>
+                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">Symbol</th>
+                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Quantity</th>
+                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Price</th>
+                    <th className="text-right py-2 px-2 font-medium text-muted-foreground">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {preview.rows.map((row) => (
+                    <tr key={row.row}>
+                      <td className="py-2 px-2 text-muted-foreground">{row.row}</td>
+                      <td className="py-2 px-2">
+                        <Badge variant={statusVariants[row.status]}>{row.status}</Badge>
+                      </td>
+                      {row.transaction ? (
+                        <>
+                          <td className="py-2 px-2">{new Date(row.transaction.date).toLocaleDateString()}</td>
+                          <td className="py-2 px-2">{row.transaction.type.toUpperCase()}</td>
+                          <td className="py-2 px-2 font-medium">{row.transaction.symbol}</td>
+                          <td className="py-2 px-2 text-right">{parseFloat(row.transaction.quantity).toLocaleString()}</td>
+                          <td className="py-2 px-2 text-right">{parseFloat(row.transaction.price).toLocaleString()}</td>
+                          <td className="py-2 px-2 text-right">
+                            {parseFloat(row.transaction.totalAmount).toLocaleString()} {row.transaction.currency}
+                          </td>
+                        </>
+                      ) : (
+                        <td colSpan={6} className="py-2 px-2 text-destructive">{row.errors.join("; ")}</td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Choose Another File
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(true)}
+                disabled={missingFields.length > 0 || importMutation.isPending}
+              >
+                {importMutation.isPending
+                  ? "Checking..."
+                  : missingFields.length > 0
+                    ? `Map ${missingFields.map(f => fieldLabels[f].toLowerCase()).join(", ")}`
+                    : "Preview Import"}
+              </Button>
+            </>
+          )}
+          {step === "preview" && preview && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back to Mapping
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(false)}
+                disabled={preview.new === 0 || importMutation.isPending}
+              >
+                {importMutation.isPending
+                  ? "Importing..."
+                  : `Import ${preview.new} Transaction${preview.new === 1 ? "" : "s"}`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
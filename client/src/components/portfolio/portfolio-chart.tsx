@@ -1,93 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { TrendingUp } from "lucide-react";
-import { useEffect, useRef } from "react";
+import { Area, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { fetchValuation } from "@/lib/api";
+import type { Benchmark, PortfolioValuation } from "@shared/schema";
 
 interface PortfolioChartProps {
-  data?: any[];
+  portfolioId?: string;
+  baseCurrency?: string;
   timeRange: string;
   onTimeRangeChange: (range: string) => void;
+  benchmark?: Benchmark; // overlaid as the same contributions invested in it
 }
 
-export function PortfolioChart({ data, timeRange, onTimeRangeChange }: PortfolioChartProps) {
-  const chartRef = useRef<HTMLCanvasElement>(null);
+// Longer ranges are sampled less often to keep the series small
+const intervalForRange = (range: string) => {
+  return ["3Y", "5Y", "ALL"].includes(range) ? "week" : "day";
+};
 
-  useEffect(() => {
-    if (!chartRef.current) return;
+export function PortfolioChart({ portfolioId, baseCurrency = "USD", timeRange, onTimeRangeChange, benchmark }: PortfolioChartProps) {
+  const interval = intervalForRange(timeRange);
+  const { data: valuation, isLoading } = useQuery<PortfolioValuation>({
+    queryKey: ["/api/portfolios", portfolioId, "valuation", timeRange, interval, benchmark?.id],
+    queryFn: () => fetchValuation(portfolioId!, timeRange, interval, benchmark?.id),
+    enabled: !!portfolioId,
+  });
 
-    // In a real implementation, this would use Chart.js or similar
-    const ctx = chartRef.current.getContext('2d');
-    if (!ctx) return;
+  const currency = valuation?.baseCurrency ?? baseCurrency;
 
-    // Clear canvas
-    ctx.clearRect(0, 0, chartRef.current.width, chartRef.current.height);
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
 
-    // Draw a simple mock chart
-    const width = chartRef.current.width;
-    const height = chartRef.current.height;
-    const padding = 40;
-
-    // Draw axes
-    ctx.strokeStyle = '#e5e7eb';
-    ctx.lineWidth = 1;
-    ctx.beginPath();
-    ctx.moveTo(padding, height - padding);
-    ctx.lineTo(width - padding, height - padding);
-    ctx.moveTo(padding, padding);
-    ctx.lineTo(padding, height - padding);
-    ctx.stroke();
-
-    // Draw mock performance line
-    ctx.strokeStyle = '#3b82f6';
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    
-    const points = [
-      { x: padding, y: height - 100 },
-      { x: width * 0.2, y: height - 120 },
-      { x: width * 0.4, y: height - 80 },
-      { x: width * 0.6, y: height - 140 },
-      { x: width * 0.8, y: height - 160 },
-      { x: width - padding, y: height - 180 },
-    ];
-
-    points.forEach((point, index) => {
-      if (index === 0) {
-        ctx.moveTo(point.x, point.y);
-      } else {
-        ctx.lineTo(point.x, point.y);
-      }
-    });
-    ctx.stroke();
-
-    // Draw gradient fill
-    const gradient = ctx.createLinearGradient(0, 0, 0, height);
-    gradient.addColorStop(0, 'rgba(59, 130, 246, 0.1)');
-    gradient.addColorStop(1, 'rgba(59, 130, 246, 0)');
-    
-    ctx.fillStyle = gradient;
-    ctx.beginPath();
-    ctx.moveTo(padding, height - padding);
-    points.forEach((point, index) => {
-      if (index === 0) {
-        ctx.lineTo(point.x, point.y);
-      } else {
-        ctx.lineTo(point.x, point.y);
-      }
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: '2-digit'
     });
-    ctx.lineTo(width - padding, height - padding);
-    ctx.closePath();
-    ctx.fill();
-
-  }, [data, timeRange]);
+  };
 
   const timeRanges = [
+    { label: "1M", value: "1M" },
+    { label: "3M", value: "3M" },
     { label: "1Y", value: "1Y" },
     { label: "3Y", value: "3Y" },
     { label: "5Y", value: "5Y" },
-    { label: "All", value: "All" },
+    { label: "All", value: "ALL" },
   ];
 
+  const seriesLabels: Record<string, string> = {
+    marketValue: "Market value",
+    costBasis: "Cost basis",
+    netContributions: "Net contributions",
+    benchmarkValue: benchmark ? `Invested in ${benchmark.symbol}` : "Benchmark",
+  };
+
+  const points = valuation?.points ?? [];
+
   return (
     <Card>
       <CardHeader>
@@ -109,20 +84,47 @@ export function PortfolioChart({ data, timeRange, onTimeRangeChange }: Portfolio
       </CardHeader>
       <CardContent>
         <div className="h-80 bg-gradient-to-br from-blue-50 to-purple-50 dark:from-gray-800 dark:to-gray-700 rounded-lg flex items-center justify-center relative">
-          <canvas
-            ref={chartRef}
-            width={600}
-            height={320}
-            className="absolute inset-0 w-full h-full"
-          />
-          <div className="text-center z-10 pointer-events-none">
-            <TrendingUp className="text-primary text-4xl mb-4 mx-auto" />
-            <p className="text-muted-foreground">Interactive Performance Chart</p>
-            <p className="text-sm text-muted-foreground">
-              Shows portfolio value over time with benchmark comparison
-            </p>
-          </div>
+          {isLoading ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          ) : points.length < 2 ? (
+            <div className="text-center">
+              <TrendingUp className="text-primary text-4xl mb-4 mx-auto" />
+              <p className="text-muted-foreground">No valuation history yet</p>
+              <p className="text-sm text-muted-foreground">
+                Add transactions to see portfolio value over time
+              </p>
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={points} margin={{ top: 16, right: 16, bottom: 8, left: 8 }}>
+                <defs>
+                  <linearGradient id="marketValueFill" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="0%" stopColor="#3b82f6" stopOpacity={0.2} />
+                    <stop offset="100%" stopColor="#3b82f6" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+                <XAxis dataKey="date" tickFormatter={formatDate} fontSize={12} minTickGap={32} />
+                <YAxis tickFormatter={(value: number) => formatCurrency(value)} fontSize={12} width={90} />
+                <Tooltip
+                  labelFormatter={(label: string) => formatDate(label)}
+                  formatter={(value: number, name: string) => [formatCurrency(value), seriesLabels[name] ?? name]}
+                />
+                <Area type="monotone" dataKey="marketValue" stroke="#3b82f6" strokeWidth={2} fill="url(#marketValueFill)" />
+                <Line type="stepAfter" dataKey="costBasis" stroke="#9ca3af" strokeWidth={1.5} dot={false} />
+                <Line type="stepAfter" dataKey="netContributions" stroke="#a855f7" strokeWidth={1.5} strokeDasharray="4 4" dot={false} />
+                {benchmark && (
+                  <Line type="monotone" dataKey="benchmarkValue" stroke="#f59e0b" strokeWidth={1.5} dot={false} />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
         </div>
+        {valuation && valuation.missingRates.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-2">
+            No exchange rate for {valuation.missingRates.join(", ")}; those amounts are shown unconverted.
+          </p>
+        )}
       </CardContent>
     </Card>
   );
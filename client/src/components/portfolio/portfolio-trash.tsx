@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { dataSource } from "@/lib/data-source";
+import { useToast } from "@/hooks/use-toast";
+import { portfolioTrashDays, type DeletedPortfolio } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Deleted portfolios, each restorable or purgeable until it is purged for good
+export function PortfolioTrash() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [confirmingPurge, setConfirmingPurge] = useState<DeletedPortfolio | null>(null);
+
+  const { data: deleted = [], isLoading } = useQuery<DeletedPortfolio[]>({
+    queryKey: ["/api/portfolios/trash"],
+    queryFn: () => dataSource.getDeletedPortfolios(),
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update the trash",
+      variant: "destructive",
+    });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (portfolio: DeletedPortfolio) => dataSource.restorePortfolio(portfolio.id),
+    onSuccess: (_, portfolio) => {
+      toast({
+        title: "Success",
+        description: `Restored "${portfolio.name}"`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios/trash"] });
+    },
+    onError,
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (portfolio: DeletedPortfolio) => dataSource.purgePortfolio(portfolio.id),
+    onSuccess: (_, portfolio) => {
+      toast({
+        title: "Success",
+        description: `"${portfolio.name}" deleted permanently`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios/trash"] });
+    },
+    onError,
+  });
+
+  const daysLeft = (portfolio: DeletedPortfolio) =>
+    Math.max(Math.ceil((new Date(portfolio.purgeAt).getTime() - Date.now()) / DAY_MS), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trash</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Deleted portfolios are kept for {portfolioTrashDays} days, with their holdings and transactions, then purged.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : deleted.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">The trash is empty</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {deleted.map((portfolio) => (
+              <div key={portfolio.id} className="flex items-center justify-between py-3">
+                <div>
+                  <div className="font-medium text-foreground">{portfolio.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    Deleted {new Date(portfolio.deletedAt!).toLocaleDateString()}; purged in {daysLeft(portfolio)} days
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={restoreMutation.isPending}
+                    onClick={() => restoreMutation.mutate(portfolio)}
+                  >
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-destructive"
+                    disabled={purgeMutation.isPending}
+                    onClick={() => setConfirmingPurge(portfolio)}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete forever
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!confirmingPurge} onOpenChange={(open) => !open && setConfirmingPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{confirmingPurge?.name}" forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its holdings and transactions are deleted with it. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (confirmingPurge) purgeMutation.mutate(confirmingPurge);
+                setConfirmingPurge(null);
+              }}
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import { useQuery } from "@tanstack/react-query";
+import { Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { fetchPriceHistory } from "@/lib/api";
+import type { PriceHistory } from "@shared/schema";
+
+interface PriceHistoryChartProps {
+  symbol: string;
+  currency: string;
+  from?: string; // YYYY-MM-DD; all stored history when omitted
+  benchmarkSymbol?: string; // overlaid, rebased to the first close charted
+}
+
+export function PriceHistoryChart({ symbol, currency, from, benchmarkSymbol }: PriceHistoryChartProps) {
+  const { data: history = [], isLoading } = useQuery<PriceHistory[]>({
+    queryKey: ["/api/market-data", symbol, "history", from],
+    queryFn: () => fetchPriceHistory(symbol, from),
+    enabled: !!symbol,
+  });
+
+  const { data: benchmarkHistory = [] } = useQuery<PriceHistory[]>({
+    queryKey: ["/api/market-data", benchmarkSymbol, "history", from],
+    queryFn: () => fetchPriceHistory(benchmarkSymbol!, from),
+    enabled: !!benchmarkSymbol,
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: '2-digit'
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-muted-foreground">No price history has been loaded for {symbol}</p>
+      </div>
+    );
+  }
+
+  // The benchmark's latest close on or before each charted day, scaled to start where the holding does
+  let next = 0;
+  let scale: number | undefined;
+  const points = history.map(bar => {
+    while (next < benchmarkHistory.length && benchmarkHistory[next].date <= bar.date) next++;
+    const close = parseFloat(bar.close);
+    const benchmarkClose = next > 0 ? parseFloat(benchmarkHistory[next - 1].close) : undefined;
+    if (scale === undefined && benchmarkClose) scale = close / benchmarkClose;
+    return { date: bar.date, close, benchmark: benchmarkClose && scale ? benchmarkClose * scale : undefined };
+  });
+  const hasBenchmark = !!benchmarkSymbol && benchmarkHistory.length > 0;
+  const seriesLabels: Record<string, string> = { close: symbol, benchmark: `${benchmarkSymbol} (rebased)` };
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={points}>
+        <XAxis dataKey="date" tickFormatter={formatDate} fontSize={12} minTickGap={32} />
+        <YAxis domain={["auto", "auto"]} tickFormatter={(value: number) => formatCurrency(value)} fontSize={12} width={80} />
+        <Tooltip
+          labelFormatter={(label: string) => formatDate(label)}
+          formatter={(value: number, name: string) => [formatCurrency(value), seriesLabels[name] ?? name]}
+        />
+        <Line type="monotone" dataKey="close" stroke="#3b82f6" strokeWidth={2} dot={false} />
+        {hasBenchmark && <Legend formatter={(name: string) => seriesLabels[name] ?? name} />}
+        {hasBenchmark && (
+          <Line type="monotone" dataKey="benchmark" stroke="#f59e0b" strokeWidth={1.5} strokeDasharray="4 4" dot={false} />
+        )}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,142 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { fetchLots } from "@/lib/api";
+import type { LotLedger } from "@shared/schema";
+
+interface TaxLotsCardProps {
+  portfolioId: string;
+  symbol: string;
+  currency: string;
+  ledger?: LotLedger; // already loaded, e.g. with a holding's detail
+}
+
+export function TaxLotsCard({ portfolioId, symbol, currency, ledger: given }: TaxLotsCardProps) {
+  const { data: fetched, isLoading, error } = useQuery<LotLedger>({
+    queryKey: ["/api/portfolios", portfolioId, "lots", symbol],
+    queryFn: () => fetchLots(portfolioId, symbol),
+    enabled: !given && !!portfolioId && !!symbol,
+  });
+  const ledger = given ?? fetched;
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const formatQuantity = (quantity: number) => {
+    return quantity.toLocaleString(undefined, { maximumFractionDigits: 8 });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Tax lots</CardTitle>
+          {ledger && (
+            <div className="flex items-center space-x-2">
+              <Badge variant="outline">{ledger.method}</Badge>
+              <span className={`text-sm font-medium ${ledger.realizedGain >= 0 ? 'text-success' : 'text-danger'}`}>
+                Realized {ledger.realizedGain >= 0 ? '+' : ''}{formatCurrency(ledger.realizedGain)}
+              </span>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : error || !ledger ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">Tax lots are not available for this holding</p>
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <h4 className="text-sm font-medium text-foreground mb-2">Open lots</h4>
+              {ledger.openLots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No open lots</p>
+              ) : (
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-3 px-2 text-sm font-medium text-muted-foreground">ACQUIRED</th>
+                      <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">QUANTITY</th>
+                      <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">COST / SHARE</th>
+                      <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">COST BASIS</th>
+                      <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">HELD (DAYS)</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {ledger.openLots.map((lot) => (
+                      <tr key={lot.id} className="hover:bg-muted/50">
+                        <td className="py-3 px-2 text-sm">{formatDate(lot.openDate)}</td>
+                        <td className="py-3 px-2 text-sm text-right">
+                          {formatQuantity(lot.quantity)}
+                          {lot.quantity !== lot.originalQuantity && (
+                            <span className="text-xs text-muted-foreground"> / {formatQuantity(lot.originalQuantity)}</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-2 text-sm text-right">{formatCurrency(lot.costPerShare)}</td>
+                        <td className="py-3 px-2 text-sm text-right">{formatCurrency(lot.costBasis)}</td>
+                        <td className="py-3 px-2 text-sm text-right">{lot.holdingPeriodDays}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <h4 className="text-sm font-medium text-foreground mb-2">Realized disposals</h4>
+              {ledger.disposals.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No sales yet</p>
+              ) : (
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-3 px-2 text-sm font-medium text-muted-foreground">ACQUIRED</th>
+                      <th className="text-left py-3 px-2 text-sm font-medium text-muted-foreground">SOLD</th>
+                      <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">QUANTITY</th>
+                      <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">COST BASIS</th>
+                      <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">PROCEEDS</th>
+                      <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">GAIN/LOSS</th>
+                      <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">HELD (DAYS)</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {ledger.disposals.map((disposal) => (
+                      <tr key={`${disposal.transactionId}-${disposal.lotId}`} className="hover:bg-muted/50">
+                        <td className="py-3 px-2 text-sm">{formatDate(disposal.openDate)}</td>
+                        <td className="py-3 px-2 text-sm">{formatDate(disposal.closeDate)}</td>
+                        <td className="py-3 px-2 text-sm text-right">{formatQuantity(disposal.quantity)}</td>
+                        <td className="py-3 px-2 text-sm text-right">{formatCurrency(disposal.costBasis)}</td>
+                        <td className="py-3 px-2 text-sm text-right">{formatCurrency(disposal.proceeds)}</td>
+                        <td className={`py-3 px-2 text-sm text-right font-medium ${disposal.realizedGain >= 0 ? 'text-success' : 'text-danger'}`}>
+                          {disposal.realizedGain >= 0 ? '+' : ''}{formatCurrency(disposal.realizedGain)}
+                        </td>
+                        <td className="py-3 px-2 text-sm text-right">{disposal.holdingPeriodDays}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
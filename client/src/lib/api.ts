@@ -1,4 +1,5 @@
 import { apiRequest } from "./queryClient";
+import type { ExportFormat, ImportRequest, InsertBenchmark, InsertImportTemplate, TransactionFilter } from "@shared/schema";
 
 // Export apiRequest for use in other components
 export { apiRequest };
@@ -13,11 +14,143 @@ export async function fetchCurrencyRate(from: string, to: string) {
   return response.json();
 }
 
+export async function fetchPriceHistory(symbol: string, from?: string, to?: string) {
+  const params = new URLSearchParams();
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  const query = params.toString() ? `?${params}` : "";
+  const response = await apiRequest("GET", `/api/market-data/${encodeURIComponent(symbol)}/history${query}`, undefined);
+  return response.json();
+}
+
+export async function backfillPriceHistory(symbols: string[], from?: string) {
+  const response = await apiRequest("POST", "/api/market-data/backfill", { symbols, from });
+  return response.json();
+}
+
 export async function updatePortfolioPrices(portfolioId: string) {
   const response = await apiRequest("POST", `/api/portfolios/${portfolioId}/update-prices`, undefined);
   return response.json();
 }
 
+export async function fetchTransactionPage(portfolioId: string, filter: TransactionFilter, page: number, size: number) {
+  const params = new URLSearchParams({ page: String(page), size: String(size) });
+  for (const [key, value] of Object.entries(filter)) {
+    if (value) params.set(key, value);
+  }
+  const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/transactions?${params}`, undefined);
+  return response.json();
+}
+
+export async function updateTransaction(portfolioId: string, id: string, changes: Record<string, unknown>) {
+  const response = await apiRequest("PATCH", `/api/portfolios/${portfolioId}/transactions/${id}`, changes);
+  return response.json();
+}
+
+export async function deleteTransactions(portfolioId: string, ids: string[]) {
+  const response = await apiRequest("POST", `/api/portfolios/${portfolioId}/transactions/delete`, { ids });
+  return response.json();
+}
+
+export async function importTransactions(portfolioId: string, request: ImportRequest) {
+  const response = await apiRequest("POST", `/api/portfolios/${portfolioId}/import`, request);
+  return response.json();
+}
+
+export async function fetchImportTemplates() {
+  const response = await apiRequest("GET", "/api/import-templates", undefined);
+  return response.json();
+}
+
+export async function saveImportTemplate(template: InsertImportTemplate) {
+  const response = await apiRequest("POST", "/api/import-templates", template);
+  return response.json();
+}
+
+export async function deleteImportTemplate(id: string) {
+  const response = await apiRequest("DELETE", `/api/import-templates/${id}`, undefined);
+  return response.json();
+}
+
+export async function fetchLots(portfolioId: string, symbol?: string) {
+  const query = symbol ? `?symbol=${encodeURIComponent(symbol)}` : "";
+  const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/lots${query}`, undefined);
+  return response.json();
+}
+
+export async function fetchPerformance(portfolioId: string, method?: string) {
+  const query = method ? `?method=${encodeURIComponent(method)}` : "";
+  const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/performance${query}`, undefined);
+  return response.json();
+}
+
+export async function fetchValuation(portfolioId: string, range: string, interval: string, benchmarkId?: string) {
+  const benchmark = benchmarkId ? `&benchmark=${encodeURIComponent(benchmarkId)}` : "";
+  const query = `?range=${encodeURIComponent(range)}&interval=${encodeURIComponent(interval)}${benchmark}`;
+  const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/valuation${query}`, undefined);
+  return response.json();
+}
+
+export async function fetchBenchmarks(portfolioId: string) {
+  const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/benchmarks`, undefined);
+  return response.json();
+}
+
+export async function addBenchmark(portfolioId: string, benchmark: InsertBenchmark) {
+  const response = await apiRequest("POST", `/api/portfolios/${portfolioId}/benchmarks`, benchmark);
+  return response.json();
+}
+
+export async function deleteBenchmark(portfolioId: string, id: string) {
+  const response = await apiRequest("DELETE", `/api/portfolios/${portfolioId}/benchmarks/${id}`, undefined);
+  return response.json();
+}
+
+export async function fetchBenchmarkComparison(portfolioId: string, id: string, method?: string) {
+  const query = method ? `?method=${encodeURIComponent(method)}` : "";
+  const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/benchmarks/${id}/comparison${query}`, undefined);
+  return response.json();
+}
+
+export async function fetchIncome(portfolioId: string) {
+  const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/income`, undefined);
+  return response.json();
+}
+
+export async function fetchTaxReport(portfolioId: string, year?: number) {
+  const query = year ? `?year=${year}` : "";
+  const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/tax-report${query}`, undefined);
+  return response.json();
+}
+
+// Save a download response as a file, named as the server suggests
+async function saveAttachment(response: Response, fallbackName: string) {
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const fileName = disposition.match(/filename="?([^";]+)"?/)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function downloadTaxReport(portfolioId: string, year: number, format: "csv" | "pdf") {
+  const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/tax-report?year=${year}&format=${format}`, undefined);
+  await saveAttachment(response, `tax-report-${year}.${format}`);
+}
+
+export async function downloadPortfolioExport(portfolioId: string, format: ExportFormat) {
+  const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/export?format=${format}`, undefined);
+  await saveAttachment(response, `portfolio.${format}`);
+}
+
+// Recreate a portfolio from a JSON export, as a new portfolio
+export async function restorePortfolio(backup: unknown) {
+  const response = await apiRequest("POST", "/api/portfolios/restore", backup);
+  return response.json();
+}
+
 export async function convertCurrency(amount: number, from: string, to: string) {
   const rate = await fetchCurrencyRate(from, to);
   return amount * parseFloat(rate.rate);
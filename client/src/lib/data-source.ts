@@ -0,0 +1,273 @@
+import { apiRequest, updatePortfolioPrices } from "./api";
+import { serverApi, type ClientTradeRequest } from "./server-api";
+import type {
+  DeletedPortfolio,
+  HoldingDetail,
+  HoldingTrade,
+  HoldingWithMetrics,
+  InsertPortfolio,
+  InsertTransaction,
+  Portfolio,
+  PortfolioWithMetrics,
+  PriceRefreshReport,
+  Transaction,
+  TransactionType,
+} from "@shared/schema";
+
+export type DataSourceMode = "express" | "java";
+
+// What the holding editor can change
+export type HoldingChanges = {
+  symbol: string;
+  companyName: string;
+  exchange: string;
+  currency: string;
+  quantity: number;
+  averageCost: number;
+};
+
+/**
+ * Where the client reads and writes portfolios, holdings and transactions.
+ * Pages and modals go through this rather than a particular backend, so that
+ * what one of them records is what the others list.
+ */
+export interface PortfolioDataSource {
+  readonly mode: DataSourceMode;
+  getPortfoliosWithMetrics(): Promise<PortfolioWithMetrics[]>;
+  createPortfolio(portfolio: InsertPortfolio): Promise<void>;
+  updatePortfolio(portfolioId: string, portfolio: InsertPortfolio): Promise<void>;
+  // Deleting moves a portfolio to the trash, where it can be restored or purged
+  deletePortfolio(portfolioId: string): Promise<void>;
+  getDeletedPortfolios(): Promise<DeletedPortfolio[]>;
+  restorePortfolio(portfolioId: string): Promise<void>;
+  purgePortfolio(portfolioId: string): Promise<void>;
+  getHoldingsWithMetrics(portfolioId: string): Promise<HoldingWithMetrics[]>;
+  getHolding(holdingId: string): Promise<HoldingDetail>;
+  updateHolding(holding: HoldingWithMetrics, changes: HoldingChanges): Promise<void>;
+  getTransactions(portfolioId: string): Promise<Transaction[]>;
+  getRecentTransactions(portfolioId: string, limit: number): Promise<Transaction[]>;
+  getHoldingTransactions(holding: HoldingWithMetrics): Promise<HoldingTrade[]>;
+  createTransaction(transaction: InsertTransaction): Promise<void>;
+  updatePrices(portfolioId: string): Promise<PriceRefreshReport>;
+}
+
+const unsupported = (mode: DataSourceMode, what: string) =>
+  new Error(`${what} is not available with the ${mode} data source`);
+
+/**
+ * The Express server in this repo, which keeps the lot ledger and derives
+ * holdings from it
+ */
+export class ExpressDataSource implements PortfolioDataSource {
+  readonly mode = "express";
+
+  async getPortfoliosWithMetrics(): Promise<PortfolioWithMetrics[]> {
+    const response = await apiRequest("GET", "/api/portfolios", undefined);
+    const portfolios: Portfolio[] = await response.json();
+    return Promise.all(portfolios.map(async (portfolio) => {
+      const response = await apiRequest("GET", `/api/portfolios/${portfolio.id}`, undefined);
+      return response.json();
+    }));
+  }
+
+  async createPortfolio(portfolio: InsertPortfolio): Promise<void> {
+    await apiRequest("POST", "/api/portfolios", portfolio);
+  }
+
+  async updatePortfolio(portfolioId: string, portfolio: InsertPortfolio): Promise<void> {
+    await apiRequest("PUT", `/api/portfolios/${portfolioId}`, portfolio);
+  }
+
+  async deletePortfolio(portfolioId: string): Promise<void> {
+    await apiRequest("DELETE", `/api/portfolios/${portfolioId}`, undefined);
+  }
+
+  async getDeletedPortfolios(): Promise<DeletedPortfolio[]> {
+    const response = await apiRequest("GET", "/api/portfolios/trash", undefined);
+    return response.json();
+  }
+
+  async restorePortfolio(portfolioId: string): Promise<void> {
+    await apiRequest("POST", `/api/portfolios/trash/${portfolioId}/restore`, undefined);
+  }
+
+  async purgePortfolio(portfolioId: string): Promise<void> {
+    await apiRequest("DELETE", `/api/portfolios/trash/${portfolioId}`, undefined);
+  }
+
+  async getHoldingsWithMetrics(portfolioId: string): Promise<HoldingWithMetrics[]> {
+    const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/holdings`, undefined);
+    return response.json();
+  }
+
+  async getHolding(holdingId: string): Promise<HoldingDetail> {
+    const response = await apiRequest("GET", `/api/holdings/${holdingId}`, undefined);
+    return response.json();
+  }
+
+  async updateHolding(holding: HoldingWithMetrics, changes: HoldingChanges): Promise<void> {
+    await apiRequest("PUT", `/api/holdings/${holding.id}`, changes);
+  }
+
+  async getTransactions(portfolioId: string): Promise<Transaction[]> {
+    const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/transactions`, undefined);
+    return response.json();
+  }
+
+  async getRecentTransactions(portfolioId: string, limit: number): Promise<Transaction[]> {
+    const response = await apiRequest("GET", `/api/portfolios/${portfolioId}/transactions?limit=${limit}`, undefined);
+    return response.json();
+  }
+
+  async getHoldingTransactions(holding: HoldingWithMetrics): Promise<HoldingTrade[]> {
+    const transactions = await this.getTransactions(holding.portfolioId);
+    return transactions
+      .filter(t => t.symbol === holding.symbol && t.exchange === holding.exchange)
+      .map(t => ({ ...t, fxRate: null }));
+  }
+
+  async createTransaction(transaction: InsertTransaction): Promise<void> {
+    await apiRequest("POST", `/api/portfolios/${transaction.portfolioId}/transactions`, transaction);
+  }
+
+  updatePrices(portfolioId: string): Promise<PriceRefreshReport> {
+    return updatePortfolioPrices(portfolioId);
+  }
+}
+
+// Trade types the Java service records, by transaction type; it has no dividends
+const javaTradeTypes: Partial<Record<TransactionType, ClientTradeRequest["tradeType"]>> = {
+  buy: "BUY",
+  sell: "SELL",
+  split: "SPLIT",
+  bonus: "BONUS",
+  consolidate: "CONSOLIDATE",
+  demerger: "DEMERGER",
+  roc: "ROC",
+  cancellation: "CANCELLATION",
+};
+
+/**
+ * The Java portfolio service, which keys instruments by instrument key and
+ * values holdings itself
+ */
+export class JavaDataSource implements PortfolioDataSource {
+  readonly mode = "java";
+
+  getPortfoliosWithMetrics(): Promise<PortfolioWithMetrics[]> {
+    return serverApi.getPortfoliosWithMetrics();
+  }
+
+  createPortfolio(portfolio: InsertPortfolio): Promise<void> {
+    return serverApi.createPortfolio({
+      name: portfolio.name,
+      description: portfolio.description || undefined,
+      baseCurrency: portfolio.baseCurrency || "USD",
+      taxResidency: portfolio.taxResidency || "US",
+      financialYearEnd: portfolio.financialYearEnd || "31st Mar",
+      performanceCalculationMethod: portfolio.performanceCalculationMethod,
+      lotReliefMethod: portfolio.lotReliefMethod,
+      externalIdentifier: portfolio.externalIdentifier || undefined,
+    });
+  }
+
+  updatePortfolio(portfolioId: string, portfolio: InsertPortfolio): Promise<void> {
+    // The service keeps no performance method, relief method or external identifier
+    return serverApi.updatePortfolio(portfolioId, {
+      name: portfolio.name,
+      description: portfolio.description || undefined,
+      baseCurrency: portfolio.baseCurrency || undefined,
+      taxResidency: portfolio.taxResidency || undefined,
+      financialYearEnd: portfolio.financialYearEnd || undefined,
+    });
+  }
+
+  deletePortfolio(portfolioId: string): Promise<void> {
+    return serverApi.deletePortfolio(portfolioId);
+  }
+
+  // The service deletes portfolios outright, so its trash is always empty
+  async getDeletedPortfolios(): Promise<DeletedPortfolio[]> {
+    return [];
+  }
+
+  async restorePortfolio(): Promise<void> {
+    throw unsupported(this.mode, "Restoring a deleted portfolio");
+  }
+
+  async purgePortfolio(): Promise<void> {
+    throw unsupported(this.mode, "Purging a deleted portfolio");
+  }
+
+  getHoldingsWithMetrics(portfolioId: string): Promise<HoldingWithMetrics[]> {
+    return serverApi.getHoldingsWithMetrics(portfolioId);
+  }
+
+  getHolding(holdingId: string): Promise<HoldingDetail> {
+    return serverApi.getHolding(holdingId);
+  }
+
+  async updateHolding(): Promise<void> {
+    throw unsupported(this.mode, "Editing a holding");
+  }
+
+  getTransactions(portfolioId: string): Promise<Transaction[]> {
+    return serverApi.getRecentTransactions(portfolioId, Number.POSITIVE_INFINITY);
+  }
+
+  getRecentTransactions(portfolioId: string, limit: number): Promise<Transaction[]> {
+    return serverApi.getRecentTransactions(portfolioId, limit);
+  }
+
+  async getHoldingTransactions(holding: HoldingWithMetrics): Promise<HoldingTrade[]> {
+    if (!holding.instrumentKey) return [];
+    return serverApi.getHoldingTrades(holding.portfolioId, holding.instrumentKey);
+  }
+
+  async createTransaction(transaction: InsertTransaction): Promise<void> {
+    const tradeType = javaTradeTypes[transaction.type as TransactionType];
+    if (!tradeType) {
+      throw unsupported(this.mode, `Recording a ${transaction.type}`);
+    }
+    // The service keys trades by instrument, so the symbol has to resolve to one
+    const instruments = await serverApi.searchInstruments(transaction.symbol);
+    const instrument = instruments.find(i => i.symbol === transaction.symbol && i.exchange === transaction.exchange) ??
+      instruments.find(i => i.symbol === transaction.symbol);
+    if (!instrument) {
+      throw new Error(`No instrument found for ${transaction.symbol} on ${transaction.exchange}`);
+    }
+    await serverApi.createTrade({
+      portfolioId: transaction.portfolioId,
+      instrumentKey: instrument.instrumentKey,
+      symbol: transaction.symbol,
+      exchange: transaction.exchange,
+      quantity: transaction.quantity,
+      price: transaction.price,
+      currency: transaction.currency,
+      tradeDate: transaction.date,
+      fees: transaction.fees ?? "0",
+      feesCurrency: transaction.currency,
+      splitRatio: transaction.splitRatio ?? undefined,
+      instrumentType: (transaction.instrumentType as ClientTradeRequest["instrumentType"] | undefined) ?? "STK",
+      tradeType,
+    });
+  }
+
+  async updatePrices(portfolioId: string): Promise<PriceRefreshReport> {
+    // The service prices holdings as it lists them, so there is nothing to refresh
+    return { portfolioId, refreshedAt: new Date(), updated: 0, stale: 0, failed: 0, results: [] };
+  }
+}
+
+/**
+ * The backend chosen by VITE_DATA_SOURCE at build time, "express" unless set
+ * to "java"
+ */
+export function createDataSource(mode: string | undefined = import.meta.env.VITE_DATA_SOURCE): PortfolioDataSource {
+  return mode === "java" ? new JavaDataSource() : new ExpressDataSource();
+}
+
+export const dataSource = createDataSource();
+
+// This server's own store, which the features only it has (income, tax reports, ...) read whatever the data source
+export const expressDataSource = dataSource instanceof ExpressDataSource ? dataSource : new ExpressDataSource();
@@ -0,0 +1,184 @@
+// Generated by scripts/generate-api-types.ts from api-swagger.json and
+// scripts/api-required-fields.ts; do not edit.
+// Run `npm run generate:api` after either file changes.
+
+import { z } from "zod";
+
+export const getInstrumentResponseSchema = z.object({
+  isin: z.string().nullish(),
+  nm: z.string().nullish(),
+  symbl: z.string().nullish(),
+  sgmnt: z.string().nullish(),
+  typ: z.string().nullish(),
+  ccy: z.string().nullish(),
+  exchg: z.string().nullish(),
+  cmp: z.number().nullish(),
+  h52w: z.number().nullish(),
+  l52w: z.number().nullish(),
+  delVol: z.number().nullish(),
+  txC: z.number().int().nullish(),
+  trDt: z.string().nullish(),
+  pdelVol: z.number().nullish(),
+  lhigh: z.number().nullish(),
+  llow: z.number().nullish(),
+  pcls: z.number().nullish(),
+  tval: z.number().nullish(),
+});
+export type GetInstrumentResponse = z.infer<typeof getInstrumentResponseSchema>;
+
+export const getTokenRequestSchema = z.object({
+  code: z.string().nullish(),
+  redirectUri: z.string().nullish(),
+});
+export type GetTokenRequest = z.infer<typeof getTokenRequestSchema>;
+
+export const getTokenResponseSchema = z.object({
+  idToken: z.string().nullish(),
+  refreshToken: z.string().nullish(),
+  expirySec: z.number().int().nullish(),
+});
+export type GetTokenResponse = z.infer<typeof getTokenResponseSchema>;
+
+export const instrumentMasterEntitySchema = z.object({
+  isin: z.string().nullish(),
+  ik: z.string(),
+  nm: z.string(),
+  symbl: z.string(),
+  sgmnt: z.string().nullish(),
+  typ: z.string().nullish(),
+  ccy: z.string().nullish(),
+  ctry: z.string().nullish(),
+  exchg: z.string().nullish(),
+});
+export type InstrumentMasterEntity = z.infer<typeof instrumentMasterEntitySchema>;
+
+export const instrumentTransactionalEntitySchema = z.object({
+  ik: z.string().nullish(),
+  cmp: z.number().nullish(),
+  h52w: z.number().nullish(),
+  l52w: z.number().nullish(),
+  delVol: z.number().nullish(),
+  txC: z.number().int().nullish(),
+  trDt: z.string().nullish(),
+  pdelVol: z.number().nullish(),
+  lhigh: z.number().nullish(),
+  llow: z.number().nullish(),
+  pcls: z.number().nullish(),
+  tval: z.number().nullish(),
+});
+export type InstrumentTransactionalEntity = z.infer<typeof instrumentTransactionalEntitySchema>;
+
+export const holdingDetailsResponseSchema = z.object({
+  crdDt: z.string().nullish(),
+  crtBy: z.string().nullish(),
+  pid: z.string(), // Portfolio ID
+  hid: z.string(),
+  ik: z.string(), // ISIN code
+  symbol: z.string(),
+  cmpNm: z.string().nullish(),
+  ccy: z.string(),
+  exchange: z.string(),
+  typ: z.enum(["STK", "MF", "FIXED", "OTH"]).nullish(),
+  feeCcy: z.string().nullish(),
+  fee: z.number().nullish(),
+  qty: z.number(),
+  avgBuyPrice: z.number(),
+  costBase: z.number(),
+  currentVal: z.number(),
+  rg: z.number().nullish(),
+  ug: z.number(),
+  instrumentMaster: instrumentMasterEntitySchema.nullish(),
+  instrumentTxnl: instrumentTransactionalEntitySchema.nullish(),
+});
+export type HoldingDetailsResponse = z.infer<typeof holdingDetailsResponseSchema>;
+
+export const tradeEntitySchema = z.object({
+  txId: z.string(),
+  pid: z.string(), // Portfolio ID
+  ik: z.string().nullish(),
+  symbol: z.string(),
+  exchange: z.string(),
+  qty: z.number(),
+  tradePrice: z.number(),
+  ccy: z.string(),
+  fee: z.number().nullish(),
+  feeCcy: z.string().nullish(),
+  typ: z.enum(["STK", "MF", "FIXED", "OTH"]).nullish(),
+  trdTyp: z.string().nullish(),
+  trdDt: z.string(),
+  createdDate: z.string().nullish(),
+  createdBy: z.string().nullish(),
+  trdTypEnum: z.enum(["BUY", "SELL", "SPLIT", "BONUS", "OPEN_BAL", "CONSOLIDATE", "CANCELLATION", "DEMERGER", "ROC"]),
+});
+export type TradeEntity = z.infer<typeof tradeEntitySchema>;
+
+export const sortObjectSchema = z.object({
+  empty: z.boolean().nullish(),
+  unsorted: z.boolean().nullish(),
+  sorted: z.boolean().nullish(),
+});
+export type SortObject = z.infer<typeof sortObjectSchema>;
+
+export const pageableObjectSchema = z.object({
+  offset: z.number().int().nullish(),
+  sort: sortObjectSchema.nullish(),
+  paged: z.boolean().nullish(),
+  unpaged: z.boolean().nullish(),
+  pageNumber: z.number().int().nullish(),
+  pageSize: z.number().int().nullish(),
+});
+export type PageableObject = z.infer<typeof pageableObjectSchema>;
+
+export const pageTradeEntitySchema = z.object({
+  totalPages: z.number().int().nullish(),
+  totalElements: z.number().int().nullish(),
+  size: z.number().int().nullish(),
+  content: z.array(tradeEntitySchema).nullish(),
+  number: z.number().int().nullish(),
+  sort: sortObjectSchema.nullish(),
+  pageable: pageableObjectSchema.nullish(),
+  numberOfElements: z.number().int().nullish(),
+  first: z.boolean().nullish(),
+  last: z.boolean().nullish(),
+  empty: z.boolean().nullish(),
+});
+export type PageTradeEntity = z.infer<typeof pageTradeEntitySchema>;
+
+export const portfolioCreateRequestSchema = z.object({
+  ccy: z.string().nullish(),
+  nm: z.string().nullish(),
+  desc: z.string().nullish(),
+  taxRes: z.string().nullish(),
+  finYr: z.string().nullish(),
+});
+export type PortfolioCreateRequest = z.infer<typeof portfolioCreateRequestSchema>;
+
+export const portfolioEntitySchema = z.object({
+  crdDt: z.string().nullish(),
+  crtBy: z.string().nullish(),
+  pid: z.string(), // Portfolio ID
+  ccy: z.string().nullish(), // Base Currency
+  nm: z.string(),
+  desc: z.string().nullish(),
+  taxRes: z.string().nullish(),
+  finYr: z.string().nullish(),
+});
+export type PortfolioEntity = z.infer<typeof portfolioEntitySchema>;
+
+export const tradeRequestSchema = z.object({
+  pid: z.string().nullish(), // Portfolio ID
+  ik: z.string().nullish(),
+  symbol: z.string().nullish(),
+  exchange: z.string().nullish(), // name of exchange
+  qty: z.string().nullish(),
+  tradePrice: z.string().nullish(),
+  ccy: z.string().nullish(),
+  trdDt: z.string().nullish(),
+  fee: z.string().nullish(),
+  feeCcy: z.string().nullish(),
+  splitRatio: z.string().nullish(),
+  instrumentType: z.enum(["STK", "MF", "FIXED", "OTH"]).nullish(),
+  trdTyp: z.enum(["BUY", "SELL", "SPLIT", "BONUS", "OPEN_BAL", "CONSOLIDATE", "CANCELLATION", "DEMERGER", "ROC"]).nullish(),
+  openingBalCostBase: z.string().nullish(),
+});
+export type TradeRequest = z.infer<typeof tradeRequestSchema>;
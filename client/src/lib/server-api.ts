@@ -1,9 +1,30 @@
-import type { PortfolioWithMetrics } from "@shared/schema";
-
-// Server API configuration
-const SERVER_BASE_URL = "http://localhost:8080/portfolio-mgr";
-
-//"https://sanguine-portfolio-mgr-java-svc.onrender.com/portfolio-mgr";
+import { z } from "zod";
+import {
+  holdingRecentTransactionCount,
+  type HoldingDetail,
+  type HoldingTrade,
+  type HoldingWithMetrics,
+  type PortfolioWithMetrics,
+  type Transaction,
+} from "@shared/schema";
+import {
+  getInstrumentResponseSchema,
+  holdingDetailsResponseSchema,
+  instrumentMasterEntitySchema,
+  portfolioEntitySchema,
+  tradeEntitySchema,
+  type GetInstrumentResponse,
+  type HoldingDetailsResponse,
+  type InstrumentMasterEntity,
+  type PortfolioCreateRequest,
+  type PortfolioEntity,
+  type TradeEntity,
+  type TradeRequest,
+} from "./generated/java-api";
+
+// The Java service is reached through this app's gateway, which adds the
+// user's token, so the browser never talks to it directly
+const SERVER_BASE_URL = "/api/v2";
 
 // Client-facing interfaces for API interactions
 export interface ClientPortfolioCreateRequest {
@@ -13,6 +34,7 @@ export interface ClientPortfolioCreateRequest {
   taxResidency: string;
   financialYearEnd: string;
   performanceCalculationMethod?: string;
+  lotReliefMethod?: string;
   externalIdentifier?: string;
 }
 
@@ -45,154 +67,44 @@ export interface ClientInstrumentSearchResult {
   exchange: string;
 }
 
-// Server response types based on actual API response format
-interface ServerPortfolioEntity {
-  crdDt: string;
-  crtBy: string;
-  pid: string;
-  ccy: string;
-  nm: string;
-  desc?: string;
-  taxRes: string;
-  finYr: string;
-}
-
-// Wrapper interface for API responses that include data, status, pagination
-interface ServerApiResponse<T> {
-  data: T;
-  status: string;
-  pagination: any;
-}
-
-interface ServerHoldingDetailsResponse {
-  crdDt: string;
-  crtBy: string;
-  pid: string;
-  hid: string;
-  ik: string;
-  symbol: string;
-  cmpNm: string | null;
-  ccy: string;
-  exchange: string;
-  typ: "STK" | "MF" | "FIXED" | "OTH";
-  feeCcy: string;
-  fee: number;
-  qty: number;
-  avgBuyPrice: number;
-  costBase: number;
-  costBasePortfolioCcy: number;
-  currentVal: number;
-  rg: number;
-  ug: number;
-  instrumentMaster: ServerInstrumentMasterEntity | null;
-  instrumentTxnl: ServerInstrumentTransactionalEntity | null;
-}
-
-interface ServerTradeEntity {
-  txId: string;
-  pid: string;
-  ik: string;
-  symbol: string;
-  exchange: string;
-  qty: number;
-  tradePrice: number;
-  ccy: string;
-  fee: number;
-  feeCcy: string;
-  fx?: string;
-  fxBaseCcy?: string;
-  typ: "STK" | "MF" | "FIXED" | "OTH";
-  trdTyp: string;
-  trdDt: string;
-  createdDate: string;
-  createdBy: string;
-  trdTypEnum: "BUY" | "SELL" | "SPLIT" | "BONUS" | "OPEN_BAL" | "CONSOLIDATE" | "CANCELLATION" | "DEMERGER" | "ROC";
-}
-
-interface ServerInstrumentMasterEntity {
+// A mutual fund holding and the trades recorded against it, which the CAS
+// import compares before and after an upload
+export interface ClientMfPosition {
   isin: string;
-  ik: string;
-  nm: string;
-  symbl: string;
-  sgmnt: string;
-  typ: string;
-  ccy: string;
-  ctry: string;
-  exchg: string;
+  name: string;
+  units: number;
+  trades: { id: string; type: TradeEntity["trdTypEnum"]; units: number }[];
 }
 
-interface ServerInstrumentTransactionalEntity {
-  ik: string;
-  cmp: number;
-  h52w: number;
-  l52w: number;
-  delVol: number;
-  txC: number;
-  trDt: string;
-  pdelVol: number;
-  lhigh: number;
-  llow: number;
-  pcls: number;
-  tval: number;
+/**
+ * A response that no longer matches the service's contract
+ */
+export class ServerContractError extends Error {
+  constructor(readonly endpoint: string, readonly issues: z.ZodIssue[]) {
+    super(`${endpoint} answered data that doesn't match api-swagger.json: ${issues
+      .slice(0, 3)
+      .map(issue => `${issue.path.join(".") || "(response)"}: ${issue.message}`)
+      .join("; ")}`);
+    this.name = "ServerContractError";
+  }
 }
 
-interface ServerGetInstrumentResponse {
-  isin: string;
-  nm: string;
-  symbl: string;
-  sgmnt: string;
-  typ: string;
-  ccy: string;
-  exchg: string;
-  cmp: number;
-  h52w: number;
-  l52w: number;
-  delVol: number;
-  txC: number;
-  trDt: string;
-  pdelVol: number;
-  lhigh: number;
-  llow: number;
-  pcls: number;
-  tval: number;
-}
+// The service wraps responses in { data, status, pagination }, which the swagger file leaves out
+const apiResponse = <T extends z.ZodTypeAny>(data: T) => z.object({
+  data,
+  status: z.string().nullish(),
+  pagination: z.unknown(),
+});
 
-interface ServerPageTradeEntity {
-  totalPages: number;
-  totalElements: number;
-  size: number;
-  content: ServerTradeEntity[];
-  number: number;
-  first: boolean;
-  last: boolean;
-  empty: boolean;
-}
+// Writes answer no body in the contract; whatever the service does send must still be its envelope
+const writeResponseSchema = apiResponse(z.unknown()).optional();
 
-// Server request types (exact match to swagger)
-interface ServerPortfolioCreateRequest {
-  ccy: string;
-  nm: string;
-  desc?: string;
-  taxRes: string;
-  finYr: string;
-}
-
-interface ServerTradeRequest {
-  pid: string;
-  ik: string;
-  symbol: string;
-  exchange: string;
-  qty: string;
-  tradePrice: string;
-  ccy: string;
-  trdDt: string;
-  fee: string;
-  feeCcy: string;
-  splitRatio?: string;
-  instrumentType: "STK" | "MF" | "FIXED" | "OTH";
-  trdTyp: "BUY" | "SELL" | "SPLIT" | "BONUS" | "OPEN_BAL" | "CONSOLIDATE" | "CANCELLATION" | "DEMERGER" | "ROC";
-  openingBalCostBase?: string;
-}
+const serverTradeSchema = tradeEntitySchema.extend({
+  // Sent by the service but missing from the swagger file
+  fx: z.union([z.number(), z.string()]).nullish(),
+  fxBaseCcy: z.string().nullish(),
+});
+type ServerTrade = z.infer<typeof serverTradeSchema>;
 
 /**
  * Java Server API Service
@@ -206,30 +118,33 @@ export class ServerApiService {
   }
 
   /**
-   * Generate required headers for server API calls
+   * Throw the gateway's error for a failed request, sending the user to sign
+   * in again when the service no longer accepts their token
    */
-  private getHeaders(): Record<string, string> {
-    return {
-      'Content-Type': 'application/json',
-      'api-interaction-id': crypto.randomUUID(),
-      'x-session-id': crypto.randomUUID(),
-      'Authorization':"Bearer sanguine_token",
-      'lang': 'en'
-    };
+  private async throwIfNotOk(response: Response, what: string): Promise<void> {
+    if (response.ok) return;
+    if (response.status === 401) {
+      window.location.href = "/login";
+    }
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message
+      ? `${body.message} (ref ${body.correlationId})`
+      : `${what} failed: ${response.status} ${response.statusText}`);
   }
 
   /**
    * Make a request to the server API
    */
-  private async makeRequest<T>(
+  private async makeRequest(
     endpoint: string, 
     method: string = 'GET', 
-    body?: any
-  ): Promise<T> {
+    body?: unknown
+  ): Promise<Response> {
     const url = `${this.baseUrl}${endpoint}`;
     const options: RequestInit = {
       method,
-      headers: this.getHeaders(),
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
     };
 
     if (body && (method === 'POST' || method === 'PUT')) {
@@ -238,17 +153,45 @@ export class ServerApiService {
 
     const response = await fetch(url, options);
 
-    if (!response.ok) {
-      throw new Error(`Server API request failed: ${response.status} ${response.statusText}`);
-    }
+    await this.throwIfNotOk(response, 'Server API request');
 
-    return response.json();
+    return response;
+  }
+
+  /**
+   * Make a request and check its response against the contract, failing
+   * loudly on drift rather than passing on missing or mistyped fields
+   */
+  private async fetchValidated<S extends z.ZodTypeAny>(
+    schema: S,
+    endpoint: string,
+    method: string = 'GET',
+    body?: unknown
+  ): Promise<z.output<S>> {
+    const response = await this.makeRequest(endpoint, method, body);
+    const text = await response.text();
+    let json: unknown;
+    try {
+      json = text ? JSON.parse(text) : undefined;
+    } catch {
+      throw new ServerContractError(`${method} ${endpoint.split('?')[0]}`, [
+        { code: z.ZodIssueCode.custom, path: [], message: "Expected a JSON body" },
+      ]);
+    }
+    const result = schema.safeParse(json);
+    if (!result.success) {
+      const error = new ServerContractError(`${method} ${endpoint.split('?')[0]}`, result.error.issues);
+      console.error(error.message, result.error.issues);
+      throw error;
+    }
+    return result.data;
   }
 
   /**
    * Convert UTC date string to local timezone Date object
    */
-  private convertUtcToLocal(utcDateString: string): Date {
+  private convertUtcToLocal(utcDateString: string | null | undefined): Date | null {
+    if (!utcDateString) return null;
     const utcDate = new Date(utcDateString);
     // The Date constructor already handles UTC conversion to local time
     // when given an ISO string with timezone info
@@ -258,23 +201,30 @@ export class ServerApiService {
   /**
    * Transform server portfolio response to client format
    */
-  private transformPortfolio(serverPortfolio: ServerPortfolioEntity): PortfolioWithMetrics {
+  private transformPortfolio(serverPortfolio: PortfolioEntity): PortfolioWithMetrics {
     return {
       id: serverPortfolio.pid,
+      userId: serverPortfolio.crtBy ?? "",
       name: serverPortfolio.nm,
       description: serverPortfolio.desc || null,
       externalIdentifier: null,
       taxResidency: serverPortfolio.taxRes || "US",
       financialYearEnd: serverPortfolio.finYr || "31st Mar",
       performanceCalculationMethod: "Simple",
+      lotReliefMethod: "FIFO",
       baseCurrency: serverPortfolio.ccy || "USD",
       createdAt: this.convertUtcToLocal(serverPortfolio.crdDt),
+      deletedAt: null, // the service deletes portfolios outright
       // Default metrics - would need additional server calls to calculate
       totalValue: 0,
+      totalCost: 0,
       totalGain: 0,
       totalGainPercent: 0,
+      priceGain: 0,
+      currencyGain: 0,
       dividendYield: 0,
       holdingsCount: 0,
+      missingRates: [],
     };
   }
 
@@ -282,15 +232,30 @@ export class ServerApiService {
    * Get all portfolios from server
    */
   async getPortfolios(): Promise<PortfolioWithMetrics[]> {
-    const response = await this.makeRequest<ServerApiResponse<ServerPortfolioEntity[]>>('/api/portfolios');
+    const response = await this.fetchValidated(apiResponse(z.array(portfolioEntitySchema)), '/portfolios');
     return response.data.map(portfolio => this.transformPortfolio(portfolio));
   }
 
-    /**
+  /**
    * Get trades for a portfolio
    */
-  async getTrades(portfolioId: string, instrumentKey: string): Promise<ServerApiResponse<ServerTradeEntity[]>> {
-    return this.makeRequest<ServerApiResponse<ServerTradeEntity[]>>(`/api/trades?portfolioId=${portfolioId}&ik=${instrumentKey}`);
+  async getTrades(portfolioId: string, instrumentKey: string): Promise<ServerTrade[]> {
+    const response = await this.fetchValidated(
+      apiResponse(z.array(serverTradeSchema)),
+      `/trades?portfolioId=${portfolioId}&ik=${encodeURIComponent(instrumentKey)}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Get a holding's trades in client-compatible format, keeping each trade's exchange rate
+   */
+  async getHoldingTrades(portfolioId: string, instrumentKey: string): Promise<HoldingTrade[]> {
+    const trades = await this.getTrades(portfolioId, instrumentKey);
+    return trades.map(trade => ({
+      ...this.transformTrade(trade),
+      fxRate: trade.fx != null ? Number(trade.fx) : null,
+    }));
   }
 
   /**
@@ -320,8 +285,11 @@ export class ServerApiService {
           return {
             ...portfolio,
             totalValue,
+            totalCost,
             totalGain,
             totalGainPercent,
+            priceGain: totalGain, // The server doesn't split out currency moves
+            currencyGain: 0,
             dividendYield, // Would need dividend data from trades
             holdingsCount: holdings.length,
           };
@@ -338,7 +306,7 @@ export class ServerApiService {
   /**
    * Transform client portfolio create request to server format
    */
-  private transformPortfolioCreateRequest(clientData: ClientPortfolioCreateRequest): ServerPortfolioCreateRequest {
+  private transformPortfolioCreateRequest(clientData: ClientPortfolioCreateRequest): PortfolioCreateRequest {
     return {
       nm: clientData.name,
       desc: clientData.description,
@@ -353,14 +321,14 @@ export class ServerApiService {
    */
   async createPortfolio(portfolioData: ClientPortfolioCreateRequest): Promise<void> {
     const serverData = this.transformPortfolioCreateRequest(portfolioData);
-    await this.makeRequest('/api/portfolios', 'POST', serverData);
+    await this.fetchValidated(writeResponseSchema, '/portfolios', 'POST', serverData);
   }
 
   /**
    * Update an existing portfolio
    */
   async updatePortfolio(portfolioId: string, portfolioData: Partial<ClientPortfolioCreateRequest>): Promise<void> {
-    const serverData: Partial<ServerPortfolioCreateRequest> = {};
+    const serverData: PortfolioCreateRequest = {};
     
     if (portfolioData.name) serverData.nm = portfolioData.name;
     if (portfolioData.description) serverData.desc = portfolioData.description;
@@ -368,32 +336,34 @@ export class ServerApiService {
     if (portfolioData.taxResidency) serverData.taxRes = portfolioData.taxResidency;
     if (portfolioData.financialYearEnd) serverData.finYr = portfolioData.financialYearEnd;
     
-    await this.makeRequest(`/api/portfolios/${portfolioId}`, 'PUT', serverData);
+    await this.fetchValidated(writeResponseSchema, `/portfolios/${portfolioId}`, 'PUT', serverData);
   }
 
   /**
    * Delete a portfolio
    */
   async deletePortfolio(portfolioId: string): Promise<void> {
-    await this.makeRequest(`/api/portfolios/${portfolioId}`, 'DELETE');
+    await this.fetchValidated(writeResponseSchema, `/portfolios/${portfolioId}`, 'DELETE');
   }
 
   /**
    * Get holdings for a portfolio
    */
-  async getHoldings(portfolioId: string): Promise<ServerHoldingDetailsResponse[]> {
-    const response = await this.makeRequest<ServerApiResponse<ServerHoldingDetailsResponse[]>>(`/api/holdings?portfolioId=${portfolioId}`);
+  async getHoldings(portfolioId: string): Promise<HoldingDetailsResponse[]> {
+    const response = await this.fetchValidated(apiResponse(z.array(holdingDetailsResponseSchema)), `/holdings?portfolioId=${portfolioId}`);
     return response.data;
   }
 
   /**
-   * Get holdings with client-compatible format and metrics
+   * Transform a server holding to the client format. The service values
+   * holdings in their own currency and has no rates to the portfolio's base,
+   * so other currencies count at 1 with fxRate null, as unknown rates do elsewhere.
    */
-  async getHoldingsWithMetrics(portfolioId: string): Promise<any[]> {
-    const serverHoldings = await this.getHoldings(portfolioId);
-    
-    return serverHoldings.map(holding => ({
-      // Base Holding fields (matching client schema)
+  private transformHolding(holding: HoldingDetailsResponse, baseCurrency: string): HoldingWithMetrics {
+    const quote = holding.instrumentTxnl;
+    const price = holding.qty > 0 ? holding.currentVal / holding.qty : 0;
+    const change = quote?.cmp != null && quote.pcls != null ? quote.cmp - quote.pcls : null;
+    return {
       id: holding.hid,
       portfolioId: holding.pid,
       instrumentKey: holding.ik, // Add instrument key for API calls
@@ -401,75 +371,121 @@ export class ServerApiService {
       companyName: holding.cmpNm || holding.symbol, // Fallback to symbol if company name is null
       exchange: holding.exchange,
       currency: holding.ccy,
+      instrumentType: holding.typ ?? "STK",
       quantity: holding.qty.toString(),
       averageCost: holding.avgBuyPrice.toString(),
-      currentPrice: holding.qty > 0 ? (holding.currentVal / holding.qty).toString() : "0",
+      currentPrice: price.toString(),
       lastUpdated: this.convertUtcToLocal(holding.crdDt),
-      
-      // HoldingWithMetrics fields
       currentValue: holding.currentVal,
       totalGain: holding.ug, // Unrealized gain
       totalGainPercent: holding.costBase > 0 ? (holding.ug / holding.costBase) * 100 : 0,
-      
-      // Additional server-specific fields
-      costBasePortfolioCurrency: holding.costBasePortfolioCcy,
-      realizedGain: holding.rg, // Realized gain
-      fees: holding.fee,
-      feesCurrency: holding.feeCcy,
-      
-      // Market data (optional)
-      marketData: holding.instrumentTxnl ? {
+      marketData: quote ? {
+        id: holding.ik,
         symbol: holding.symbol,
-        price: holding.qty > 0 ? holding.currentVal / holding.qty : 0,
-        change: null,
-        changePercent: null,
-        volume: null,
+        exchange: holding.exchange,
+        price: String(quote.cmp ?? price),
+        change: change != null ? String(change) : null,
+        changePercent: change != null && quote.pcls ? String((change / quote.pcls) * 100) : null,
+        volume: quote.delVol != null ? Math.round(quote.delVol) : null,
         marketCap: null,
-      } : null,
-    }));
+        lastUpdated: this.convertUtcToLocal(quote.trDt),
+      } : undefined,
+      baseCurrency,
+      fxRate: holding.ccy === baseCurrency ? 1 : null,
+      currentValueBase: holding.currentVal,
+      totalCostBase: holding.costBase,
+      totalGainBase: holding.ug,
+      priceGainBase: holding.ug,
+      currencyGainBase: 0,
+      priceAsOf: this.convertUtcToLocal(quote?.trDt),
+      isStale: false,
+    };
   }
 
+  /**
+   * Get holdings with client-compatible format and metrics
+   */
+  async getHoldingsWithMetrics(portfolioId: string): Promise<HoldingWithMetrics[]> {
+    const [holdings, portfolios] = await Promise.all([this.getHoldings(portfolioId), this.getPortfolios()]);
+    const baseCurrency = portfolios.find(portfolio => portfolio.id === portfolioId)?.baseCurrency ?? "USD";
+    return holdings.map(holding => this.transformHolding(holding, baseCurrency));
+  }
+
+  /**
+   * Get one holding with its latest trades. The service has no holding
+   * lookup, so this finds it among the user's portfolios; it keeps no tax
+   * lots, so lots is null.
+   */
+  async getHolding(holdingId: string): Promise<HoldingDetail> {
+    const portfolios = await this.getPortfolios();
+    for (const portfolio of portfolios) {
+      const holding = (await this.getHoldings(portfolio.id)).find(h => h.hid === holdingId);
+      if (!holding) continue;
+      const trades = await this.getTrades(portfolio.id, holding.ik);
+      return {
+        ...this.transformHolding(holding, portfolio.baseCurrency),
+        lots: null,
+        recentTransactions: trades
+          .map(trade => this.transformTrade(trade))
+          .sort((a, b) => b.date.getTime() - a.date.getTime())
+          .slice(0, holdingRecentTransactionCount),
+      };
+    }
+    throw new Error("Holding not found");
+  }
+
+  /**
+   * Transform a server trade to the client transaction format
+   */
+  private transformTrade(trade: ServerTrade): Transaction {
+    return {
+      id: trade.txId,
+      portfolioId: trade.pid,
+      symbol: trade.symbol,
+      type: trade.trdTypEnum.toLowerCase(),
+      quantity: trade.qty.toString(),
+      price: trade.tradePrice.toString(),
+      totalAmount: (trade.qty * trade.tradePrice).toString(),
+      fees: (trade.fee ?? 0).toString(),
+      currency: trade.ccy,
+      exchange: trade.exchange,
+      instrumentType: trade.typ ?? "STK",
+      date: new Date(trade.trdDt),
+      splitRatio: null,
+      relatedSymbol: null,
+      costApportionment: null,
+      relatedTransactionId: null,
+      withholdingTax: null,
+      frankingCredits: null,
+      reinvestedQuantity: null,
+      reinvestmentPrice: null,
+      reliefMethod: null,
+      lotSelections: null,
+      realizedGain: null,
+      createdAt: this.convertUtcToLocal(trade.createdDate),
+    };
+  }
 
   /**
    * Get recent transactions in client-compatible format
-   * Note: Server requires specific IK (instrument key) for trades, 
-   * so this is a simplified version that would need holdings data
+   * Note: Server requires specific IK (instrument key) for trades, so this
+   * fetches every holding's trades in parallel and merges them
    */
-  async getRecentTransactions(portfolioId: string, limit: number = 3): Promise<any[]> {
+  async getRecentTransactions(portfolioId: string, limit: number = 3): Promise<Transaction[]> {
     try {
-      // First get holdings to get instrument keys
       const holdings = await this.getHoldings(portfolioId);
-      
-      if (holdings.length === 0) {
-        return [];
-      }
-      
-      // Get trades for each holding and combine them
-      const allTrades: any[] = [];
-      
-      for (const holding of holdings.slice(0, 5)) { // Limit to first 5 holdings to avoid too many API calls
-        try {
-          const tradesResponse = await this.getTrades(portfolioId, holding.ik);
-          const trades = tradesResponse.data.map(trade => ({
-            id: trade.txId,
-            portfolioId: trade.pid,
-            symbol: trade.symbol,
-            type: trade.trdTypEnum.toLowerCase(),
-            quantity: trade.qty.toString(),
-            price: trade.tradePrice.toString(),
-            totalAmount: (trade.qty * trade.tradePrice).toString(),
-            fees: trade.fee.toString(),
-            currency: trade.ccy,
-            exchange: trade.exchange,
-            date: new Date(trade.trdDt),
-            createdAt: new Date(trade.createdDate),
-          }));
-          allTrades.push(...trades);
-        } catch (error) {
-          console.warn(`Failed to fetch trades for ${holding.symbol}:`, error);
+
+      const results = await Promise.allSettled(
+        holdings.map(holding => this.getTrades(portfolioId, holding.ik))
+      );
+      const allTrades = results.flatMap((result, index) => {
+        if (result.status === "rejected") {
+          console.warn(`Failed to fetch trades for ${holdings[index].symbol}:`, result.reason);
+          return [];
         }
-      }
-      
+        return result.value.map(trade => this.transformTrade(trade));
+      });
+
       // Sort by date and limit
       return allTrades
         .sort((a, b) => b.date.getTime() - a.date.getTime())
@@ -484,7 +500,7 @@ export class ServerApiService {
   /**
    * Transform client trade request to server format
    */
-  private transformTradeRequest(clientData: ClientTradeRequest): ServerTradeRequest {
+  private transformTradeRequest(clientData: ClientTradeRequest): TradeRequest {
     return {
       pid: clientData.portfolioId,
       ik: clientData.instrumentKey,
@@ -508,30 +524,30 @@ export class ServerApiService {
    */
   async createTrade(tradeData: ClientTradeRequest): Promise<void> {
     const serverData = this.transformTradeRequest(tradeData);
-    await this.makeRequest('/api/trades', 'POST', serverData);
+    await this.fetchValidated(writeResponseSchema, '/trades', 'POST', serverData);
   }
 
   /**
    * Delete a trade
    */
   async deleteTrade(tradeId: string, portfolioId: string): Promise<void> {
-    await this.makeRequest(`/api/trades/${tradeId}?portfolioId=${portfolioId}`, 'DELETE');
+    await this.fetchValidated(writeResponseSchema, `/trades/${tradeId}?portfolioId=${portfolioId}`, 'DELETE');
   }
 
   /**
    * Transform server instrument search results to client format
    */
-  private transformInstrumentSearchResults(serverResults: ServerInstrumentMasterEntity[]): ClientInstrumentSearchResult[] {
+  private transformInstrumentSearchResults(serverResults: InstrumentMasterEntity[]): ClientInstrumentSearchResult[] {
     return serverResults.map(result => ({
-      isin: result.isin,
+      isin: result.isin ?? "",
       instrumentKey: result.ik,
       name: result.nm,
       symbol: result.symbl,
-      segment: result.sgmnt,
-      type: result.typ,
-      currency: result.ccy,
-      country: result.ctry,
-      exchange: result.exchg
+      segment: result.sgmnt ?? "",
+      type: result.typ ?? "",
+      currency: result.ccy ?? "",
+      country: result.ctry ?? "",
+      exchange: result.exchg ?? ""
     }));
   }
 
@@ -539,52 +555,55 @@ export class ServerApiService {
    * Search for instruments with client-friendly response
    */
   async searchInstruments(searchText: string): Promise<ClientInstrumentSearchResult[]> {
-    const serverResults = await this.makeRequest<ServerInstrumentMasterEntity[]>(`/api/instrument/search?text=${encodeURIComponent(searchText)}`);
+    const serverResults = await this.fetchValidated(
+      z.array(instrumentMasterEntitySchema),
+      `/instrument/search?text=${encodeURIComponent(searchText)}`
+    );
     return this.transformInstrumentSearchResults(serverResults);
   }
 
   /**
    * Get instrument information with raw server response
    */
-  async getInstrument(instrumentKey: string): Promise<ServerGetInstrumentResponse> {
-    return this.makeRequest<ServerGetInstrumentResponse>(`/api/instrument/${instrumentKey}`);
+  async getInstrument(instrumentKey: string): Promise<GetInstrumentResponse> {
+    return this.fetchValidated(getInstrumentResponseSchema, `/instrument/${encodeURIComponent(instrumentKey)}`);
   }
 
   /**
-   * Upload CAS file
+   * Get a portfolio's mutual fund holdings with each one's trades
+   */
+  async getMfPositions(portfolioId: string): Promise<ClientMfPosition[]> {
+    const holdings = (await this.getHoldings(portfolioId)).filter(holding => holding.typ === "MF");
+    return Promise.all(holdings.map(async holding => ({
+      isin: holding.ik,
+      name: holding.cmpNm || holding.symbol,
+      units: holding.qty,
+      trades: (await this.getTrades(portfolioId, holding.ik)).map(trade => ({
+        id: trade.txId,
+        type: trade.trdTypEnum,
+        units: trade.qty,
+      })),
+    })));
+  }
+
+  /**
+   * Upload a CAS statement PDF for the service to record its trades, answering
+   * what the service replied. The contract takes the PDF's password as a query parameter.
    */
   async uploadCasFile(portfolioId: string, filePassword: string, file: File): Promise<string> {
     const formData = new FormData();
     formData.append('file', file);
+    const query = new URLSearchParams({ portfolioId, filePassword });
 
-    const headers = this.getHeaders();
-    delete headers['Content-Type']; // Let browser set content-type for FormData
-
-    const response = await fetch(
-      `${this.baseUrl}/api/cas-import/upload?portfolioId=${portfolioId}&filePassword=${filePassword}`,
-      {
-        method: 'POST',
-        headers,
-        body: formData
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`CAS upload failed: ${response.status} ${response.statusText}`);
-    }
-
-    return response.text();
-  }
+    // The browser sets the multipart content type and boundary
+    const response = await fetch(`${this.baseUrl}/cas-import/upload?${query}`, {
+      method: 'POST',
+      credentials: 'include',
+      body: formData
+    });
 
-  /**
-   * Get authentication token
-   */
-  async getAuthToken(code: string, redirectUri: string): Promise<{
-    idToken: string;
-    refreshToken: string;
-    expirySec: number;
-  }> {
-    return this.makeRequest('/api/auth/token', 'POST', { code, redirectUri });
+    await this.throwIfNotOk(response, 'CAS upload');
+    return (await response.text()).trim();
   }
 }
 
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Header } from "@/components/layout/header";
 import { Sidebar } from "@/components/layout/sidebar";
 import { PortfolioChart } from "@/components/portfolio/portfolio-chart";
@@ -7,19 +8,21 @@ import { HoldingsTable } from "@/components/portfolio/holdings-table";
 import { AssetAllocationChart } from "@/components/portfolio/asset-allocation-chart";
 import { AddTransactionModal } from "@/components/portfolio/add-transaction-modal";
 import { CurrencyConverter } from "@/components/portfolio/currency-converter";
+import { BenchmarkCard } from "@/components/portfolio/benchmark-card";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { TrendingUp, TrendingDown, DollarSign, Coins, Globe, Plus, RefreshCw } from "lucide-react";
-import { apiRequest, updatePortfolioPrices } from "@/lib/api";
-import { serverApi } from "@/lib/server-api";
+import { apiRequest } from "@/lib/api";
+import { dataSource } from "@/lib/data-source";
 import { useToast } from "@/hooks/use-toast";
-import type { PortfolioWithMetrics, HoldingWithMetrics, Transaction } from "@shared/schema";
+import type { Benchmark, PortfolioWithMetrics, HoldingWithMetrics, Transaction, PriceRefreshReport } from "@shared/schema";
 
 export default function Dashboard() {
   const [selectedPortfolioId, setSelectedPortfolioId] = useState<string>("");
   const [timeRange, setTimeRange] = useState("1Y");
+  const [benchmark, setBenchmark] = useState<Benchmark | undefined>();
   const [showAddTransactionModal, setShowAddTransactionModal] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -31,7 +34,7 @@ export default function Dashboard() {
   // Fetch portfolios from server with metrics
   const { data: portfolios = [] } = useQuery({
     queryKey: ["/api/portfolios"],
-    queryFn: () => serverApi.getPortfoliosWithMetrics(),
+    queryFn: () => dataSource.getPortfoliosWithMetrics(),
   });
 
   // Set portfolio from URL or default to first portfolio
@@ -52,27 +55,34 @@ export default function Dashboard() {
   // Fetch holdings from server
   const { data: holdings = [], isLoading: holdingsLoading } = useQuery({
     queryKey: ["/api/portfolios", selectedPortfolioId, "holdings"],
-    queryFn: () => serverApi.getHoldingsWithMetrics(selectedPortfolioId),
+    queryFn: () => dataSource.getHoldingsWithMetrics(selectedPortfolioId),
     enabled: !!selectedPortfolioId,
   });
 
   // Fetch recent transactions from server
   const { data: recentTransactions = [] } = useQuery({
     queryKey: ["/api/portfolios", selectedPortfolioId, "transactions"],
-    queryFn: () => serverApi.getRecentTransactions(selectedPortfolioId, 3),
+    queryFn: () => dataSource.getRecentTransactions(selectedPortfolioId, 3),
     enabled: !!selectedPortfolioId,
   });
 
   // Update prices mutation
   const updatePricesMutation = useMutation({
-    mutationFn: () => updatePortfolioPrices(selectedPortfolioId),
-    onSuccess: () => {
+    mutationFn: (): Promise<PriceRefreshReport> => dataSource.updatePrices(selectedPortfolioId),
+    onSuccess: (report) => {
+      const problems = report.results.filter((result) => result.status !== "updated");
       toast({
-        title: "Success",
-        description: "Prices updated successfully",
+        title: report.failed > 0 ? "Some prices could not be updated" : "Success",
+        description: [
+          `${report.updated} updated`,
+          report.stale > 0 ? `${report.stale} kept their last price` : null,
+          report.failed > 0 ? `${report.failed} failed` : null,
+        ].filter(Boolean).join(", ") + (problems.length > 0 ? ` (${problems.map((result) => result.symbol).join(", ")})` : ""),
+        variant: report.updated === 0 && report.results.length > 0 ? "destructive" : "default",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/portfolios", selectedPortfolioId] });
       queryClient.invalidateQueries({ queryKey: ["/api/portfolios", selectedPortfolioId, "holdings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/holdings"] });
     },
     onError: () => {
       toast({
@@ -214,6 +224,11 @@ export default function Dashboard() {
                       </span>
                       <span className="text-muted-foreground text-sm ml-2">vs cost basis</span>
                     </div>
+                    {portfolio.currencyGain !== 0 && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Price {formatCurrency(portfolio.priceGain, portfolio.baseCurrency)} · Currency {formatCurrency(portfolio.currencyGain, portfolio.baseCurrency)}
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -267,9 +282,22 @@ export default function Dashboard() {
             {/* Performance Chart Section */}
             <div className="lg:col-span-2 space-y-6">
               <PortfolioChart
+                portfolioId={selectedPortfolioId}
+                baseCurrency={portfolio?.baseCurrency}
                 timeRange={timeRange}
                 onTimeRangeChange={setTimeRange}
+                benchmark={benchmark?.portfolioId === selectedPortfolioId ? benchmark : undefined}
               />
+
+              {/* Benchmarks are kept by this server, so the Java service's portfolios have none */}
+              {dataSource.mode === "express" && selectedPortfolioId && (
+                <BenchmarkCard
+                  portfolioId={selectedPortfolioId}
+                  defaultCurrency={portfolio?.baseCurrency ?? "USD"}
+                  selected={benchmark}
+                  onSelect={setBenchmark}
+                />
+              )}
               
               <HoldingsTable
                 holdings={holdings}
@@ -288,7 +316,9 @@ export default function Dashboard() {
                 <CardHeader>
                   <div className="flex items-center justify-between">
                     <CardTitle>Recent Transactions</CardTitle>
-                    <Button variant="ghost" size="sm">View All</Button>
+                    <Button variant="ghost" size="sm" asChild>
+                      <Link href="/transactions">View All</Link>
+                    </Button>
                   </div>
                 </CardHeader>
                 <CardContent>
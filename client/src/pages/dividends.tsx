@@ -0,0 +1,312 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Header } from "@/components/layout/header";
+import { Sidebar } from "@/components/layout/sidebar";
+import { AddTransactionModal } from "@/components/portfolio/add-transaction-modal";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Coins, Percent, Landmark, Repeat } from "lucide-react";
+import { fetchIncome } from "@/lib/api";
+import { expressDataSource } from "@/lib/data-source";
+import type { PortfolioIncome, PortfolioWithMetrics } from "@shared/schema";
+
+const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export default function Dividends() {
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<string>("");
+  const [year, setYear] = useState(new Date().getFullYear().toString());
+  const [showAddTransactionModal, setShowAddTransactionModal] = useState(false);
+  const [, navigate] = useLocation();
+
+  // Income is this server's, so are the portfolios it can be asked about
+  const { data: portfolios = [] } = useQuery<PortfolioWithMetrics[]>({
+    queryKey: ["/api/portfolios", "express"],
+    queryFn: () => expressDataSource.getPortfoliosWithMetrics(),
+  });
+
+  useEffect(() => {
+    if (portfolios.length > 0 && !selectedPortfolioId) {
+      setSelectedPortfolioId(portfolios[0].id);
+    }
+  }, [portfolios, selectedPortfolioId]);
+
+  const { data: income, isLoading } = useQuery<PortfolioIncome>({
+    queryKey: ["/api/portfolios", selectedPortfolioId, "income"],
+    queryFn: () => fetchIncome(selectedPortfolioId),
+    enabled: !!selectedPortfolioId,
+  });
+
+  const currency = income?.baseCurrency
+    ?? portfolios.find((p) => p.id === selectedPortfolioId)?.baseCurrency
+    ?? "USD";
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(amount);
+  };
+
+  const formatPercent = (percent: number | null) => {
+    return percent === null ? "—" : `${percent.toFixed(2)}%`;
+  };
+
+  // Calendar of the selected year: net income per month, overall and per holding
+  const years = Array.from(new Set([
+    new Date().getFullYear().toString(),
+    ...(income?.months ?? []).map((month) => month.month.slice(0, 4)),
+  ])).sort().reverse();
+  const calendar = monthNames.map((name, index) => {
+    const key = `${year}-${String(index + 1).padStart(2, "0")}`;
+    const month = income?.months.find((m) => m.month === key);
+    return { name, net: month?.net ?? 0, bySymbol: month?.netBySymbol ?? {} };
+  });
+  const calendarSymbols = Array.from(new Set(calendar.flatMap((month) => Object.keys(month.bySymbol)))).sort();
+  const yearTotal = calendar.reduce((sum, month) => sum + month.net, 0);
+
+  const summaryCards = income ? [
+    {
+      label: "Income, last 12 months",
+      value: formatCurrency(income.trailing12MonthGross),
+      detail: `${formatCurrency(income.trailing12MonthNet)} after withholding tax`,
+      icon: Coins,
+    },
+    {
+      label: "Dividend yield",
+      value: formatPercent(income.trailingYieldPercent),
+      detail: `${formatPercent(income.yieldOnCostPercent)} yield on cost`,
+      icon: Percent,
+    },
+    {
+      label: "Tax withheld / credits",
+      value: formatCurrency(income.totals.withholdingTax),
+      detail: `${formatCurrency(income.totals.frankingCredits)} franking credits`,
+      icon: Landmark,
+    },
+    {
+      label: "Reinvested (DRIP)",
+      value: formatCurrency(income.totals.reinvested),
+      detail: `of ${formatCurrency(income.totals.net)} received in total`,
+      icon: Repeat,
+    },
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="flex">
+        <Sidebar
+          onAddTransaction={() => setShowAddTransactionModal(true)}
+          onCreatePortfolio={() => navigate("/portfolios")}
+        />
+
+        <main className="flex-1 p-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Dividends</h1>
+              <p className="text-muted-foreground">Income received, tax withheld and reinvested</p>
+            </div>
+            <Select value={selectedPortfolioId} onValueChange={setSelectedPortfolioId}>
+              <SelectTrigger className="w-48 mt-4 sm:mt-0">
+                <SelectValue placeholder="Select Portfolio" />
+              </SelectTrigger>
+              <SelectContent>
+                {portfolios.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : !income ? (
+            <p className="text-muted-foreground">Select a portfolio to see its income.</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                {summaryCards.map((card) => (
+                  <Card key={card.label}>
+                    <CardContent className="p-6">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">{card.label}</p>
+                          <p className="text-2xl font-bold text-foreground mt-1">{card.value}</p>
+                        </div>
+                        <div className="p-3 bg-warning/10 rounded-full">
+                          <card.icon className="text-warning text-xl" />
+                        </div>
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-4">{card.detail}</p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>Income calendar</CardTitle>
+                    <div className="flex items-center space-x-3">
+                      <span className="text-sm text-muted-foreground">{formatCurrency(yearTotal)} net</span>
+                      <Select value={year} onValueChange={setYear}>
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {years.map((y) => (
+                            <SelectItem key={y} value={y}>{y}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="h-56">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={calendar}>
+                        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                        <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                        <YAxis tick={{ fontSize: 12 }} width={70} tickFormatter={(value) => formatCurrency(value)} />
+                        <Tooltip formatter={(value: number) => [formatCurrency(value), "Net income"]} />
+                        <Bar dataKey="net" fill="hsl(var(--warning))" radius={[4, 4, 0, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+
+                  {calendarSymbols.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b border-border">
+                            <th className="text-left py-2 px-2 font-medium text-muted-foreground">Holding</th>
+                            {monthNames.map((name) => (
+                              <th key={name} className="text-right py-2 px-2 font-medium text-muted-foreground">{name}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                          {calendarSymbols.map((symbol) => (
+                            <tr key={symbol}>
+                              <td className="py-2 px-2 font-medium text-foreground">{symbol}</td>
+                              {calendar.map((month) => (
+                                <td key={month.name} className="py-2 px-2 text-right text-foreground">
+                                  {month.bySymbol[symbol] ? formatCurrency(month.bySymbol[symbol]) : ""}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle>By holding</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {income.holdings.length === 0 ? (
+                      <p className="text-muted-foreground">No dividends recorded yet.</p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="border-b border-border">
+                              <th className="text-left py-2 px-2 font-medium text-muted-foreground">Holding</th>
+                              <th className="text-right py-2 px-2 font-medium text-muted-foreground">Payments</th>
+                              <th className="text-right py-2 px-2 font-medium text-muted-foreground">Last paid</th>
+                              <th className="text-right py-2 px-2 font-medium text-muted-foreground">Last 12 months</th>
+                              <th className="text-right py-2 px-2 font-medium text-muted-foreground">Yield</th>
+                              <th className="text-right py-2 px-2 font-medium text-muted-foreground">Yield on cost</th>
+                              <th className="text-right py-2 px-2 font-medium text-muted-foreground">Total net</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-border">
+                            {income.holdings.map((holding) => (
+                              <tr key={holding.symbol}>
+                                <td className="py-2 px-2 font-medium text-foreground">{holding.symbol}</td>
+                                <td className="py-2 px-2 text-right">{holding.payments}</td>
+                                <td className="py-2 px-2 text-right">
+                                  {holding.lastPaidAt ? new Date(holding.lastPaidAt).toLocaleDateString() : "—"}
+                                </td>
+                                <td className="py-2 px-2 text-right">{formatCurrency(holding.trailing12MonthGross)}</td>
+                                <td className="py-2 px-2 text-right">{formatPercent(holding.yieldPercent)}</td>
+                                <td className="py-2 px-2 text-right">{formatPercent(holding.yieldOnCostPercent)}</td>
+                                <td className="py-2 px-2 text-right font-medium">{formatCurrency(holding.net)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Recent payments</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {income.entries.slice(0, 8).map((entry) => (
+                        <div key={entry.transactionId} className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium text-foreground">
+                              {entry.symbol}
+                              {entry.reinvestedQuantity > 0 && (
+                                <Badge variant="secondary" className="ml-2">DRIP</Badge>
+                              )}
+                            </p>
+                            <p className="text-sm text-muted-foreground">{new Date(entry.date).toLocaleDateString()}</p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-medium text-foreground">{formatCurrency(entry.netBase)}</p>
+                            {entry.withholdingTax > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {formatCurrency(entry.grossBase - entry.netBase)} withheld
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                      {income.entries.length === 0 && (
+                        <p className="text-muted-foreground">No dividends recorded yet.</p>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {income.missingRates.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  No exchange rate for {income.missingRates.join(", ")}; those amounts are shown unconverted.
+                </p>
+              )}
+            </div>
+          )}
+        </main>
+      </div>
+
+      {selectedPortfolioId && (
+        <AddTransactionModal
+          open={showAddTransactionModal}
+          onOpenChange={setShowAddTransactionModal}
+          portfolioId={selectedPortfolioId}
+          source={expressDataSource}
+        />
+      )}
+    </div>
+  );
+}
@@ -22,10 +22,13 @@ import {
   Globe,
   RefreshCw
 } from "lucide-react";
-import { serverApi } from "@/lib/server-api";
+import { dataSource } from "@/lib/data-source";
 import { useToast } from "@/hooks/use-toast";
 import { EditHoldingModal } from "@/components/portfolio/edit-holding-modal";
-import type { HoldingWithMetrics } from "@shared/schema";
+import { TaxLotsCard } from "@/components/portfolio/tax-lots-card";
+import { PriceHistoryChart } from "@/components/portfolio/price-history-chart";
+import { BenchmarkCard } from "@/components/portfolio/benchmark-card";
+import type { Benchmark, HoldingDetail } from "@shared/schema";
 
 export default function HoldingDetails() {
   const { id } = useParams();
@@ -36,39 +39,20 @@ export default function HoldingDetails() {
   const [includeClosedPositions, setIncludeClosedPositions] = useState(false);
   const [showAddTransactionModal, setShowAddTransactionModal] = useState(false);
   const [showEditHoldingModal, setShowEditHoldingModal] = useState(false);
+  const [benchmark, setBenchmark] = useState<Benchmark | undefined>();
   const { toast } = useToast();
 
-  // Get holding data from React Query cache (set by HoldingsTable)
-  const { data: holding, isLoading: holdingLoading } = useQuery<HoldingWithMetrics>({
+  const { data: holding, isLoading: holdingLoading } = useQuery<HoldingDetail>({
     queryKey: ["/api/holdings", id],
-    queryFn: async () => {
-      // This should not be called if the data is already cached
-      // In a real implementation, you'd have a specific endpoint for individual holdings
-      throw new Error("Unable to load holding - data should be cached from dashboard");
-    },
+    queryFn: () => dataSource.getHolding(id!),
     enabled: !!id,
-    staleTime: 5 * 60 * 1000, // Consider cached data fresh for 5 minutes
   });
 
-  // Fetch trades for this holding - always fetch when we have holding data
+  // Every trade for the trades tab; the summary shows the detail's latest ones
   const { data: trades = [], isLoading: tradesLoading, error: tradesError } = useQuery({
-    queryKey: ["/api/trades", holding?.portfolioId, holding?.instrumentKey],
-    queryFn: async () => {
-      if (!holding?.portfolioId || !holding?.instrumentKey) {
-        console.log('Missing holding data:', { portfolioId: holding?.portfolioId, instrumentKey: holding?.instrumentKey });
-        return [];
-      }
-      console.log('Fetching trades for:', { portfolioId: holding.portfolioId, instrumentKey: holding.instrumentKey });
-      try {
-        const tradesResponse = await serverApi.getTrades(holding.portfolioId, holding.instrumentKey);
-        console.log('Trades response:', tradesResponse);
-        return tradesResponse.data || [];
-      } catch (error) {
-        console.error('Error fetching trades:', error);
-        return [];
-      }
-    },
-    enabled: !!holding?.portfolioId && !!holding?.instrumentKey,
+    queryKey: ["/api/portfolios", holding?.portfolioId, "transactions", "holding", id],
+    queryFn: () => dataSource.getHoldingTransactions(holding!),
+    enabled: !!holding,
   });
 
   const formatCurrency = (amount: number, currency = "USD") => {
@@ -82,7 +66,7 @@ export default function HoldingDetails() {
     return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
   };
 
-  const formatDate = (date: string) => {
+  const formatDate = (date: string | Date) => {
     return new Date(date).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'short',
@@ -140,18 +124,16 @@ export default function HoldingDetails() {
   const currentPrice = parseFloat(holding.currentPrice || "0");
   const costBasis = totalQuantity * averageCost;
   const currentValue = holding.currentValue;
-  const totalGain = holding.totalGain;
-  const totalGainPercent = holding.totalGainPercent;
+  // Return split in the portfolio's base currency, as a share of the cost there
+  const percentOfCost = (amount: number) => holding.totalCostBase > 0 ? (amount / holding.totalCostBase) * 100 : 0;
+  const priceGainPercent = percentOfCost(holding.priceGainBase);
+  const currencyGainPercent = percentOfCost(holding.currencyGainBase);
 
-  // Mock data for price comparison chart
-  const priceData = [
-    { date: "01 Aug 25", value: 2800 },
-    { date: "04 Aug 25", value: 3200 },
-    { date: "05 Aug 25", value: 3400 },
-    { date: "06 Aug 25", value: 3100 },
-    { date: "07 Aug 25", value: 3000 },
-    { date: "08 Aug 25", value: currentPrice },
-  ];
+  // Start of the charted price history for the selected date range
+  const rangeMonths: Record<string, number> = { "1M": 1, "3M": 3, "6M": 6, "1Y": 12 };
+  const historyFrom = rangeMonths[dateRange]
+    ? new Date(new Date().setMonth(new Date().getMonth() - rangeMonths[dateRange])).toISOString().slice(0, 10)
+    : undefined;
 
   return (
     <div className="min-h-screen bg-background">
@@ -214,9 +196,11 @@ export default function HoldingDetails() {
                       <p className="text-3xl font-bold text-foreground">
                         {formatCurrency(currentValue, holding.currency)}
                       </p>
-                      <p className="text-lg text-muted-foreground">
-                        {formatCurrency(currentValue * 87.73, "INR")} {/* Mock exchange rate */}
-                      </p>
+                      {holding.baseCurrency !== holding.currency && (
+                        <p className="text-lg text-muted-foreground">
+                          {formatCurrency(holding.currentValueBase, holding.baseCurrency)}
+                        </p>
+                      )}
                     </div>
                     <div className="text-right">
                       <p className="text-sm text-muted-foreground mb-1">Price</p>
@@ -296,10 +280,10 @@ export default function HoldingDetails() {
                   </CardHeader>
                   <CardContent>
                     <p className="text-2xl font-bold text-foreground">
-                      {formatPercent(totalGainPercent)}
+                      {formatPercent(percentOfCost(holding.totalGainBase))}
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      {formatCurrency(totalGain, holding.currency)}
+                      {formatCurrency(holding.totalGainBase, holding.baseCurrency)}
                     </p>
                   </CardContent>
                 </Card>
@@ -312,10 +296,10 @@ export default function HoldingDetails() {
                   </CardHeader>
                   <CardContent>
                     <p className="text-2xl font-bold text-foreground">
-                      {formatPercent(totalGainPercent)}
+                      {formatPercent(priceGainPercent)}
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      {formatCurrency(totalGain, holding.currency)}
+                      {formatCurrency(holding.priceGainBase, holding.baseCurrency)}
                     </p>
                   </CardContent>
                 </Card>
@@ -341,9 +325,11 @@ export default function HoldingDetails() {
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <p className="text-2xl font-bold text-danger">-0.25%</p>
-                    <p className="text-sm text-danger">
-                      -{formatCurrency(5.04, holding.currency)}
+                    <p className={`text-2xl font-bold ${holding.currencyGainBase >= 0 ? 'text-success' : 'text-danger'}`}>
+                      {formatPercent(currencyGainPercent)}
+                    </p>
+                    <p className={`text-sm ${holding.currencyGainBase >= 0 ? 'text-success' : 'text-danger'}`}>
+                      {formatCurrency(holding.currencyGainBase, holding.baseCurrency)}
                     </p>
                   </CardContent>
                 </Card>
@@ -354,18 +340,22 @@ export default function HoldingDetails() {
                 <CardHeader>
                   <div className="flex items-center justify-between">
                     <CardTitle>Price comparison</CardTitle>
-                    <p className="text-sm text-muted-foreground">
-                      Updated at 8 August 2025, 3:30 PM IST
-                    </p>
+                    {holding.priceAsOf && (
+                      <p className="text-sm text-muted-foreground">
+                        Updated at {new Date(holding.priceAsOf).toLocaleString()}
+                      </p>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
                     <div className="relative h-64 bg-muted/20 rounded-lg p-4">
-                      {/* Placeholder for chart */}
-                      <div className="absolute inset-0 flex items-center justify-center">
-                        <p className="text-muted-foreground">Price chart visualization</p>
-                      </div>
+                      <PriceHistoryChart
+                        symbol={holding.symbol}
+                        currency={holding.currency}
+                        from={historyFrom}
+                        benchmarkSymbol={benchmark?.symbol}
+                      />
                     </div>
                     
                     <div className="flex items-center justify-between">
@@ -384,9 +374,13 @@ export default function HoldingDetails() {
                       </div>
                     </div>
                     
-                    <div className="text-sm text-muted-foreground">
-                      Exchange rate: {holding.currency}1 = ₹87.72772771
-                    </div>
+                    {holding.baseCurrency !== holding.currency && (
+                      <div className="text-sm text-muted-foreground">
+                        {holding.fxRate !== null
+                          ? `Exchange rate: ${holding.currency} 1 = ${holding.baseCurrency} ${holding.fxRate.toFixed(6)}`
+                          : `No ${holding.currency}/${holding.baseCurrency} exchange rate available`}
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -401,7 +395,7 @@ export default function HoldingDetails() {
                     <div>
                       <p className="text-sm text-muted-foreground">Current value</p>
                       <p className="text-lg font-semibold">
-                        {formatCurrency(currentValue * 87.73, "INR")}
+                        {formatCurrency(holding.currentValueBase, holding.baseCurrency)}
                       </p>
                       <p className="text-sm text-muted-foreground">
                         {formatCurrency(currentValue, holding.currency)}
@@ -427,6 +421,16 @@ export default function HoldingDetails() {
                 </CardContent>
               </Card>
 
+              {/* Tax Lots */}
+              {holding.lots && (
+                <TaxLotsCard
+                  portfolioId={holding.portfolioId}
+                  symbol={holding.symbol}
+                  currency={holding.currency}
+                  ledger={holding.lots}
+                />
+              )}
+
               {/* Recent Trades */}
               <Card>
                 <CardHeader>
@@ -438,16 +442,7 @@ export default function HoldingDetails() {
                   </div>
                 </CardHeader>
                 <CardContent>
-                  {tradesLoading ? (
-                    <div className="flex items-center justify-center h-32">
-                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
-                    </div>
-                  ) : tradesError ? (
-                    <div className="text-center py-8">
-                      <p className="text-muted-foreground">Error loading trades</p>
-                      <p className="text-sm text-destructive mt-2">Error: {tradesError.message}</p>
-                    </div>
-                  ) : trades.length === 0 ? (
+                  {holding.recentTransactions.length === 0 ? (
                     <div className="text-center py-8">
                       <p className="text-muted-foreground">No trades found</p>
                     </div>
@@ -464,22 +459,22 @@ export default function HoldingDetails() {
                           </tr>
                         </thead>
                         <tbody className="divide-y divide-border">
-                          {trades.slice(0, 5).map((trade) => (
-                            <tr key={trade.txId} className="hover:bg-muted/50">
-                              <td className="py-3 px-2 text-sm">{formatDate(trade.trdDt)}</td>
+                          {holding.recentTransactions.slice(0, 5).map((trade) => (
+                            <tr key={trade.id} className="hover:bg-muted/50">
+                              <td className="py-3 px-2 text-sm">{formatDate(trade.date)}</td>
                               <td className="py-3 px-2 text-sm">
-                                <Badge variant={trade.trdTypEnum === 'BUY' ? 'default' : 'destructive'}>
-                                  {trade.trdTypEnum}
+                                <Badge variant={trade.type === 'buy' ? 'default' : 'destructive'}>
+                                  {trade.type.toUpperCase()}
                                 </Badge>
                               </td>
                               <td className="py-3 px-2 text-sm text-right">
-                                {trade.qty.toLocaleString()}
+                                {parseFloat(trade.quantity).toLocaleString()}
                               </td>
                               <td className="py-3 px-2 text-sm text-right">
-                                {formatCurrency(trade.tradePrice, trade.ccy)}
+                                {formatCurrency(parseFloat(trade.price), trade.currency)}
                               </td>
                               <td className="py-3 px-2 text-sm text-right">
-                                {formatCurrency(trade.qty * trade.tradePrice, trade.ccy)}
+                                {formatCurrency(parseFloat(trade.quantity) * parseFloat(trade.price), trade.currency)}
                               </td>
                             </tr>
                           ))}
@@ -490,21 +485,16 @@ export default function HoldingDetails() {
                 </CardContent>
               </Card>
 
-              {/* Benchmark Performance */}
-              <Card className="bg-warning/10">
-                <CardHeader>
-                  <CardTitle>Benchmark performance</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-muted-foreground mb-4">
-                    Compare your performance against a benchmark. You can use an index-tracking ETF or any other
-                    instrument, global or local.
-                  </p>
-                  <Button variant="default" className="bg-warning hover:bg-warning/90">
-                    Upgrade to add a benchmark
-                  </Button>
-                </CardContent>
-              </Card>
+              {/* Benchmark Performance; benchmarks are kept by this server */}
+              {dataSource.mode === "express" && (
+                <BenchmarkCard
+                  portfolioId={holding.portfolioId}
+                  holdingSymbol={holding.symbol}
+                  defaultCurrency={holding.currency}
+                  selected={benchmark}
+                  onSelect={setBenchmark}
+                />
+              )}
             </TabsContent>
 
             <TabsContent value="trades" className="space-y-6">
@@ -557,30 +547,30 @@ export default function HoldingDetails() {
                         </thead>
                         <tbody className="divide-y divide-border">
                           {trades.map((trade) => (
-                            <tr key={trade.txId} className="hover:bg-muted/50">
-                              <td className="py-3 px-2 text-sm">{formatDate(trade.trdDt)}</td>
+                            <tr key={trade.id} className="hover:bg-muted/50">
+                              <td className="py-3 px-2 text-sm">{formatDate(trade.date)}</td>
                               <td className="py-3 px-2 text-sm">
-                                <Badge variant={trade.trdTypEnum === 'BUY' ? 'default' : 'destructive'}>
-                                  {trade.trdTypEnum}
+                                <Badge variant={trade.type === 'buy' ? 'default' : 'destructive'}>
+                                  {trade.type.toUpperCase()}
                                 </Badge>
                               </td>
                               <td className="py-3 px-2 text-sm text-right">
-                                {trade.qty.toLocaleString()}
+                                {parseFloat(trade.quantity).toLocaleString()}
                               </td>
                               <td className="py-3 px-2 text-sm text-right">
-                                {formatCurrency(trade.tradePrice, trade.ccy)}
+                                {formatCurrency(parseFloat(trade.price), trade.currency)}
                               </td>
                               <td className="py-3 px-2 text-sm text-right">
-                                {formatCurrency(trade.fee, trade.feeCcy)}
+                                {formatCurrency(parseFloat(trade.fees ?? "0"), trade.currency)}
                               </td>
                               <td className="py-3 px-2 text-sm text-right">
-                                {trade.fx || 'N/A'}<br />
+                                {trade.fxRate ?? 'N/A'}<br />
                                 <span className="text-xs text-muted-foreground">
-                                  {trade.fxBaseCcy || trade.ccy}/INR
+                                  {trade.currency}/{holding.baseCurrency}
                                 </span>
                               </td>
                               <td className="py-3 px-2 text-sm text-right">
-                                {formatCurrency(trade.qty * trade.tradePrice, trade.ccy)}
+                                {formatCurrency(parseFloat(trade.quantity) * parseFloat(trade.price), trade.currency)}
                               </td>
                               <td className="py-3 px-2 text-sm text-center">
                                 <Badge variant="secondary">Confirmed</Badge>
@@ -4,6 +4,9 @@ import { Header } from "@/components/layout/header";
 import { Sidebar } from "@/components/layout/sidebar";
 import { CreatePortfolioModal } from "@/components/portfolio/create-portfolio-modal";
 import { AddTransactionModal } from "@/components/portfolio/add-transaction-modal";
+import { CasImportModal } from "@/components/portfolio/cas-import-modal";
+import { PortfolioTrash } from "@/components/portfolio/portfolio-trash";
+import { ToastAction } from "@/components/ui/toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -16,6 +19,9 @@ import {
   MoreVertical, 
   Edit, 
   Trash2,
+  FileUp,
+  Download,
+  Upload,
   Briefcase,
   DollarSign,
   Calendar
@@ -24,37 +30,74 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { apiRequest } from "@/lib/api";
-import { serverApi } from "@/lib/server-api";
+import { apiRequest, downloadPortfolioExport, restorePortfolio } from "@/lib/api";
+import { dataSource } from "@/lib/data-source";
 import { useToast } from "@/hooks/use-toast";
-import type { PortfolioWithMetrics } from "@shared/schema";
+import type { ExportFormat, PortfolioWithMetrics } from "@shared/schema";
 import { Link } from "wouter";
 
 export default function Portfolios() {
   const [showCreatePortfolioModal, setShowCreatePortfolioModal] = useState(false);
   const [showAddTransactionModal, setShowAddTransactionModal] = useState(false);
   const [selectedPortfolioId, setSelectedPortfolioId] = useState<string>("");
+  const [casImportPortfolioId, setCasImportPortfolioId] = useState<string>("");
+  const [editingPortfolio, setEditingPortfolio] = useState<PortfolioWithMetrics | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Fetch all portfolios from Java server with calculated metrics
+  // Fetch all portfolios with calculated metrics
   const { data: portfolios = [], isLoading } = useQuery({
     queryKey: ["/api/portfolios"],
-    queryFn: () => serverApi.getPortfoliosWithMetrics(),
+    queryFn: () => dataSource.getPortfoliosWithMetrics(),
+  });
+
+  // The Java service deletes portfolios outright; the Express server keeps them in a trash
+  const hasTrash = dataSource.mode === "express";
+
+  const restoreDeletedMutation = useMutation({
+    mutationFn: (portfolio: PortfolioWithMetrics) => dataSource.restorePortfolio(portfolio.id),
+    onSuccess: (_, portfolio) => {
+      toast({
+        title: "Success",
+        description: `Restored "${portfolio.name}"`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios/trash"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore portfolio",
+        variant: "destructive",
+      });
+    },
   });
 
   // Delete portfolio mutation
   const deletePortfolioMutation = useMutation({
-    mutationFn: (portfolioId: string) => serverApi.deletePortfolio(portfolioId),
-    onSuccess: () => {
-      toast({
+    mutationFn: (portfolio: PortfolioWithMetrics) => dataSource.deletePortfolio(portfolio.id),
+    onSuccess: (_, portfolio) => {
+      toast(hasTrash ? {
+        title: "Portfolio deleted",
+        description: `"${portfolio.name}" was moved to the trash`,
+        action: (
+          <ToastAction altText="Undo deleting the portfolio" onClick={() => restoreDeletedMutation.mutate(portfolio)}>
+            Undo
+          </ToastAction>
+        ),
+      } : {
         title: "Success",
         description: "Portfolio deleted successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/portfolios"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios/trash"] });
     },
     onError: (error: any) => {
       toast({
@@ -65,6 +108,37 @@ export default function Portfolios() {
     },
   });
 
+  const exportPortfolio = async (portfolioId: string, format: ExportFormat) => {
+    try {
+      await downloadPortfolioExport(portfolioId, format);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to export portfolio",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Restore a JSON export as a new portfolio
+  const restorePortfolioMutation = useMutation({
+    mutationFn: async (file: File) => restorePortfolio(JSON.parse(await file.text())),
+    onSuccess: (portfolio: { name: string }) => {
+      toast({
+        title: "Success",
+        description: `Restored "${portfolio.name}"`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore portfolio",
+        variant: "destructive",
+      });
+    },
+  });
+
   const filteredPortfolios = portfolios.filter((portfolio: PortfolioWithMetrics) =>
     portfolio.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     (portfolio.description && portfolio.description.toLowerCase().includes(searchTerm.toLowerCase()))
@@ -115,12 +189,42 @@ export default function Portfolios() {
                 <h1 className="text-2xl font-bold text-foreground">My Portfolios</h1>
                 <p className="text-muted-foreground">Manage your investment portfolios across different countries</p>
               </div>
-              <Button onClick={() => setShowCreatePortfolioModal(true)}>
-                <Plus className="w-4 h-4 mr-2" />
-                Create Portfolio
-              </Button>
+              <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+                <Button variant="outline" asChild disabled={restorePortfolioMutation.isPending}>
+                  <label className="cursor-pointer">
+                    <Upload className="w-4 h-4 mr-2" />
+                    {restorePortfolioMutation.isPending ? "Restoring..." : "Restore Backup"}
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) restorePortfolioMutation.mutate(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </Button>
+                {hasTrash && (
+                  <Button variant={showTrash ? "secondary" : "outline"} onClick={() => setShowTrash(!showTrash)}>
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Trash
+                  </Button>
+                )}
+                <Button onClick={() => setShowCreatePortfolioModal(true)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create Portfolio
+                </Button>
+              </div>
             </div>
 
+            {showTrash && (
+              <div className="mb-6">
+                <PortfolioTrash />
+              </div>
+            )}
+
             {/* Search Bar */}
             <div className="flex items-center space-x-4 mb-6">
               <div className="relative flex-1 max-w-md">
@@ -197,13 +301,37 @@ export default function Portfolios() {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
-                          <DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setEditingPortfolio(portfolio)}>
                             <Edit className="mr-2 h-4 w-4" />
                             Edit
                           </DropdownMenuItem>
+                          {/* The Java service reads CAS statements and records their trades in its own store */}
+                          {dataSource.mode === "java" && (
+                            <DropdownMenuItem onClick={() => setCasImportPortfolioId(portfolio.id)}>
+                              <FileUp className="mr-2 h-4 w-4" />
+                              Import CAS Statement
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuSub>
+                            <DropdownMenuSubTrigger>
+                              <Download className="mr-2 h-4 w-4" />
+                              Export
+                            </DropdownMenuSubTrigger>
+                            <DropdownMenuSubContent>
+                              <DropdownMenuItem onClick={() => exportPortfolio(portfolio.id, "csv")}>
+                                CSV
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => exportPortfolio(portfolio.id, "json")}>
+                                JSON backup
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => exportPortfolio(portfolio.id, "ofx")}>
+                                OFX
+                              </DropdownMenuItem>
+                            </DropdownMenuSubContent>
+                          </DropdownMenuSub>
                           <DropdownMenuItem 
                             className="text-destructive"
-                            onClick={() => deletePortfolioMutation.mutate(portfolio.id)}
+                            onClick={() => deletePortfolioMutation.mutate(portfolio)}
                           >
                             <Trash2 className="mr-2 h-4 w-4" />
                             Delete
@@ -292,6 +420,12 @@ export default function Portfolios() {
         onOpenChange={setShowCreatePortfolioModal}
       />
 
+      <CreatePortfolioModal
+        open={!!editingPortfolio}
+        onOpenChange={(open) => !open && setEditingPortfolio(null)}
+        portfolio={editingPortfolio}
+      />
+
       {selectedPortfolioId && (
         <AddTransactionModal
           open={showAddTransactionModal}
@@ -302,6 +436,14 @@ export default function Portfolios() {
           portfolioId={selectedPortfolioId}
         />
       )}
+
+      {casImportPortfolioId && (
+        <CasImportModal
+          open={!!casImportPortfolioId}
+          onOpenChange={(open) => !open && setCasImportPortfolioId("")}
+          portfolioId={casImportPortfolioId}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,242 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Header } from "@/components/layout/header";
+import { Sidebar } from "@/components/layout/sidebar";
+import { AddTransactionModal } from "@/components/portfolio/add-transaction-modal";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Download } from "lucide-react";
+import { downloadTaxReport, fetchTaxReport } from "@/lib/api";
+import { expressDataSource } from "@/lib/data-source";
+import type { PortfolioWithMetrics, TaxReport, TaxTerm } from "@shared/schema";
+
+const termLabels: Record<TaxTerm, string> = {
+  short: "Short term",
+  long: "Long term",
+  none: "—",
+};
+
+export default function TaxReports() {
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<string>("");
+  const [year, setYear] = useState<number | undefined>(undefined);
+  const [showAddTransactionModal, setShowAddTransactionModal] = useState(false);
+  const [downloading, setDownloading] = useState<"csv" | "pdf" | null>(null);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  // Tax reports are this server's, so are the portfolios they can be run for
+  const { data: portfolios = [] } = useQuery<PortfolioWithMetrics[]>({
+    queryKey: ["/api/portfolios", "express"],
+    queryFn: () => expressDataSource.getPortfoliosWithMetrics(),
+  });
+
+  useEffect(() => {
+    if (portfolios.length > 0 && !selectedPortfolioId) {
+      setSelectedPortfolioId(portfolios[0].id);
+    }
+  }, [portfolios, selectedPortfolioId]);
+
+  const { data: report, isLoading } = useQuery<TaxReport>({
+    queryKey: ["/api/portfolios", selectedPortfolioId, "tax-report", year],
+    queryFn: () => fetchTaxReport(selectedPortfolioId, year),
+    enabled: !!selectedPortfolioId,
+  });
+
+  const reportYear = report ? new Date(report.financialYear.end).getUTCFullYear() : undefined;
+  // The current year is always offered, even before anything was sold in it
+  const years = Array.from(new Set([...(reportYear ? [reportYear] : []), ...(report?.years ?? [])])).sort((a, b) => b - a);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: report?.baseCurrency ?? "USD",
+    }).format(amount);
+  };
+
+  const download = async (format: "csv" | "pdf") => {
+    if (!report || !reportYear) return;
+    setDownloading(format);
+    try {
+      await downloadTaxReport(selectedPortfolioId, reportYear, format);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to download tax report",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const summary = report?.summary;
+  const summaryCards = summary ? [
+    { label: "Short-term", value: summary.shortTermGains - summary.shortTermLosses, detail: `${formatCurrency(summary.shortTermGains)} gains · ${formatCurrency(summary.shortTermLosses)} losses` },
+    { label: "Long-term", value: summary.longTermGains - summary.longTermLosses, detail: `${formatCurrency(summary.longTermGains)} gains · ${formatCurrency(summary.longTermLosses)} losses` },
+    { label: "Net gain", value: summary.netGain, detail: `${report!.lines.length} disposals` },
+    { label: "Taxable gain", value: summary.taxableGain, detail: summary.discount > 0 ? `after ${formatCurrency(summary.discount)} CGT discount` : "no discount applied" },
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="flex">
+        <Sidebar
+          onAddTransaction={() => setShowAddTransactionModal(true)}
+          onCreatePortfolio={() => navigate("/portfolios")}
+        />
+
+        <main className="flex-1 p-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Tax Reports</h1>
+              <p className="text-muted-foreground">Realized gains by financial year</p>
+            </div>
+            <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+              <Select
+                value={selectedPortfolioId}
+                onValueChange={(value) => {
+                  setSelectedPortfolioId(value);
+                  setYear(undefined);
+                }}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Select Portfolio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {portfolios.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={reportYear?.toString() ?? ""} onValueChange={(value) => setYear(parseInt(value))}>
+                <SelectTrigger className="w-36">
+                  <SelectValue placeholder="Year" />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map((y) => (
+                    <SelectItem key={y} value={y.toString()}>
+                      {y === reportYear ? report!.financialYear.label : `Year ending ${y}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={() => download("csv")} disabled={!report || downloading !== null}>
+                <Download className="w-4 h-4 mr-2" />
+                CSV
+              </Button>
+              <Button variant="outline" onClick={() => download("pdf")} disabled={!report || downloading !== null}>
+                <Download className="w-4 h-4 mr-2" />
+                PDF
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : !report ? (
+            <p className="text-muted-foreground">Select a portfolio to see its tax report.</p>
+          ) : (
+            <div className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                {new Date(report.financialYear.start).toLocaleDateString()} – {new Date(report.financialYear.end).toLocaleDateString()}
+                {" · "}Tax residency {report.taxResidency}: {report.rules}
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                {summaryCards.map((card) => (
+                  <Card key={card.label}>
+                    <CardContent className="p-6">
+                      <p className="text-sm font-medium text-muted-foreground">{card.label}</p>
+                      <p className={`text-2xl font-bold mt-1 ${card.value >= 0 ? 'text-success' : 'text-destructive'}`}>
+                        {formatCurrency(card.value)}
+                      </p>
+                      <p className="text-sm text-muted-foreground mt-4">{card.detail}</p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Disposals</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {report.lines.length === 0 ? (
+                    <p className="text-muted-foreground">No disposals in {report.financialYear.label}.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b border-border">
+                            <th className="text-left py-2 px-2 font-medium text-muted-foreground">Symbol</th>
+                            <th className="text-left py-2 px-2 font-medium text-muted-foreground">Acquired</th>
+                            <th className="text-left py-2 px-2 font-medium text-muted-foreground">Disposed</th>
+                            <th className="text-right py-2 px-2 font-medium text-muted-foreground">Days held</th>
+                            <th className="text-right py-2 px-2 font-medium text-muted-foreground">Quantity</th>
+                            <th className="text-right py-2 px-2 font-medium text-muted-foreground">Cost basis</th>
+                            <th className="text-right py-2 px-2 font-medium text-muted-foreground">Proceeds</th>
+                            <th className="text-right py-2 px-2 font-medium text-muted-foreground">Gain</th>
+                            <th className="text-left py-2 px-2 font-medium text-muted-foreground">Term</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                          {report.lines.map((line) => (
+                            <tr key={`${line.transactionId}-${line.lotId}`}>
+                              <td className="py-2 px-2">
+                                <span className="font-medium text-foreground">{line.symbol}</span>
+                                <span className="text-xs text-muted-foreground ml-2">{line.instrumentType}</span>
+                              </td>
+                              <td className="py-2 px-2">{new Date(line.acquiredAt).toLocaleDateString()}</td>
+                              <td className="py-2 px-2">{new Date(line.disposedAt).toLocaleDateString()}</td>
+                              <td className="py-2 px-2 text-right">{line.holdingPeriodDays}</td>
+                              <td className="py-2 px-2 text-right">{line.quantity.toLocaleString()}</td>
+                              <td className="py-2 px-2 text-right">{formatCurrency(line.costBasisBase)}</td>
+                              <td className="py-2 px-2 text-right">{formatCurrency(line.proceedsBase)}</td>
+                              <td className={`py-2 px-2 text-right font-medium ${line.realizedGainBase >= 0 ? 'text-success' : 'text-destructive'}`}>
+                                {formatCurrency(line.realizedGainBase)}
+                              </td>
+                              <td className="py-2 px-2">
+                                {termLabels[line.term]}
+                                {line.discountEligible && (
+                                  <Badge variant="secondary" className="ml-2">Discount</Badge>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {report.missingRates.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  No exchange rate for {report.missingRates.join(", ")}; those amounts are shown unconverted.
+                </p>
+              )}
+            </div>
+          )}
+        </main>
+      </div>
+
+      {selectedPortfolioId && (
+        <AddTransactionModal
+          open={showAddTransactionModal}
+          onOpenChange={setShowAddTransactionModal}
+          portfolioId={selectedPortfolioId}
+          source={expressDataSource}
+        />
+      )}
+    </div>
+  );
+}
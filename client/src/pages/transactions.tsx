@@ -0,0 +1,376 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Header } from "@/components/layout/header";
+import { Sidebar } from "@/components/layout/sidebar";
+import { AddTransactionModal } from "@/components/portfolio/add-transaction-modal";
+import { EditTransactionModal } from "@/components/portfolio/edit-transaction-modal";
+import { ImportTransactionsModal } from "@/components/portfolio/import-transactions-modal";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ChevronLeft, ChevronRight, Edit, Plus, Trash2, Upload } from "lucide-react";
+import { deleteTransactions, fetchTransactionPage } from "@/lib/api";
+import { expressDataSource } from "@/lib/data-source";
+import { useToast } from "@/hooks/use-toast";
+import { transactionTypes, type Page, type PortfolioWithMetrics, type Transaction, type TransactionFilter } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+const ALL = "all";
+
+const exchanges = ["NASDAQ", "NYSE", "LSE", "ASX", "TSX", "AEX", "NSE", "BSE"];
+
+export default function Transactions() {
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<string>("");
+  const [filter, setFilter] = useState<TransactionFilter>({});
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<Transaction | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string[] | null>(null);
+  const [showAddTransactionModal, setShowAddTransactionModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // The paged and bulk-deletable history is this server's, so are the portfolios it lists
+  const { data: portfolios = [] } = useQuery<PortfolioWithMetrics[]>({
+    queryKey: ["/api/portfolios", "express"],
+    queryFn: () => expressDataSource.getPortfoliosWithMetrics(),
+  });
+
+  useEffect(() => {
+    if (portfolios.length > 0 && !selectedPortfolioId) {
+      setSelectedPortfolioId(portfolios[0].id);
+    }
+  }, [portfolios, selectedPortfolioId]);
+
+  const { data: transactionPage, isLoading } = useQuery<Page<Transaction>>({
+    queryKey: ["/api/portfolios", selectedPortfolioId, "transactions", "page", filter, page],
+    queryFn: () => fetchTransactionPage(selectedPortfolioId, filter, page, PAGE_SIZE),
+    enabled: !!selectedPortfolioId,
+  });
+  const transactions = transactionPage?.content ?? [];
+
+  // A new filter or portfolio starts again from the first page with nothing selected
+  const updateFilter = (changes: Partial<TransactionFilter>) => {
+    setFilter({ ...filter, ...changes });
+    setPage(0);
+    setSelected(new Set());
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: (ids: string[]) => deleteTransactions(selectedPortfolioId, ids),
+    onSuccess: (result: { message: string }) => {
+      toast({
+        title: "Success",
+        description: `${result.message}; holdings recalculated`,
+      });
+      setSelected(new Set());
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios", selectedPortfolioId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete transactions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelected(next);
+  };
+  const allOnPageSelected = transactions.length > 0 && transactions.every((t) => selected.has(t.id));
+
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(amount);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="flex">
+        <Sidebar
+          onAddTransaction={() => setShowAddTransactionModal(true)}
+          onCreatePortfolio={() => navigate("/portfolios")}
+        />
+
+        <main className="flex-1 p-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Transactions</h1>
+              <p className="text-muted-foreground">Every trade, income payment and corporate action</p>
+            </div>
+            <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+              <Select
+                value={selectedPortfolioId}
+                onValueChange={(value) => {
+                  setSelectedPortfolioId(value);
+                  setPage(0);
+                  setSelected(new Set());
+                }}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Select Portfolio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {portfolios.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={() => setShowImportModal(true)} disabled={!selectedPortfolioId}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+              <Button onClick={() => setShowAddTransactionModal(true)} disabled={!selectedPortfolioId}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Transaction
+              </Button>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+                <CardTitle>
+                  {transactionPage ? `${transactionPage.totalElements.toLocaleString()} transactions` : "Transactions"}
+                </CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    className="w-32"
+                    placeholder="Symbol"
+                    value={filter.symbol ?? ""}
+                    onChange={(e) => updateFilter({ symbol: e.target.value || undefined })}
+                  />
+                  <Select
+                    value={filter.type ?? ALL}
+                    onValueChange={(value) => updateFilter({ type: value === ALL ? undefined : value as TransactionFilter["type"] })}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All types</SelectItem>
+                      {transactionTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {type.toUpperCase()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={filter.exchange ?? ALL}
+                    onValueChange={(value) => updateFilter({ exchange: value === ALL ? undefined : value })}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All exchanges</SelectItem>
+                      {exchanges.map((exchange) => (
+                        <SelectItem key={exchange} value={exchange}>
+                          {exchange}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="date"
+                    className="w-40"
+                    value={filter.from ?? ""}
+                    onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+                  />
+                  <span className="text-muted-foreground">to</span>
+                  <Input
+                    type="date"
+                    className="w-40"
+                    value={filter.to ?? ""}
+                    onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+                  />
+                  {selected.size > 0 && (
+                    <Button
+                      variant="destructive"
+                      onClick={() => setConfirmingDelete(Array.from(selected))}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete {selected.size}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                </div>
+              ) : transactions.length === 0 ? (
+                <div className="text-center py-8">
+                  <p className="text-muted-foreground">No transactions match</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="py-3 px-2 w-8">
+                          <Checkbox
+                            checked={allOnPageSelected}
+                            onCheckedChange={(checked) => {
+                              const next = new Set(selected);
+                              transactions.forEach((t) => (checked ? next.add(t.id) : next.delete(t.id)));
+                              setSelected(next);
+                            }}
+                          />
+                        </th>
+                        <th className="text-left py-3 px-2 text-sm font-medium text-muted-foreground">Date</th>
+                        <th className="text-left py-3 px-2 text-sm font-medium text-muted-foreground">Type</th>
+                        <th className="text-left py-3 px-2 text-sm font-medium text-muted-foreground">Symbol</th>
+                        <th className="text-left py-3 px-2 text-sm font-medium text-muted-foreground">Exchange</th>
+                        <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">Quantity</th>
+                        <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">Price</th>
+                        <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">Amount</th>
+                        <th className="text-right py-3 px-2 text-sm font-medium text-muted-foreground">Realized</th>
+                        <th className="py-3 px-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {transactions.map((transaction) => (
+                        <tr key={transaction.id} className="hover:bg-muted/50">
+                          <td className="py-3 px-2">
+                            <Checkbox
+                              checked={selected.has(transaction.id)}
+                              onCheckedChange={(checked) => toggle(transaction.id, checked === true)}
+                            />
+                          </td>
+                          <td className="py-3 px-2 text-sm">{new Date(transaction.date).toLocaleDateString()}</td>
+                          <td className="py-3 px-2">
+                            <Badge variant={transaction.type === "sell" ? "destructive" : "secondary"}>
+                              {transaction.type.toUpperCase()}
+                            </Badge>
+                          </td>
+                          <td className="py-3 px-2 font-medium text-foreground">{transaction.symbol}</td>
+                          <td className="py-3 px-2 text-sm text-muted-foreground">{transaction.exchange}</td>
+                          <td className="py-3 px-2 text-right text-sm">{parseFloat(transaction.quantity).toLocaleString()}</td>
+                          <td className="py-3 px-2 text-right text-sm">
+                            {formatCurrency(parseFloat(transaction.price), transaction.currency)}
+                          </td>
+                          <td className="py-3 px-2 text-right text-sm font-medium">
+                            {formatCurrency(parseFloat(transaction.totalAmount), transaction.currency)}
+                          </td>
+                          <td className={`py-3 px-2 text-right text-sm ${parseFloat(transaction.realizedGain ?? "0") >= 0 ? 'text-success' : 'text-destructive'}`}>
+                            {transaction.realizedGain !== null
+                              ? formatCurrency(parseFloat(transaction.realizedGain), transaction.currency)
+                              : ""}
+                          </td>
+                          <td className="py-3 px-2">
+                            <div className="flex justify-end space-x-1">
+                              <Button variant="ghost" size="sm" onClick={() => setEditing(transaction)}>
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => setConfirmingDelete([transaction.id])}>
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {transactionPage && transactionPage.totalPages > 1 && (
+                <div className="flex items-center justify-between mt-4">
+                  <p className="text-sm text-muted-foreground">
+                    Page {transactionPage.number + 1} of {transactionPage.totalPages}
+                  </p>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" disabled={transactionPage.first} onClick={() => setPage(page - 1)}>
+                      <ChevronLeft className="w-4 h-4 mr-1" />
+                      Previous
+                    </Button>
+                    <Button variant="outline" size="sm" disabled={transactionPage.last} onClick={() => setPage(page + 1)}>
+                      Next
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+
+      <EditTransactionModal
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        transaction={editing}
+      />
+
+      <AlertDialog open={!!confirmingDelete} onOpenChange={(open) => !open && setConfirmingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {confirmingDelete?.length === 1 ? "this transaction" : `${confirmingDelete?.length} transactions`}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Holdings, tax lots and realized gains are recalculated without them. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (confirmingDelete) deleteMutation.mutate(confirmingDelete);
+                setConfirmingDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {selectedPortfolioId && (
+        <>
+          <AddTransactionModal
+            open={showAddTransactionModal}
+            onOpenChange={setShowAddTransactionModal}
+            portfolioId={selectedPortfolioId}
+            source={expressDataSource}
+          />
+          <ImportTransactionsModal
+            open={showImportModal}
+            onOpenChange={setShowImportModal}
+            portfolioId={selectedPortfolioId}
+          />
+        </>
+      )}
+    </div>
+  );
+}
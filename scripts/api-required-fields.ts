@@ -0,0 +1,24 @@
+/**
+ * Properties of the Java service's schemas that api-swagger.json doesn't mark
+ * required but the client can't do without. The service's springdoc output
+ * lists no required properties at all, so without these every generated field
+ * would be optional and a response missing, say, a holding's quantity would
+ * pass validation. Each list is what the service always sends for that schema
+ * and what server-api.ts reads without a fallback; add a property here, not a
+ * check in the client, when a new transform starts to rely on one.
+ *
+ * Read by scripts/generate-api-types.ts; run `npm run generate:api` after
+ * editing this file.
+ */
+export const requiredFields: Record<string, readonly string[]> = {
+  // Listed by GET /api/portfolios
+  PortfolioEntity: ["pid", "nm"],
+  // Listed by GET /api/holdings
+  HoldingDetailsResponse: [
+    "hid", "pid", "ik", "symbol", "ccy", "exchange", "qty", "avgBuyPrice", "costBase", "currentVal", "ug",
+  ],
+  // Paged by GET /api/trades
+  TradeEntity: ["txId", "pid", "symbol", "exchange", "qty", "tradePrice", "ccy", "trdDt", "trdTypEnum"],
+  // Found by GET /api/instrument/search
+  InstrumentMasterEntity: ["ik", "symbl", "nm"],
+};
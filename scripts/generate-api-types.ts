@@ -0,0 +1,114 @@
+/**
+ * Generate TypeScript types and zod validators for the Java portfolio
+ * service's schemas from api-swagger.json:
+ *
+ *   npm run generate:api
+ *
+ * Each component schema becomes a `<name>Schema` validator and a `<Name>`
+ * type. Properties are required when the swagger file or the overrides in
+ * scripts/api-required-fields.ts list them; the rest may be missing or null,
+ * as the service's JSON serializer writes them.
+ */
+import fs from "fs";
+import path from "path";
+import { requiredFields } from "./api-required-fields";
+
+type SwaggerSchema = {
+  type?: string;
+  format?: string;
+  description?: string;
+  enum?: string[];
+  items?: SwaggerSchema;
+  properties?: Record<string, SwaggerSchema>;
+  additionalProperties?: SwaggerSchema | boolean;
+  required?: string[];
+  $ref?: string;
+};
+
+const root = path.resolve(import.meta.dirname, "..");
+const input = path.join(root, "api-swagger.json");
+const output = path.join(root, "client/src/lib/generated/java-api.ts");
+
+const refName = (ref: string) => ref.replace("#/components/schemas/", "");
+const schemaName = (name: string) => `${name[0].toLowerCase()}${name.slice(1)}Schema`;
+
+function refsOf(schema: SwaggerSchema): string[] {
+  if (schema.$ref) return [refName(schema.$ref)];
+  return [
+    ...(schema.items ? refsOf(schema.items) : []),
+    ...Object.values(schema.properties ?? {}).flatMap(refsOf),
+  ];
+}
+
+function zodFor(schema: SwaggerSchema, indent: string, name?: string): string {
+  if (schema.$ref) return schemaName(refName(schema.$ref));
+  if (schema.enum) return `z.enum([${schema.enum.map(value => JSON.stringify(value)).join(", ")}])`;
+  switch (schema.type) {
+    case "string":
+      return "z.string()";
+    case "integer":
+      return "z.number().int()";
+    case "number":
+      return "z.number()";
+    case "boolean":
+      return "z.boolean()";
+    case "array":
+      return `z.array(${zodFor(schema.items ?? {}, indent)})`;
+    case "object":
+      if (schema.properties) return zodObject(schema, indent, name);
+      return "z.record(z.unknown())";
+    default:
+      return "z.unknown()";
+  }
+}
+
+function zodObject(schema: SwaggerSchema, indent: string, name?: string): string {
+  const required = new Set([...(schema.required ?? []), ...(name ? requiredFields[name] ?? [] : [])]);
+  const lines = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const comment = property.description ? ` // ${property.description}` : "";
+    const optional = required.has(name) ? "" : ".nullish()";
+    return `${indent}  ${name}: ${zodFor(property, `${indent}  `)}${optional},${comment}`;
+  });
+  return `z.object({\n${lines.join("\n")}\n${indent}})`;
+}
+
+// Schemas in an order where each comes after those it refers to
+function dependencyOrder(schemas: Record<string, SwaggerSchema>): string[] {
+  const ordered: string[] = [];
+  const visit = (name: string, path: string[]) => {
+    if (ordered.includes(name)) return;
+    if (path.includes(name)) throw new Error(`Recursive schema ${[...path, name].join(" -> ")} is not supported`);
+    for (const ref of refsOf(schemas[name])) visit(ref, [...path, name]);
+    ordered.push(name);
+  };
+  Object.keys(schemas).sort().forEach(name => visit(name, []));
+  return ordered;
+}
+
+const swagger = JSON.parse(fs.readFileSync(input, "utf8"));
+const schemas: Record<string, SwaggerSchema> = swagger.components?.schemas ?? {};
+
+// An override naming a schema or property the swagger file lacks is stale
+for (const [name, fields] of Object.entries(requiredFields)) {
+  const properties = schemas[name]?.properties;
+  if (!properties) throw new Error(`api-required-fields.ts names ${name}, which api-swagger.json has no object schema for`);
+  const unknown = fields.filter(field => !(field in properties));
+  if (unknown.length > 0) throw new Error(`api-required-fields.ts requires ${name}.${unknown.join(", ")}, which api-swagger.json doesn't define`);
+}
+
+const declarations = dependencyOrder(schemas).map(name => [
+  `export const ${schemaName(name)} = ${zodFor(schemas[name], "", name)};`,
+  `export type ${name} = z.infer<typeof ${schemaName(name)}>;`,
+].join("\n"));
+
+const source = [
+  "// Generated by scripts/generate-api-types.ts from api-swagger.json and\n" +
+    "// scripts/api-required-fields.ts; do not edit.\n" +
+    "// Run `npm run generate:api` after either file changes.",
+  'import { z } from "zod";',
+  ...declarations,
+].join("\n\n") + "\n";
+
+fs.mkdirSync(path.dirname(output), { recursive: true });
+fs.writeFileSync(output, source);
+console.log(`Wrote ${Object.keys(schemas).length} schemas to ${path.relative(root, output)}`);
@@ -3,7 +3,9 @@ import passport from "passport";
 import { Strategy as GoogleStrategy, Profile } from "passport-google-oauth20";
 import { storage } from "./storage";
 import session from "express-session";
-import { User } from "./storage";
+import { randomUUID } from "crypto";
+import type { User } from "@shared/schema";
+import { exchangeJavaToken, javaServiceUrl } from "./java-gateway";
 
 // Configure Google OAuth strategy only if credentials are provided
 if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
@@ -113,11 +115,49 @@ authRouter.get(
   },
   passport.authenticate("google", { failureRedirect: "/login" }),
   (req: Request, res: Response) => {
-    // Successful authentication, redirect to home
-    res.redirect("/");
+    // Successful authentication; sign in to the Java service too when one is configured
+    res.redirect(process.env.JAVA_SERVICE_URL ? "/auth/java" : "/");
   }
 );
 
+const javaRedirectUri = (req: Request) => `${req.protocol}://${req.get("host")}/auth/java/callback`;
+
+// The Java service issues its own tokens for a Google authorization code, so
+// a second round trip to Google (already consented, so usually invisible)
+// gets a code for its /api/auth/token exchange
+authRouter.get("/auth/java", (req: Request, res: Response) => {
+  if (!req.user || !process.env.GOOGLE_CLIENT_ID) {
+    return res.redirect("/login");
+  }
+  const state = randomUUID();
+  req.session.javaAuthState = state;
+  const params = new URLSearchParams({
+    client_id: process.env.GOOGLE_CLIENT_ID,
+    redirect_uri: javaRedirectUri(req),
+    response_type: "code",
+    scope: "openid email profile",
+    login_hint: (req.user as User).email,
+    state,
+  });
+  res.redirect(`https://accounts.google.com/o/oauth2/v2/auth?${params}`);
+});
+
+authRouter.get("/auth/java/callback", async (req: Request, res: Response) => {
+  const { code, state } = req.query;
+  const expectedState = req.session.javaAuthState;
+  delete req.session.javaAuthState;
+  if (!req.user || typeof code !== "string" || !expectedState || state !== expectedState) {
+    return res.redirect("/");
+  }
+  try {
+    req.session.javaToken = await exchangeJavaToken(javaServiceUrl(), code, javaRedirectUri(req));
+  } catch (error) {
+    // The app still works against this server; the gateway asks for a new sign-in
+    console.error("Java service sign-in failed:", (error as Error).message);
+  }
+  res.redirect("/");
+});
+
 // Get current user
 authRouter.get("/auth/me", (req: Request, res: Response) => {
   if (req.user) {
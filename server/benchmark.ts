@@ -0,0 +1,279 @@
+import {
+  performancePeriods,
+  type Benchmark,
+  type BenchmarkComparison,
+  type BenchmarkWindow,
+  type LotReliefMethod,
+  type PerformanceCalculationMethod,
+  type Portfolio,
+  type PortfolioValuation,
+  type PriceHistory,
+  type Transaction,
+  type ValuationInterval,
+  type ValuationPoint,
+  type ValuationRange,
+} from "@shared/schema";
+import { positionCostBefore, sortChronologically, withoutCancelled } from "./lots";
+import { calculatePerformance, type PriceLookup } from "./performance";
+import { historyPriceLookup } from "./price-history";
+import { buildValuationSeries } from "./valuation";
+import type { FxLookup } from "./fx";
+
+const TRADING_DAYS = 252;
+// Fewer daily returns than this say too little about how the two move together
+const MIN_TRADING_DAYS = 10;
+const EPSILON = 1e-9;
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// The transactions a benchmark is measured against: the holding's, or the whole portfolio's
+export function benchmarkSubject(transactions: Transaction[], benchmark: Benchmark): Transaction[] {
+  if (!benchmark.holdingSymbol) return transactions;
+  return transactions.filter(t => t.symbol.toUpperCase() === benchmark.holdingSymbol);
+}
+
+// The benchmark's close on the latest trading day at or before the date; nothing before its history
+export function benchmarkPriceLookup(benchmark: Benchmark, bars: PriceHistory[]): PriceLookup {
+  return historyPriceLookup(new Map([[benchmark.symbol, bars]]), () => undefined);
+}
+
+// Cash put into the position by the transaction, or taken out when negative
+function cashFlow(history: Transaction[], index: number, reliefMethod: LotReliefMethod): number {
+  const transaction = history[index];
+  const quantity = parseFloat(transaction.quantity);
+  const price = parseFloat(transaction.price);
+  const fees = parseFloat(transaction.fees || "0");
+
+  switch (transaction.type) {
+    case "buy":
+      return quantity * price + fees;
+    case "sell":
+      return -(quantity * price - fees);
+    case "dividend":
+      // Only what a DRIP puts back in; cash dividends are income, not a flow
+      return parseFloat(transaction.reinvestedQuantity ?? "0") * parseFloat(transaction.reinvestmentPrice ?? "0");
+    case "adjustment":
+      return quantity * price - positionCostBefore(history.slice(0, index), transaction, reliefMethod);
+    default:
+      return 0;
+  }
+}
+
+function benchmarkTrade(benchmark: Benchmark, source: Transaction, quantity: number, close: number): Transaction {
+  return {
+    id: `${benchmark.id}:${source.id}`,
+    portfolioId: source.portfolioId,
+    symbol: benchmark.symbol,
+    type: quantity > 0 ? "buy" : "sell",
+    quantity: Math.abs(quantity).toString(),
+    price: close.toString(),
+    totalAmount: (Math.abs(quantity) * close).toString(),
+    fees: "0",
+    currency: benchmark.currency,
+    exchange: benchmark.exchange ?? "",
+    instrumentType: "STK",
+    date: source.date,
+    splitRatio: null,
+    relatedSymbol: null,
+    costApportionment: null,
+    relatedTransactionId: null,
+    withholdingTax: null,
+    frankingCredits: null,
+    reinvestedQuantity: null,
+    reinvestmentPrice: null,
+    reliefMethod: null,
+    lotSelections: null,
+    realizedGain: null,
+    createdAt: source.createdAt,
+  };
+}
+
+/**
+ * The subject's cash flows invested in the benchmark instead: every purchase
+ * buys the benchmark at that day's close and every sale sells as much of it,
+ * converted into the benchmark's currency at the day's rate. Flows on days
+ * before the benchmark's price history, or in a currency with no rate to the
+ * benchmark's, can't be mirrored and are left out.
+ */
+export function benchmarkTransactions(
+  subject: Transaction[],
+  benchmark: Benchmark,
+  price: PriceLookup,
+  fx: FxLookup,
+  reliefMethod: LotReliefMethod,
+): { transactions: Transaction[]; unpricedDates: string[]; missingRates: string[] } {
+  const history = sortChronologically(withoutCancelled(subject));
+  const transactions: Transaction[] = [];
+  const unpricedDates = new Set<string>();
+  const missingRates = new Set<string>();
+  let units = 0;
+
+  history.forEach((transaction, index) => {
+    const amount = cashFlow(history, index, reliefMethod);
+    if (Math.abs(amount) < EPSILON) return;
+
+    const close = price(benchmark.symbol, transaction.date);
+    if (!close) {
+      unpricedDates.add(dayKey(transaction.date));
+      return;
+    }
+    const rate = transaction.currency === benchmark.currency
+      ? 1
+      : fx(transaction.currency, benchmark.currency, transaction.date);
+    if (rate === undefined) {
+      missingRates.add(`${transaction.currency}-${benchmark.currency}`);
+      return;
+    }
+    // Never sell more of the benchmark than the mirrored purchases bought
+    const quantity = Math.max((amount * rate) / close, -units);
+    if (Math.abs(quantity) < EPSILON) return;
+
+    units += quantity;
+    transactions.push(benchmarkTrade(benchmark, transaction, quantity, close));
+  });
+
+  return { transactions, unpricedDates: Array.from(unpricedDates), missingRates: Array.from(missingRates) };
+}
+
+// Each trading day's return on the value at the previous one, net of contributions in between
+function dailyReturns(points: ValuationPoint[], tradingDays: Set<string>): Map<string, number> {
+  const returns = new Map<string, number>();
+  let previous: ValuationPoint | undefined;
+  for (const point of points.filter(p => tradingDays.has(p.date))) {
+    if (previous && previous.marketValue > EPSILON) {
+      const contributions = point.netContributions - previous.netContributions;
+      returns.set(point.date, (point.marketValue - contributions) / previous.marketValue - 1);
+    }
+    previous = point;
+  }
+  return returns;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Annualized alpha (the return beta doesn't explain, with no risk-free rate),
+ * beta (the covariance with the benchmark over its variance) and tracking
+ * error (the spread of the difference between the two) of daily returns.
+ */
+function riskStatistics(own: number[], benchmark: number[]) {
+  if (own.length < MIN_TRADING_DAYS) return { alphaPercent: null, beta: null, trackingErrorPercent: null };
+
+  const ownMean = mean(own);
+  const benchmarkMean = mean(benchmark);
+  const differences = own.map((value, i) => value - benchmark[i]);
+  const differenceMean = mean(differences);
+  const n = own.length - 1;
+
+  const covariance = own.reduce((sum, value, i) => sum + (value - ownMean) * (benchmark[i] - benchmarkMean), 0) / n;
+  const variance = benchmark.reduce((sum, value) => sum + (value - benchmarkMean) ** 2, 0) / n;
+  const trackingVariance = differences.reduce((sum, value) => sum + (value - differenceMean) ** 2, 0) / n;
+
+  const beta = variance > 0 ? covariance / variance : null;
+  return {
+    alphaPercent: beta === null ? null : (ownMean - beta * benchmarkMean) * TRADING_DAYS * 100,
+    beta,
+    trackingErrorPercent: Math.sqrt(trackingVariance * TRADING_DAYS) * 100,
+  };
+}
+
+/**
+ * Compare a portfolio, or the holding the benchmark belongs to, with the
+ * benchmark over the performance windows ending at `asOf`. Both returns use
+ * the same method over the same cash flows; `bars` are the benchmark's daily
+ * closes, oldest first, and its trading days are the ones risk is measured on.
+ */
+export function compareWithBenchmark(
+  portfolio: Portfolio,
+  benchmark: Benchmark,
+  transactions: Transaction[],
+  method: PerformanceCalculationMethod,
+  price: PriceLookup,
+  bars: PriceHistory[],
+  fx: FxLookup,
+  asOf: Date = new Date(),
+): BenchmarkComparison {
+  const subject = benchmarkSubject(transactions, benchmark);
+  const benchmarkPrice = benchmarkPriceLookup(benchmark, bars);
+  const mirrored = benchmarkTransactions(subject, benchmark, benchmarkPrice, fx, portfolio.lotReliefMethod as LotReliefMethod);
+
+  const own = calculatePerformance(portfolio, subject, method, price, fx, performancePeriods, asOf);
+  const theirs = calculatePerformance(portfolio, mirrored.transactions, method, benchmarkPrice, fx, performancePeriods, asOf);
+
+  const inception = own.inceptionDate ?? undefined;
+  const tradingDays = new Set(bars.map(bar => bar.date));
+  const ownReturns = dailyReturns(
+    buildValuationSeries(portfolio, subject, price, fx, "ALL", "day", asOf).points,
+    tradingDays,
+  );
+  const benchmarkReturns = dailyReturns(
+    buildValuationSeries(portfolio, mirrored.transactions, benchmarkPrice, fx, "ALL", "day", asOf, inception).points,
+    tradingDays,
+  );
+
+  const windows = own.windows.map((window, i): BenchmarkWindow => {
+    const benchmarkReturn = theirs.windows[i].returnPercent;
+    const start = dayKey(window.startDate);
+    const end = dayKey(window.endDate);
+    const days = Array.from(ownReturns.keys())
+      .filter(day => day > start && day <= end && benchmarkReturns.has(day));
+
+    return {
+      period: window.period,
+      startDate: window.startDate,
+      endDate: window.endDate,
+      returnPercent: window.returnPercent,
+      benchmarkReturnPercent: benchmarkReturn,
+      excessReturnPercent: window.returnPercent === null || benchmarkReturn === null
+        ? null
+        : window.returnPercent - benchmarkReturn,
+      ...riskStatistics(days.map(day => ownReturns.get(day)!), days.map(day => benchmarkReturns.get(day)!)),
+    };
+  });
+
+  return {
+    benchmark,
+    method,
+    asOf,
+    windows,
+    unpricedDates: mirrored.unpricedDates,
+    missingRates: mirrored.missingRates,
+  };
+}
+
+/**
+ * Add what the valued transactions' cash flows would be worth invested in the
+ * benchmark to each point of their valuation, sampled on the same dates.
+ */
+export function withBenchmarkValues(
+  valuation: PortfolioValuation,
+  portfolio: Portfolio,
+  benchmark: Benchmark,
+  transactions: Transaction[],
+  bars: PriceHistory[],
+  fx: FxLookup,
+  range: ValuationRange,
+  interval: ValuationInterval,
+  asOf: Date = new Date(),
+): PortfolioValuation {
+  const history = sortChronologically(withoutCancelled(transactions)).filter(t => t.date <= asOf);
+  if (history.length === 0) return valuation;
+
+  const benchmarkPrice = benchmarkPriceLookup(benchmark, bars);
+  const mirrored = benchmarkTransactions(history, benchmark, benchmarkPrice, fx, portfolio.lotReliefMethod as LotReliefMethod);
+  if (mirrored.transactions.length === 0) return valuation;
+  const series = buildValuationSeries(
+    portfolio, mirrored.transactions, benchmarkPrice, fx, range, interval, asOf, history[0].date,
+  );
+  const values = new Map(series.points.map(point => [point.date, point.marketValue]));
+
+  return {
+    ...valuation,
+    points: valuation.points.map(point => ({ ...point, benchmarkValue: values.get(point.date) ?? 0 })),
+    missingRates: Array.from(new Set([...valuation.missingRates, ...mirrored.missingRates, ...series.missingRates])),
+  };
+}
@@ -0,0 +1,83 @@
+import type { Holding, HoldingWithMetrics, LotReliefMethod, Portfolio, Transaction } from "@shared/schema";
+import { buildLotLedger } from "./lots";
+import type { FxLookup } from "./fx";
+
+export type HoldingBaseMetrics = Pick<
+  HoldingWithMetrics,
+  "baseCurrency" | "fxRate" | "currentValueBase" | "totalCostBase" | "totalGainBase" | "priceGainBase" | "currencyGainBase"
+>;
+
+export type Consolidation = {
+  holdings: Map<string, HoldingBaseMetrics>; // by holding id
+  totalValue: number;
+  totalCost: number;
+  priceGain: number;
+  currencyGain: number;
+  missingRates: string[];
+};
+
+/**
+ * Convert each holding into the portfolio's base currency: value at today's
+ * rate, cost at the rates on the trade dates of its open lots (today's rate
+ * when it has no lots, so no currency gain). The gain splits into the price
+ * move valued at today's rate and the rate move applied to the cost.
+ */
+export function consolidateHoldings(
+  portfolio: Portfolio,
+  holdings: Holding[],
+  transactions: Transaction[],
+  fx: FxLookup,
+  asOf: Date = new Date(),
+): Consolidation {
+  const baseCurrency = portfolio.baseCurrency;
+  const missingRates = new Set<string>();
+  const rate = (currency: string, date: Date) => {
+    const found = fx(currency, baseCurrency, date);
+    if (found === undefined) missingRates.add(`${currency}-${baseCurrency}`);
+    return found;
+  };
+
+  const openLots = buildLotLedger(transactions, portfolio.lotReliefMethod as LotReliefMethod, asOf).openLots;
+
+  const consolidation: Consolidation = {
+    holdings: new Map(),
+    totalValue: 0,
+    totalCost: 0,
+    priceGain: 0,
+    currencyGain: 0,
+    missingRates: [],
+  };
+
+  for (const holding of holdings) {
+    const quantity = parseFloat(holding.quantity);
+    const value = parseFloat(holding.currentPrice || "0") * quantity;
+    const cost = parseFloat(holding.averageCost) * quantity;
+    const fxRate = rate(holding.currency, asOf) ?? null;
+    const currentRate = fxRate ?? 1;
+
+    // Cost-weighted rate on the days the held lots were bought
+    const lots = openLots.filter(lot => lot.symbol === holding.symbol && lot.costBasis > 0);
+    const lotCost = lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+    const costRate = lotCost > 0
+      ? lots.reduce((sum, lot) => sum + lot.costBasis * (rate(lot.currency, lot.openDate) ?? 1), 0) / lotCost
+      : currentRate;
+
+    const metrics: HoldingBaseMetrics = {
+      baseCurrency,
+      fxRate,
+      currentValueBase: value * currentRate,
+      totalCostBase: cost * costRate,
+      totalGainBase: value * currentRate - cost * costRate,
+      priceGainBase: (value - cost) * currentRate,
+      currencyGainBase: cost * (currentRate - costRate),
+    };
+    consolidation.holdings.set(holding.id, metrics);
+    consolidation.totalValue += metrics.currentValueBase;
+    consolidation.totalCost += metrics.totalCostBase;
+    consolidation.priceGain += metrics.priceGainBase;
+    consolidation.currencyGain += metrics.currencyGainBase;
+  }
+
+  consolidation.missingRates = Array.from(missingRates);
+  return consolidation;
+}
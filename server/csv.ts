@@ -0,0 +1,18 @@
+export type CsvValue = string | number | null | undefined;
+
+// Text a spreadsheet would run as a formula; plain numbers such as "-12.5" are left alone
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?(e[+-]?\d+)?$/i;
+
+// Quote a field when it holds a delimiter, quote or line break (RFC 4180), and
+// defuse one that would open as a formula by prefixing a '
+function formatField(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (FORMULA_START.test(text) && !PLAIN_NUMBER.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(formatField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,89 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { InsertTransaction } from "@shared/schema";
+import { DbStorage } from "./db-storage";
+
+// drizzle-kit's ESM build can't load its own dependencies, so its CommonJS one is required
+const { generateDrizzleJson, generateMigration } =
+  createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+function trade(portfolioId: string, fields: Partial<InsertTransaction>): InsertTransaction {
+  return {
+    portfolioId,
+    symbol: "AAPL",
+    type: "buy",
+    quantity: "10",
+    price: "100",
+    totalAmount: "1000",
+    currency: "USD",
+    exchange: "NASDAQ",
+    date: new Date("2024-01-02T00:00:00Z"),
+    ...fields,
+  };
+}
+
+describe("DbStorage", () => {
+  // An in-process Postgres with the tables as db:push would create them
+  const client = new PGlite();
+  const storage = new DbStorage(drizzle({ client, schema }));
+  let userId: string;
+
+  before(async () => {
+    for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+      await client.exec(statement);
+    }
+    ({ id: userId } = await storage.createUser({ googleId: "google-1", email: "jo@example.com", name: "Jo" }));
+  });
+
+  after(() => client.close());
+
+  it("replays buys and sells into holdings and realized gains", async () => {
+    const portfolio = await storage.createPortfolio(userId, { name: "Growth" });
+
+    await storage.createTransaction(userId, trade(portfolio.id, {}));
+    await storage.createTransaction(userId, trade(portfolio.id, {
+      price: "120", totalAmount: "1200", date: new Date("2024-02-01T00:00:00Z"),
+    }));
+    const sell = await storage.createTransaction(userId, trade(portfolio.id, {
+      type: "sell", quantity: "15", price: "150", totalAmount: "2250", date: new Date("2024-03-01T00:00:00Z"),
+    }));
+
+    // FIFO relieves all of the first lot and half of the second
+    assert.equal(Number(sell?.realizedGain), 10 * 50 + 5 * 30);
+    const [holding] = await storage.getHoldings(userId, portfolio.id);
+    assert.equal(holding.symbol, "AAPL");
+    assert.equal(Number(holding.quantity), 5);
+    assert.equal(Number(holding.averageCost), 120);
+  });
+
+  it("replays the holding again when a transaction is updated or deleted", async () => {
+    const portfolio = await storage.createPortfolio(userId, { name: "Income" });
+    const buy = await storage.createTransaction(userId, trade(portfolio.id, {}));
+    const sell = await storage.createTransaction(userId, trade(portfolio.id, {
+      type: "sell", quantity: "4", price: "150", totalAmount: "600", date: new Date("2024-03-01T00:00:00Z"),
+    }));
+
+    await storage.updateTransaction(userId, buy!.id, { quantity: "12", totalAmount: "1200" });
+    let [holding] = await storage.getHoldings(userId, portfolio.id);
+    assert.equal(Number(holding.quantity), 8);
+
+    assert.equal(await storage.deleteTransactions(userId, portfolio.id, [sell!.id]), 1);
+    [holding] = await storage.getHoldings(userId, portfolio.id);
+    assert.equal(Number(holding.quantity), 12);
+
+    await storage.deleteTransactions(userId, portfolio.id, [buy!.id]);
+    assert.deepEqual(await storage.getHoldings(userId, portfolio.id), []);
+  });
+
+  it("leaves other users' portfolios alone", async () => {
+    const portfolio = await storage.createPortfolio(userId, { name: "Private" });
+    const other = await storage.createUser({ googleId: "google-2", email: "sam@example.com", name: "Sam" });
+
+    assert.equal(await storage.createTransaction(other.id, trade(portfolio.id, {})), undefined);
+    assert.deepEqual(await storage.getHoldings(userId, portfolio.id), []);
+  });
+});
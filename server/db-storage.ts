@@ -0,0 +1,735 @@
+import { and, asc, count, desc, eq, gte, ilike, inArray, isNotNull, isNull, lt, lte, sql, type SQL } from "drizzle-orm";
+import {
+  portfolios,
+  holdings,
+  transactions,
+  importTemplates,
+  benchmarks,
+  currencies,
+  currencyHistory,
+  marketData,
+  priceHistory,
+  users,
+  type Portfolio,
+  type InsertPortfolio,
+  type Holding,
+  type InsertHolding,
+  type Transaction,
+  type InsertTransaction,
+  type Currency,
+  type InsertCurrency,
+  type CurrencyHistory,
+  type InsertCurrencyHistory,
+  type MarketData,
+  type InsertMarketData,
+  type PriceHistory,
+  type InsertPriceHistory,
+  type User,
+  type InsertUser,
+  type LotReliefMethod,
+  type PortfolioWithMetrics,
+  type HoldingWithMetrics,
+  type Page,
+  type TransactionFilter,
+  type ImportTemplate,
+  type InsertImportTemplate,
+  type Benchmark,
+  type InsertBenchmark
+} from "@shared/schema";
+import type { Database } from "./db";
+import { pageOf, type HeldInstrument, type HoldingUpdate, type IStorage } from "./storage";
+import { buildLotLedger, positionFromLedger, realizedGainByTransaction, sortChronologically } from "./lots";
+import { isPriceStale } from "./market-data/trading-hours";
+import { consolidateHoldings } from "./consolidation";
+import { trailingIncome } from "./income";
+import { storedFxLookup } from "./fx";
+import { calculatePerformance } from "./performance";
+import { portfolioPriceLookup } from "./price-history";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Postgres-backed storage using the drizzle tables in shared/schema.ts.
+ * Mirrors the behaviour of MemStorage so the two can be swapped freely.
+ */
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Run the work against a storage bound to one database transaction, so a
+  // write and the holdings replay it sets off commit or roll back together
+  private inTransaction<T>(work: (store: DbStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(tx => work(new DbStorage(tx)));
+  }
+
+  // Users
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.googleId, googleId));
+    return user;
+  }
+
+  async getUserById(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUserToken(userId: string, accessToken: string): Promise<User> {
+    const [user] = await this.db
+      .update(users)
+      .set({ accessToken })
+      .where(eq(users.id, userId))
+      .returning();
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+
+  // Portfolios
+  async getPortfolios(userId: string): Promise<Portfolio[]> {
+    return this.db.select().from(portfolios).where(and(eq(portfolios.userId, userId), isNull(portfolios.deletedAt)));
+  }
+
+  async getPortfolio(userId: string, id: string): Promise<Portfolio | undefined> {
+    const [portfolio] = await this.db
+      .select()
+      .from(portfolios)
+      .where(and(eq(portfolios.id, id), eq(portfolios.userId, userId), isNull(portfolios.deletedAt)));
+    return portfolio;
+  }
+
+  async createPortfolio(userId: string, insertPortfolio: InsertPortfolio): Promise<Portfolio> {
+    const [portfolio] = await this.db
+      .insert(portfolios)
+      .values({ ...insertPortfolio, userId })
+      .returning();
+    return portfolio;
+  }
+
+  async updatePortfolio(userId: string, id: string, update: Partial<InsertPortfolio>): Promise<Portfolio | undefined> {
+    const existing = await this.getPortfolio(userId, id);
+    if (!existing) return undefined;
+
+    return this.inTransaction(async store => {
+      const [portfolio] = await store.db
+        .update(portfolios)
+        .set(update)
+        .where(and(eq(portfolios.id, id), eq(portfolios.userId, userId), isNull(portfolios.deletedAt)))
+        .returning();
+
+      // Another relief method relieves other lots, so holdings and realized gains replay
+      if (portfolio.lotReliefMethod !== existing.lotReliefMethod) {
+        const portfolioTransactions = await store.db.select().from(transactions).where(eq(transactions.portfolioId, id));
+        if (portfolioTransactions.length > 0) {
+          const symbols = await store.symbolsTouchedBy(userId, portfolioTransactions);
+          await store.syncHoldingsFromLedger(id, symbols, portfolioTransactions[0]);
+        }
+      }
+      return portfolio;
+    });
+  }
+
+  async deletePortfolio(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .update(portfolios)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(portfolios.id, id), eq(portfolios.userId, userId), isNull(portfolios.deletedAt)))
+      .returning({ id: portfolios.id });
+    return deleted.length > 0;
+  }
+
+  async getDeletedPortfolios(userId: string): Promise<Portfolio[]> {
+    return this.db
+      .select()
+      .from(portfolios)
+      .where(and(eq(portfolios.userId, userId), isNotNull(portfolios.deletedAt)))
+      .orderBy(desc(portfolios.deletedAt));
+  }
+
+  async undeletePortfolio(userId: string, id: string): Promise<Portfolio | undefined> {
+    const [portfolio] = await this.db
+      .update(portfolios)
+      .set({ deletedAt: null })
+      .where(and(eq(portfolios.id, id), eq(portfolios.userId, userId), isNotNull(portfolios.deletedAt)))
+      .returning();
+    return portfolio;
+  }
+
+  // Holdings, transactions and benchmarks go with the portfolio, as their foreign keys cascade
+  async purgePortfolio(userId: string, id: string): Promise<boolean> {
+    const purged = await this.db
+      .delete(portfolios)
+      .where(and(eq(portfolios.id, id), eq(portfolios.userId, userId), isNotNull(portfolios.deletedAt)))
+      .returning({ id: portfolios.id });
+    return purged.length > 0;
+  }
+
+  async getPortfolioWithMetrics(userId: string, id: string): Promise<PortfolioWithMetrics | undefined> {
+    const portfolio = await this.getPortfolio(userId, id);
+    if (!portfolio) return undefined;
+
+    const portfolioHoldings = await this.getHoldings(userId, id);
+    const portfolioTransactions = await this.getTransactions(userId, id);
+
+    const fx = await storedFxLookup(this);
+    const { totalValue, totalCost, priceGain, currencyGain, missingRates } =
+      consolidateHoldings(portfolio, portfolioHoldings, portfolioTransactions, fx);
+
+    const totalGain = totalValue - totalCost;
+    let totalGainPercent = totalCost > 0 ? (totalGain / totalCost) * 100 : 0;
+
+    // TWRR and MWRR portfolios report their since-inception return instead
+    if (portfolio.performanceCalculationMethod === "TWRR" || portfolio.performanceCalculationMethod === "MWRR") {
+      const price = await portfolioPriceLookup(this, portfolioTransactions, portfolioHoldings);
+      const [sinceInception] = calculatePerformance(portfolio, portfolioTransactions, portfolio.performanceCalculationMethod, price, fx, ["ITD"]).windows;
+      totalGainPercent = sinceInception.returnPercent ?? totalGainPercent;
+    }
+
+    // Dividend yield over the trailing twelve months
+    const annualDividends = trailingIncome(portfolioTransactions, portfolio.baseCurrency, fx);
+    const dividendYield = totalValue > 0 ? (annualDividends / totalValue) * 100 : 0;
+
+    return {
+      ...portfolio,
+      totalValue,
+      totalCost,
+      totalGain,
+      totalGainPercent,
+      priceGain,
+      currencyGain,
+      dividendYield,
+      holdingsCount: portfolioHoldings.length,
+      missingRates,
+    };
+  }
+
+  // True when the portfolio exists, belongs to the user and isn't in the trash
+  private async ownsPortfolio(userId: string, portfolioId: string): Promise<boolean> {
+    return !!(await this.getPortfolio(userId, portfolioId));
+  }
+
+  // Holdings
+  async getHoldings(userId: string, portfolioId: string): Promise<Holding[]> {
+    if (!(await this.ownsPortfolio(userId, portfolioId))) return [];
+    return this.db.select().from(holdings).where(eq(holdings.portfolioId, portfolioId));
+  }
+
+  async getHolding(userId: string, id: string): Promise<Holding | undefined> {
+    const [row] = await this.db
+      .select({ holding: holdings })
+      .from(holdings)
+      .innerJoin(portfolios, eq(holdings.portfolioId, portfolios.id))
+      .where(and(eq(holdings.id, id), eq(portfolios.userId, userId), isNull(portfolios.deletedAt)));
+    return row?.holding;
+  }
+
+  async createHolding(userId: string, insertHolding: InsertHolding): Promise<Holding | undefined> {
+    if (!(await this.ownsPortfolio(userId, insertHolding.portfolioId))) return undefined;
+    const [holding] = await this.db.insert(holdings).values(insertHolding).returning();
+    return holding;
+  }
+
+  async updateHolding(userId: string, id: string, update: HoldingUpdate): Promise<Holding | undefined> {
+    if (!(await this.getHolding(userId, id))) return undefined;
+    return this.applyHoldingUpdate(id, update);
+  }
+
+  private async applyHoldingUpdate(id: string, update: Partial<Holding>): Promise<Holding | undefined> {
+    const { id: _id, portfolioId: _portfolioId, ...changes } = update;
+    const [holding] = await this.db
+      .update(holdings)
+      .set({ ...changes, lastUpdated: new Date() })
+      .where(eq(holdings.id, id))
+      .returning();
+    return holding;
+  }
+
+  async deleteHolding(userId: string, id: string): Promise<boolean> {
+    if (!(await this.getHolding(userId, id))) return false;
+    const deleted = await this.db
+      .delete(holdings)
+      .where(eq(holdings.id, id))
+      .returning({ id: holdings.id });
+    return deleted.length > 0;
+  }
+
+  async getHoldingsWithMetrics(userId: string, portfolioId: string): Promise<HoldingWithMetrics[]> {
+    const portfolio = await this.getPortfolio(userId, portfolioId);
+    if (!portfolio) return [];
+    const portfolioHoldings = await this.getHoldings(userId, portfolioId);
+    const consolidation = consolidateHoldings(
+      portfolio,
+      portfolioHoldings,
+      await this.getTransactions(userId, portfolioId),
+      await storedFxLookup(this),
+    );
+    const symbols = Array.from(new Set(portfolioHoldings.map(h => h.symbol)));
+    const quotes = await this.getMarketDataBatch(symbols);
+    const quoteKey = (symbol: string, exchange: string) => `${symbol}|${exchange}`;
+    const quotesBySymbol = new Map(quotes.map(q => [quoteKey(q.symbol, q.exchange), q]));
+
+    return portfolioHoldings.map(holding => {
+      const currentPrice = parseFloat(holding.currentPrice || "0");
+      const quantity = parseFloat(holding.quantity);
+      const averageCost = parseFloat(holding.averageCost);
+
+      const currentValue = currentPrice * quantity;
+      const totalCost = averageCost * quantity;
+      const totalGain = currentValue - totalCost;
+      const totalGainPercent = totalCost > 0 ? (totalGain / totalCost) * 100 : 0;
+
+      const quote = quotesBySymbol.get(quoteKey(holding.symbol, holding.exchange));
+      // Only a fetched quote dates the price; editing the holding bumps its own lastUpdated
+      const priceAsOf = quote?.lastUpdated ?? null;
+
+      return {
+        ...holding,
+        currentValue,
+        totalGain,
+        totalGainPercent,
+        marketData: quote,
+        ...consolidation.holdings.get(holding.id)!,
+        priceAsOf,
+        isStale: isPriceStale(holding.exchange, priceAsOf),
+      };
+    });
+  }
+
+  // Transactions
+  async getTransactions(userId: string, portfolioId: string): Promise<Transaction[]> {
+    if (!(await this.ownsPortfolio(userId, portfolioId))) return [];
+    return this.db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.portfolioId, portfolioId))
+      .orderBy(desc(transactions.date));
+  }
+
+  async getTransaction(userId: string, id: string): Promise<Transaction | undefined> {
+    const [row] = await this.db
+      .select({ transaction: transactions })
+      .from(transactions)
+      .innerJoin(portfolios, eq(transactions.portfolioId, portfolios.id))
+      .where(and(eq(transactions.id, id), eq(portfolios.userId, userId), isNull(portfolios.deletedAt)));
+    return row?.transaction;
+  }
+
+  async createTransaction(userId: string, insertTransaction: InsertTransaction): Promise<Transaction | undefined> {
+    if (!(await this.ownsPortfolio(userId, insertTransaction.portfolioId))) return undefined;
+
+    return this.inTransaction(async store => {
+      const [transaction] = await store.db
+        .insert(transactions)
+        .values({ ...insertTransaction, fees: insertTransaction.fees || "0" })
+        .returning();
+
+      // Update every holding the transaction touches
+      const symbols = await store.symbolsTouchedBy(userId, [transaction]);
+      await store.syncHoldingsFromLedger(transaction.portfolioId, symbols, transaction);
+
+      return transaction.type === 'sell' || transaction.type === 'roc'
+        ? store.getTransaction(userId, transaction.id)
+        : transaction;
+    });
+  }
+
+  async createTransactions(userId: string, portfolioId: string, insertTransactions: InsertTransaction[]): Promise<Transaction[] | undefined> {
+    if (!(await this.ownsPortfolio(userId, portfolioId))) return undefined;
+    if (insertTransactions.length === 0) return [];
+
+    return this.inTransaction(async store => {
+      const created = await store.db
+        .insert(transactions)
+        .values(insertTransactions.map(t => ({ ...t, portfolioId, fees: t.fees || "0" })))
+        .returning();
+
+      const symbols = await store.symbolsTouchedBy(userId, created);
+      await store.syncHoldingsFromLedger(portfolioId, symbols, created[created.length - 1]);
+
+      // Re-read for the realized gains the replay set
+      const ids = created.map(t => t.id);
+      const saved = await store.db.select().from(transactions).where(inArray(transactions.id, ids));
+      const byId = new Map(saved.map(t => [t.id, t]));
+      return ids.map(id => byId.get(id)!);
+    });
+  }
+
+  async getRecentTransactions(userId: string, portfolioId: string, limit: number = 5): Promise<Transaction[]> {
+    if (!(await this.ownsPortfolio(userId, portfolioId))) return [];
+    return this.db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.portfolioId, portfolioId))
+      .orderBy(desc(transactions.date))
+      .limit(limit);
+  }
+
+  async getTransactionPage(
+    userId: string,
+    portfolioId: string,
+    filter: TransactionFilter,
+    page: number,
+    size: number,
+  ): Promise<Page<Transaction>> {
+    if (!(await this.ownsPortfolio(userId, portfolioId))) return pageOf([], page, size, 0);
+
+    const conditions: SQL[] = [eq(transactions.portfolioId, portfolioId)];
+    if (filter.type) conditions.push(eq(transactions.type, filter.type));
+    if (filter.symbol) conditions.push(ilike(transactions.symbol, `%${filter.symbol}%`));
+    if (filter.exchange) conditions.push(eq(transactions.exchange, filter.exchange));
+    if (filter.from) conditions.push(gte(transactions.date, new Date(`${filter.from}T00:00:00Z`)));
+    if (filter.to) conditions.push(lt(transactions.date, new Date(new Date(`${filter.to}T00:00:00Z`).getTime() + DAY_MS)));
+    const where = and(...conditions);
+
+    const [{ total }] = await this.db.select({ total: count() }).from(transactions).where(where);
+    const content = await this.db
+      .select()
+      .from(transactions)
+      .where(where)
+      .orderBy(desc(transactions.date), desc(transactions.createdAt))
+      .limit(size)
+      .offset(page * size);
+    return pageOf(content, page, size, total);
+  }
+
+  async updateTransaction(userId: string, id: string, update: Partial<InsertTransaction>): Promise<Transaction | undefined> {
+    const existing = await this.getTransaction(userId, id);
+    if (!existing) return undefined;
+
+    const { portfolioId: _portfolioId, ...changes } = update;
+    return this.inTransaction(async store => {
+      // The replay sets realized gains afresh for sells and returns of capital
+      const [transaction] = await store.db
+        .update(transactions)
+        .set({ ...changes, realizedGain: null })
+        .where(eq(transactions.id, id))
+        .returning();
+
+      // Holdings of both the old and the new symbols may have changed
+      const symbols = await store.symbolsTouchedBy(userId, [existing, transaction]);
+      await store.syncHoldingsFromLedger(transaction.portfolioId, symbols, transaction);
+
+      return store.getTransaction(userId, id);
+    });
+  }
+
+  async deleteTransactions(userId: string, portfolioId: string, ids: string[]): Promise<number> {
+    if (ids.length === 0 || !(await this.ownsPortfolio(userId, portfolioId))) return 0;
+    const matching = and(eq(transactions.portfolioId, portfolioId), inArray(transactions.id, ids));
+    return this.inTransaction(async store => {
+      const toDelete = await store.db.select().from(transactions).where(matching);
+      if (toDelete.length === 0) return 0;
+
+      const symbols = await store.symbolsTouchedBy(userId, toDelete);
+      await store.db.delete(transactions).where(matching);
+      await store.syncHoldingsFromLedger(portfolioId, symbols, toDelete[0]);
+      return toDelete.length;
+    });
+  }
+
+  // Symbols whose holdings the transactions affect, including those of trades they cancel
+  private async symbolsTouchedBy(userId: string, changed: Transaction[]): Promise<string[]> {
+    const symbols: (string | null | undefined)[] = [];
+    for (const transaction of changed) {
+      const related = transaction.relatedTransactionId
+        ? await this.getTransaction(userId, transaction.relatedTransactionId)
+        : undefined;
+      symbols.push(transaction.symbol, transaction.relatedSymbol, related?.symbol, related?.relatedSymbol);
+    }
+    return Array.from(new Set(symbols.filter((symbol): symbol is string => !!symbol)));
+  }
+
+  // Rebuild the holdings of the given symbols, and the realized gain of every
+  // sell and return of capital, by replaying the portfolio through the lot ledger
+  private async syncHoldingsFromLedger(portfolioId: string, symbols: string[], template: Transaction) {
+    const [portfolio] = await this.db.select().from(portfolios).where(eq(portfolios.id, portfolioId));
+    if (!portfolio) return;
+
+    const portfolioTransactions = await this.db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.portfolioId, portfolioId));
+    const ledger = buildLotLedger(portfolioTransactions, portfolio.lotReliefMethod as LotReliefMethod);
+
+    const gains = realizedGainByTransaction(ledger);
+    for (const t of portfolioTransactions) {
+      if (t.type !== 'sell' && t.type !== 'roc') continue;
+      const realizedGain = (gains.get(t.id) ?? 0).toString();
+      if (t.realizedGain !== null && parseFloat(t.realizedGain) === parseFloat(realizedGain)) continue;
+      await this.db.update(transactions).set({ realizedGain }).where(eq(transactions.id, t.id));
+    }
+
+    for (const symbol of symbols) {
+      const { quantity, averageCost } = positionFromLedger(ledger, symbol);
+      const [holding] = await this.db
+        .select()
+        .from(holdings)
+        .where(and(eq(holdings.portfolioId, portfolioId), eq(holdings.symbol, symbol)));
+
+      if (quantity <= 0) {
+        if (holding) await this.db.delete(holdings).where(eq(holdings.id, holding.id));
+      } else if (holding) {
+        await this.applyHoldingUpdate(holding.id, {
+          quantity: quantity.toString(),
+          averageCost: averageCost.toString(),
+        });
+      } else {
+        // Take the instrument's details from its own latest transaction where there is one
+        const source = sortChronologically(portfolioTransactions.filter(t => t.symbol === symbol)).at(-1) ?? template;
+        await this.db.insert(holdings).values({
+          portfolioId,
+          symbol,
+          companyName: symbol, // This would be fetched from API in real implementation
+          exchange: source.exchange,
+          currency: source.currency,
+          instrumentType: source.instrumentType,
+          quantity: quantity.toString(),
+          averageCost: averageCost.toString(),
+        });
+      }
+    }
+  }
+
+  // Import templates
+  async getImportTemplates(userId: string): Promise<ImportTemplate[]> {
+    return this.db
+      .select()
+      .from(importTemplates)
+      .where(eq(importTemplates.userId, userId))
+      .orderBy(asc(importTemplates.name));
+  }
+
+  async saveImportTemplate(userId: string, insertTemplate: InsertImportTemplate): Promise<ImportTemplate> {
+    const [template] = await this.db
+      .insert(importTemplates)
+      .values({ ...insertTemplate, userId })
+      .onConflictDoUpdate({
+        target: [importTemplates.userId, importTemplates.name],
+        set: { options: insertTemplate.options },
+      })
+      .returning();
+    return template;
+  }
+
+  async deleteImportTemplate(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(importTemplates)
+      .where(and(eq(importTemplates.id, id), eq(importTemplates.userId, userId)))
+      .returning({ id: importTemplates.id });
+    return deleted.length > 0;
+  }
+
+  // Benchmarks
+  async getBenchmarks(userId: string, portfolioId: string): Promise<Benchmark[]> {
+    if (!(await this.ownsPortfolio(userId, portfolioId))) return [];
+    return this.db
+      .select()
+      .from(benchmarks)
+      .where(eq(benchmarks.portfolioId, portfolioId))
+      .orderBy(asc(benchmarks.createdAt));
+  }
+
+  async getBenchmark(userId: string, id: string): Promise<Benchmark | undefined> {
+    const [row] = await this.db
+      .select({ benchmark: benchmarks })
+      .from(benchmarks)
+      .innerJoin(portfolios, eq(benchmarks.portfolioId, portfolios.id))
+      .where(and(eq(benchmarks.id, id), eq(portfolios.userId, userId), isNull(portfolios.deletedAt)));
+    return row?.benchmark;
+  }
+
+  async createBenchmark(userId: string, portfolioId: string, insertBenchmark: InsertBenchmark): Promise<Benchmark | undefined> {
+    if (!(await this.ownsPortfolio(userId, portfolioId))) return undefined;
+    const [benchmark] = await this.db
+      .insert(benchmarks)
+      .values({ ...insertBenchmark, portfolioId })
+      .returning();
+    return benchmark;
+  }
+
+  async deleteBenchmark(userId: string, id: string): Promise<boolean> {
+    if (!(await this.getBenchmark(userId, id))) return false;
+    const deleted = await this.db
+      .delete(benchmarks)
+      .where(eq(benchmarks.id, id))
+      .returning({ id: benchmarks.id });
+    return deleted.length > 0;
+  }
+
+  // Currencies
+  async getCurrencyRate(fromCurrency: string, toCurrency: string): Promise<Currency | undefined> {
+    const [rate] = await this.db
+      .select()
+      .from(currencies)
+      .where(and(eq(currencies.fromCurrency, fromCurrency), eq(currencies.toCurrency, toCurrency)));
+    return rate;
+  }
+
+  async updateCurrencyRate(insertRate: InsertCurrency): Promise<Currency> {
+    const existing = await this.getCurrencyRate(insertRate.fromCurrency, insertRate.toCurrency);
+    const [rate] = existing
+      ? await this.db
+          .update(currencies)
+          .set({ rate: insertRate.rate, lastUpdated: new Date() })
+          .where(eq(currencies.id, existing.id))
+          .returning()
+      : await this.db.insert(currencies).values(insertRate).returning();
+
+    // Keep the latest rate of the day as that day's historical rate
+    await this.saveCurrencyHistory([{
+      fromCurrency: rate.fromCurrency,
+      toCurrency: rate.toCurrency,
+      date: (rate.lastUpdated ?? new Date()).toISOString().slice(0, 10),
+      rate: rate.rate,
+      source: "latest",
+    }]);
+    return rate;
+  }
+
+  async getAllCurrencyRates(): Promise<Currency[]> {
+    return this.db.select().from(currencies);
+  }
+
+  async getCurrencyHistory(fromCurrency?: string, toCurrency?: string): Promise<CurrencyHistory[]> {
+    return this.db
+      .select()
+      .from(currencyHistory)
+      .where(and(
+        fromCurrency ? eq(currencyHistory.fromCurrency, fromCurrency) : undefined,
+        toCurrency ? eq(currencyHistory.toCurrency, toCurrency) : undefined,
+      ))
+      .orderBy(asc(currencyHistory.date));
+  }
+
+  async saveCurrencyHistory(days: InsertCurrencyHistory[]): Promise<number> {
+    if (days.length === 0) return 0;
+    // A re-fetched rate replaces the stored one for the same pair and day
+    await this.db
+      .insert(currencyHistory)
+      .values(days)
+      .onConflictDoUpdate({
+        target: [currencyHistory.fromCurrency, currencyHistory.toCurrency, currencyHistory.date],
+        set: {
+          rate: sql`excluded.rate`,
+          source: sql`excluded.source`,
+          lastUpdated: new Date(),
+        },
+      });
+    return days.length;
+  }
+
+  // Market Data
+  async getMarketData(symbol: string, exchange: string = ""): Promise<MarketData | undefined> {
+    const [data] = await this.db
+      .select()
+      .from(marketData)
+      .where(and(eq(marketData.symbol, symbol), eq(marketData.exchange, exchange)));
+    return data;
+  }
+
+  async updateMarketData(insertData: InsertMarketData): Promise<MarketData> {
+    const existing = await this.getMarketData(insertData.symbol, insertData.exchange);
+    if (existing) {
+      const [data] = await this.db
+        .update(marketData)
+        .set({ ...insertData, lastUpdated: new Date() })
+        .where(eq(marketData.id, existing.id))
+        .returning();
+      return data;
+    }
+
+    const [data] = await this.db.insert(marketData).values(insertData).returning();
+    return data;
+  }
+
+  async getMarketDataBatch(symbols: string[]): Promise<MarketData[]> {
+    if (symbols.length === 0) return [];
+    return this.db.select().from(marketData).where(inArray(marketData.symbol, symbols));
+  }
+
+  // Price history
+  async getPriceHistory(symbol: string, from?: string, to?: string): Promise<PriceHistory[]> {
+    return this.db
+      .select()
+      .from(priceHistory)
+      .where(and(
+        eq(priceHistory.symbol, symbol),
+        from ? gte(priceHistory.date, from) : undefined,
+        to ? lte(priceHistory.date, to) : undefined,
+      ))
+      .orderBy(asc(priceHistory.date));
+  }
+
+  async getLatestPriceHistoryDate(symbol: string): Promise<string | undefined> {
+    const [bar] = await this.db
+      .select({ date: priceHistory.date })
+      .from(priceHistory)
+      .where(eq(priceHistory.symbol, symbol))
+      .orderBy(desc(priceHistory.date))
+      .limit(1);
+    return bar?.date;
+  }
+
+  async savePriceHistory(bars: InsertPriceHistory[]): Promise<number> {
+    if (bars.length === 0) return 0;
+    // A re-fetched bar replaces the stored one for the same symbol and day
+    await this.db
+      .insert(priceHistory)
+      .values(bars)
+      .onConflictDoUpdate({
+        target: [priceHistory.symbol, priceHistory.date],
+        set: {
+          open: sql`excluded.open`,
+          high: sql`excluded.high`,
+          low: sql`excluded.low`,
+          close: sql`excluded.close`,
+          volume: sql`excluded.volume`,
+          source: sql`excluded.source`,
+          lastUpdated: new Date(),
+        },
+      });
+    return bars.length;
+  }
+
+  // Background jobs
+  async getHeldInstruments(): Promise<HeldInstrument[]> {
+    return this.db
+      .selectDistinct({
+        symbol: sql<string>`upper(${holdings.symbol})`,
+        exchange: holdings.exchange,
+        currency: holdings.currency,
+        baseCurrency: portfolios.baseCurrency,
+      })
+      .from(holdings)
+      .innerJoin(portfolios, eq(holdings.portfolioId, portfolios.id))
+      .where(isNull(portfolios.deletedAt));
+  }
+
+  async getBenchmarkSymbols(): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ symbol: benchmarks.symbol })
+      .from(benchmarks)
+      .innerJoin(portfolios, eq(benchmarks.portfolioId, portfolios.id))
+      .where(isNull(portfolios.deletedAt));
+    return rows.map(row => row.symbol);
+  }
+
+  async setHoldingPrices(symbol: string, exchange: string, price: string): Promise<number> {
+    const updated = await this.db
+      .update(holdings)
+      .set({ currentPrice: price, lastUpdated: new Date() })
+      .where(and(sql`upper(${holdings.symbol}) = ${symbol.toUpperCase()}`, eq(holdings.exchange, exchange)))
+      .returning({ id: holdings.id });
+    return updated.length;
+  }
+
+  async purgeDeletedPortfolios(deletedBefore: Date): Promise<number> {
+    const purged = await this.db
+      .delete(portfolios)
+      .where(lt(portfolios.deletedAt, deletedBefore))
+      .returning({ id: portfolios.id });
+    return purged.length;
+  }
+}
@@ -0,0 +1,319 @@
+import { randomUUID } from "crypto";
+import type {
+  Holding,
+  InstrumentType,
+  LotLedger,
+  Portfolio,
+  PortfolioBackup,
+  Transaction,
+} from "@shared/schema";
+import { formatCsv } from "./csv";
+import { shareMultiplier, sortChronologically, withoutCancelled } from "./lots";
+import type { FxLookup } from "./fx";
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+// File name for a downloaded export, e.g. "retirement-2025-06-30.ofx"
+export function exportFileName(portfolio: Portfolio, extension: "csv" | "json" | "ofx", now: Date = new Date()): string {
+  const name = portfolio.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "portfolio";
+  return `${name}-${toDateKey(now)}.${extension}`;
+}
+
+export function portfolioBackup(
+  portfolio: Portfolio,
+  holdings: Holding[],
+  transactions: Transaction[],
+  lots: LotLedger,
+  now: Date = new Date(),
+): PortfolioBackup {
+  const { userId: _userId, ...settings } = portfolio;
+  return {
+    format: "portfolio-backup",
+    version: 1,
+    exportedAt: now,
+    portfolio: settings,
+    holdings,
+    transactions: sortChronologically(transactions),
+    lots,
+  };
+}
+
+// Holdings, transactions, open lots and disposals, one section after another
+export function portfolioCsv(
+  portfolio: Portfolio,
+  holdings: Holding[],
+  transactions: Transaction[],
+  lots: LotLedger,
+  now: Date = new Date(),
+): string {
+  return formatCsv([
+    ["Portfolio", portfolio.name],
+    ["Base currency", portfolio.baseCurrency],
+    ["Exported", toDateKey(now)],
+    [],
+    ["Holdings"],
+    ["Symbol", "Company", "Exchange", "Currency", "Instrument type", "Quantity", "Average cost", "Current price"],
+    ...holdings.map(h => [
+      h.symbol,
+      h.companyName,
+      h.exchange,
+      h.currency,
+      h.instrumentType,
+      h.quantity,
+      h.averageCost,
+      h.currentPrice,
+    ]),
+    [],
+    ["Transactions"],
+    [
+      "Id",
+      "Date",
+      "Type",
+      "Symbol",
+      "Exchange",
+      "Currency",
+      "Instrument type",
+      "Quantity",
+      "Price",
+      "Fees",
+      "Total amount",
+      "Realized gain",
+      "Split ratio",
+      "Related symbol",
+      "Cost apportionment",
+      "Related transaction",
+      "Withholding tax",
+      "Franking credits",
+      "Reinvested quantity",
+      "Reinvestment price",
+    ],
+    ...sortChronologically(transactions).map(t => [
+      t.id,
+      toDateKey(t.date),
+      t.type,
+      t.symbol,
+      t.exchange,
+      t.currency,
+      t.instrumentType,
+      t.quantity,
+      t.price,
+      t.fees,
+      t.totalAmount,
+      t.realizedGain,
+      t.splitRatio,
+      t.relatedSymbol,
+      t.costApportionment,
+      t.relatedTransactionId,
+      t.withholdingTax,
+      t.frankingCredits,
+      t.reinvestedQuantity,
+      t.reinvestmentPrice,
+    ]),
+    [],
+    ["Open lots"],
+    ["Lot", "Symbol", "Currency", "Opened", "Original quantity", "Quantity", "Cost per share", "Cost basis", "Days held"],
+    ...lots.openLots.map(lot => [
+      lot.id,
+      lot.symbol,
+      lot.currency,
+      toDateKey(lot.openDate),
+      lot.originalQuantity,
+      lot.quantity,
+      lot.costPerShare,
+      lot.costBasis,
+      lot.holdingPeriodDays,
+    ]),
+    [],
+    ["Disposals"],
+    ["Transaction", "Lot", "Symbol", "Currency", "Method", "Opened", "Closed", "Quantity", "Cost basis", "Proceeds", "Realized gain"],
+    ...lots.disposals.map(d => [
+      d.transactionId,
+      d.lotId,
+      d.symbol,
+      d.currency,
+      d.method,
+      toDateKey(d.openDate),
+      toDateKey(d.closeDate),
+      d.quantity,
+      d.costBasis,
+      d.proceeds,
+      d.realizedGain,
+    ]),
+  ]);
+}
+
+// OFX aggregates for each kind of instrument
+const ofxKinds: Record<InstrumentType, { buy: string; sell: string; position: string; info: string; typed: boolean }> = {
+  STK: { buy: "BUYSTOCK", sell: "SELLSTOCK", position: "POSSTOCK", info: "STOCKINFO", typed: true },
+  MF: { buy: "BUYMF", sell: "SELLMF", position: "POSMF", info: "MFINFO", typed: true },
+  FIXED: { buy: "BUYOTHER", sell: "SELLOTHER", position: "POSOTHER", info: "OTHERINFO", typed: false },
+  OTH: { buy: "BUYOTHER", sell: "SELLOTHER", position: "POSOTHER", info: "OTHERINFO", typed: false },
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const ofxDate = (date: Date) => date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+const ofxAmount = (value: number) => (Math.round(value * 1e6) / 1e6).toString();
+
+function tag(name: string, value: string | number): string {
+  return `<${name}>${escapeXml(typeof value === "number" ? ofxAmount(value) : value)}</${name}>`;
+}
+
+function block(name: string, ...children: (string | false | undefined)[]): string {
+  return [`<${name}>`, ...children.filter((c): c is string => !!c), `</${name}>`].join("\n");
+}
+
+const secId = (symbol: string) => block("SECID", tag("UNIQUEID", symbol), tag("UNIQUEIDTYPE", "TICKER"));
+
+/**
+ * OFX 2.2 investment statement for accounting tools: every trade, dividend and
+ * corporate action as an investment transaction, the holdings as positions,
+ * and the securities they refer to. Amounts are in each trade's own currency,
+ * with its rate to the portfolio's base currency when one is known. Cancelled
+ * trades are left out; demergers appear as a transfer in of the new shares.
+ */
+export function portfolioOfx(
+  portfolio: Portfolio,
+  holdings: Holding[],
+  transactions: Transaction[],
+  fx: FxLookup,
+  now: Date = new Date(),
+): string {
+  const base = portfolio.baseCurrency;
+  const currencyBlock = (currency: string, date: Date) => {
+    if (currency === base) return undefined;
+    const rate = fx(currency, base, date);
+    return rate === undefined ? undefined : block("CURRENCY", tag("CURRATE", rate), tag("CURSYM", currency));
+  };
+
+  const ordered = sortChronologically(withoutCancelled(transactions));
+  const instrumentTypes = new Map<string, InstrumentType>();
+  holdings.forEach(h => instrumentTypes.set(h.symbol, h.instrumentType as InstrumentType));
+  ordered.forEach(t => instrumentTypes.set(t.symbol, t.instrumentType as InstrumentType));
+  const kindOf = (symbol: string) => ofxKinds[instrumentTypes.get(symbol) ?? "STK"] ?? ofxKinds.STK;
+
+  // Units held of each symbol as the replay reaches each transaction; splits need them
+  const units = new Map<string, number>();
+  const held = (symbol: string) => units.get(symbol) ?? 0;
+
+  const entries: string[] = [];
+  for (const t of ordered) {
+    const quantity = parseFloat(t.quantity);
+    const price = parseFloat(t.price);
+    const fees = parseFloat(t.fees ?? "0");
+    const invTran = (suffix = "") => block("INVTRAN", tag("FITID", t.id + suffix), tag("DTTRADE", ofxDate(t.date)));
+    const currency = currencyBlock(t.currency, t.date);
+    const kind = kindOf(t.symbol);
+
+    switch (t.type) {
+      case "buy":
+        entries.push(block(kind.buy,
+          block("INVBUY", invTran(), secId(t.symbol), tag("UNITS", quantity), tag("UNITPRICE", price),
+            tag("COMMISSION", fees), tag("TOTAL", -(quantity * price + fees)), currency,
+            tag("SUBACCTSEC", "CASH"), tag("SUBACCTFUND", "CASH")),
+          kind.typed && tag("BUYTYPE", "BUY")));
+        units.set(t.symbol, held(t.symbol) + quantity);
+        break;
+
+      case "sell":
+        entries.push(block(kind.sell,
+          block("INVSELL", invTran(), secId(t.symbol), tag("UNITS", -quantity), tag("UNITPRICE", price),
+            tag("COMMISSION", fees), tag("TOTAL", quantity * price - fees), currency,
+            tag("SUBACCTSEC", "CASH"), tag("SUBACCTFUND", "CASH")),
+          kind.typed && tag("SELLTYPE", "SELL")));
+        units.set(t.symbol, held(t.symbol) - quantity);
+        break;
+
+      case "dividend": {
+        const withholding = parseFloat(t.withholdingTax ?? "0");
+        entries.push(block("INCOME", invTran(), secId(t.symbol), tag("INCOMETYPE", "DIV"),
+          tag("TOTAL", parseFloat(t.totalAmount)), tag("SUBACCTSEC", "CASH"), tag("SUBACCTFUND", "CASH"),
+          withholding > 0 && tag("WITHHOLDING", withholding), currency));
+        // Shares taken under a reinvestment plan are bought with the dividend
+        const reinvested = parseFloat(t.reinvestedQuantity ?? "0");
+        const issuePrice = parseFloat(t.reinvestmentPrice ?? "0");
+        if (reinvested > 0 && issuePrice > 0) {
+          entries.push(block(kind.buy,
+            block("INVBUY", invTran(":drip"), secId(t.symbol), tag("UNITS", reinvested), tag("UNITPRICE", issuePrice),
+              tag("TOTAL", -(reinvested * issuePrice)), currency, tag("SUBACCTSEC", "CASH"), tag("SUBACCTFUND", "CASH")),
+            kind.typed && tag("BUYTYPE", "BUY")));
+          units.set(t.symbol, held(t.symbol) + reinvested);
+        }
+        break;
+      }
+
+      case "split":
+      case "consolidate":
+      case "bonus": {
+        const multiplier = shareMultiplier(t);
+        if (!multiplier) break;
+        const before = held(t.symbol);
+        entries.push(block("SPLIT", invTran(), secId(t.symbol), tag("SUBACCTSEC", "CASH"),
+          tag("OLDUNITS", before), tag("NEWUNITS", before * multiplier),
+          tag("NUMERATOR", multiplier), tag("DENOMINATOR", 1)));
+        units.set(t.symbol, before * multiplier);
+        break;
+      }
+
+      case "roc":
+        entries.push(block("RETOFCAP", invTran(), secId(t.symbol), tag("TOTAL", held(t.symbol) * price), currency,
+          tag("SUBACCTSEC", "CASH"), tag("SUBACCTFUND", "CASH")));
+        break;
+
+      case "adjustment": {
+        // A correction moves the units the position gained or lost in or out
+        const change = quantity - held(t.symbol);
+        if (Math.abs(change) > 1e-9) {
+          entries.push(block("TRANSFER", invTran(), secId(t.symbol), tag("SUBACCTSEC", "CASH"),
+            tag("UNITS", change), tag("TFERACTION", change > 0 ? "IN" : "OUT"), tag("POSTYPE", "LONG")));
+        }
+        units.set(t.symbol, quantity);
+        break;
+      }
+
+      case "demerger":
+        if (!t.relatedSymbol) break;
+        entries.push(block("TRANSFER", invTran(), secId(t.relatedSymbol), tag("SUBACCTSEC", "CASH"),
+          tag("UNITS", quantity), tag("TFERACTION", "IN"), tag("POSTYPE", "LONG")));
+        units.set(t.relatedSymbol, held(t.relatedSymbol) + quantity);
+        break;
+    }
+  }
+
+  const positions = holdings
+    .filter(h => parseFloat(h.quantity) > 0)
+    .map(h => {
+      const quantity = parseFloat(h.quantity);
+      const price = parseFloat(h.currentPrice ?? h.averageCost);
+      const asOf = h.lastUpdated ?? now;
+      return block(kindOf(h.symbol).position,
+        block("INVPOS", secId(h.symbol), tag("HELDINACCT", "CASH"), tag("POSTYPE", "LONG"),
+          tag("UNITS", quantity), tag("UNITPRICE", price), tag("MKTVAL", quantity * price),
+          tag("DTPRICEASOF", ofxDate(asOf)), currencyBlock(h.currency, asOf)));
+    });
+
+  const names = new Map(holdings.map(h => [h.symbol, h.companyName]));
+  const securities = Array.from(instrumentTypes.keys()).sort().map(symbol =>
+    block(kindOf(symbol).info,
+      block("SECINFO", secId(symbol), tag("SECNAME", names.get(symbol) || symbol), tag("TICKER", symbol))));
+
+  const status = block("STATUS", tag("CODE", "0"), tag("SEVERITY", "INFO"));
+  const dates = ordered.map(t => t.date);
+  const start = dates[0] ?? now;
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8" standalone="no"?>`,
+    `<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>`,
+    block("OFX",
+      block("SIGNONMSGSRSV1",
+        block("SONRS", status, tag("DTSERVER", ofxDate(now)), tag("LANGUAGE", "ENG"))),
+      block("INVSTMTMSGSRSV1",
+        block("INVSTMTTRNRS", tag("TRNUID", randomUUID()), status,
+          block("INVSTMTRS", tag("DTASOF", ofxDate(now)), tag("CURDEF", base),
+            block("INVACCTFROM", tag("BROKERID", "portfoliotracker"), tag("ACCTID", portfolio.id)),
+            block("INVTRANLIST", tag("DTSTART", ofxDate(start)), tag("DTEND", ofxDate(now)), ...entries),
+            positions.length > 0 && block("INVPOSLIST", ...positions)))),
+      securities.length > 0 && block("SECLISTMSGSRSV1", block("SECLIST", ...securities))),
+  ].join("\n") + "\n";
+}
@@ -0,0 +1,142 @@
+import type { Currency, CurrencyHistory } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { MarketDataChain } from "./market-data";
+
+// Units of `to` that one unit of `from` bought at `date`, when known
+export type FxLookup = (from: string, to: string, date: Date) => number | undefined;
+
+// Currency that pairs without a rate of their own are converted through
+export const TRIANGULATION_CURRENCY = "USD";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// A pair's rate as stored, or the inverse of the opposite pair's
+function eitherDirection(rate: FxLookup): FxLookup {
+  return (from, to, date) => {
+    if (from === to) return 1;
+    const direct = rate(from, to, date);
+    if (direct) return direct;
+    const inverse = rate(to, from, date);
+    return inverse ? 1 / inverse : undefined;
+  };
+}
+
+// Fall back to converting through `via` (EUR -> USD -> INR) when a pair has no rate
+export function triangulated(lookup: FxLookup, via: string = TRIANGULATION_CURRENCY): FxLookup {
+  return (from, to, date) => {
+    const direct = lookup(from, to, date);
+    if (direct !== undefined || from === via || to === via) return direct;
+    const first = lookup(from, via, date);
+    const second = lookup(via, to, date);
+    return first !== undefined && second !== undefined ? first * second : undefined;
+  };
+}
+
+// Latest stored rates, used directly, inverted or through USD; the date is ignored
+export function rateTableFxLookup(rates: Currency[]): FxLookup {
+  const byPair = new Map(rates.map(rate => [`${rate.fromCurrency}-${rate.toCurrency}`, parseFloat(rate.rate)]));
+  return triangulated(eitherDirection((from, to) => byPair.get(`${from}-${to}`)));
+}
+
+/**
+ * Rates as they were on the date: the latest daily rate on or before it in
+ * either direction, else today's rate from `rates`. Each leg is looked up that
+ * way before falling back to converting through USD.
+ */
+export function historicalFxLookup(history: CurrencyHistory[], rates: Currency[]): FxLookup {
+  const byPair = new Map<string, CurrencyHistory[]>();
+  for (const day of history) {
+    const pair = `${day.fromCurrency}-${day.toCurrency}`;
+    byPair.set(pair, [...(byPair.get(pair) ?? []), day]);
+  }
+  byPair.forEach(days => days.sort((a, b) => a.date.localeCompare(b.date)));
+  const current = new Map(rates.map(rate => [`${rate.fromCurrency}-${rate.toCurrency}`, parseFloat(rate.rate)]));
+
+  const onDate = eitherDirection((from, to, date) => {
+    const days = byPair.get(`${from}-${to}`);
+    const day = toDateKey(date);
+    if (!days || days.length === 0 || days[0].date > day) return undefined;
+    // Binary search for the last rate on or before the day
+    let low = 0;
+    let high = days.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (days[mid].date <= day) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return parseFloat(days[low].rate);
+  });
+  const latest = eitherDirection((from, to) => current.get(`${from}-${to}`));
+
+  return triangulated((from, to, date) => onDate(from, to, date) ?? latest(from, to, date));
+}
+
+// Historical lookup over everything stored
+export async function storedFxLookup(store: IStorage): Promise<FxLookup> {
+  return historicalFxLookup(await store.getCurrencyHistory(), await store.getAllCurrencyRates());
+}
+
+/**
+ * Fetch and store the latest rate of each [from, to] pair. Returns an error
+ * per pair that couldn't be refreshed; the others are still stored.
+ */
+export async function refreshCurrencyRates(
+  store: IStorage,
+  provider: Pick<MarketDataChain, "getFxRate">,
+  pairs: [string, string][],
+): Promise<string[]> {
+  const errors: string[] = [];
+  for (const [from, to] of pairs) {
+    try {
+      const rate = await provider.getFxRate(from, to);
+      await store.updateCurrencyRate({ fromCurrency: from, toCurrency: to, rate: rate.toString() });
+    } catch (error) {
+      errors.push(`${from}/${to}: ${(error as Error).message}`);
+    }
+  }
+  return errors;
+}
+
+export type CurrencyBackfillResult = {
+  pair: string; // "EUR-USD"
+  from: string | null;
+  saved: number;
+  error?: string;
+};
+
+/**
+ * Load daily rates for each "EUR-USD" pair into the currency history. Without
+ * an explicit `from`, each pair resumes from the day after its latest stored
+ * rate. One pair failing does not stop the others.
+ */
+export async function backfillCurrencyHistory(
+  store: IStorage,
+  provider: Pick<MarketDataChain, "getDailyFxHistory">,
+  pairs: string[],
+  from?: string,
+): Promise<CurrencyBackfillResult[]> {
+  const results: CurrencyBackfillResult[] = [];
+
+  for (const pair of pairs.map(p => p.toUpperCase())) {
+    const [fromCurrency, toCurrency] = pair.split("-");
+    const latest = from ? undefined : (await store.getCurrencyHistory(fromCurrency, toCurrency)).at(-1)?.date;
+    const start = from ?? (latest ? toDateKey(new Date(new Date(latest).getTime() + DAY_MS)) : undefined);
+
+    try {
+      const days = await provider.getDailyFxHistory(fromCurrency, toCurrency, start);
+      results.push({ pair, from: start ?? null, saved: await store.saveCurrencyHistory(days) });
+    } catch (error) {
+      console.error(`Failed to backfill currency history for ${pair}:`, error);
+      results.push({ pair, from: start ?? null, saved: 0, error: (error as Error).message });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,273 @@
+import {
+  insertTransactionSchema,
+  transactionTypes,
+  type ImportCell,
+  type ImportDateFormat,
+  type ImportField,
+  type ImportOptions,
+  type ImportResult,
+  type ImportRowResult,
+  type InsertTransaction,
+  type LotReliefMethod,
+  type Transaction,
+  type TransactionType,
+} from "@shared/schema";
+import { oversoldSales, validateCorporateAction } from "./lots";
+import { transactionFromInsert } from "./storage";
+
+const EPSILON = 1e-9;
+
+const monthNames = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// What brokers call each transaction type, beyond its own name
+const typeSynonyms: Record<string, TransactionType> = {
+  b: "buy",
+  bought: "buy",
+  purchase: "buy",
+  s: "sell",
+  sold: "sell",
+  sale: "sell",
+  div: "dividend",
+  "cash dividend": "dividend",
+  distribution: "dividend",
+  "return of capital": "roc",
+  consolidation: "consolidate",
+  cancel: "cancellation",
+};
+
+const datePatterns: Record<ImportDateFormat, { pattern: RegExp; order: ["d" | "m" | "y", "d" | "m" | "y", "d" | "m" | "y"] }> = {
+  "YYYY-MM-DD": { pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})/, order: ["y", "m", "d"] },
+  "DD/MM/YYYY": { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/, order: ["d", "m", "y"] },
+  "MM/DD/YYYY": { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/, order: ["m", "d", "y"] },
+  "DD-MM-YYYY": { pattern: /^(\d{1,2})-(\d{1,2})-(\d{2,4})/, order: ["d", "m", "y"] },
+  "DD.MM.YYYY": { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{2,4})/, order: ["d", "m", "y"] },
+  "DD-MMM-YYYY": { pattern: /^(\d{1,2})[- ]([a-z]{3})[a-z]*[- ](\d{2,4})/i, order: ["d", "m", "y"] },
+};
+
+/**
+ * A calendar date as midnight UTC, or undefined when it doesn't read as one.
+ * YYYY-MM-DD is accepted whatever the format, as that is how spreadsheet
+ * date cells arrive.
+ */
+export function parseImportDate(value: string, format: ImportDateFormat): Date | undefined {
+  const text = value.trim();
+  const { pattern, order } = datePatterns[format].pattern.test(text) ? datePatterns[format] : datePatterns["YYYY-MM-DD"];
+  const match = text.match(pattern);
+  if (!match) return undefined;
+
+  const parts: Record<string, number> = {};
+  order.forEach((part, i) => {
+    const text = match[i + 1];
+    parts[part] = part === "m" && /[a-z]/i.test(text) ? monthNames.indexOf(text.toLowerCase()) + 1 : parseInt(text);
+  });
+  if (parts.y < 100) parts.y += 2000;
+
+  const date = new Date(Date.UTC(parts.y, parts.m - 1, parts.d));
+  // Reject overflow such as 31/02
+  return date.getUTCMonth() === parts.m - 1 && date.getUTCDate() === parts.d ? date : undefined;
+}
+
+/**
+ * A number written with the given decimal separator, ignoring grouping,
+ * currency symbols and spaces; "(12.50)" reads as -12.5.
+ */
+export function parseImportNumber(value: string, decimalSeparator: "." | ","): number | undefined {
+  let text = value.trim();
+  if (!text) return undefined;
+  const negative = /^\(.*\)$/.test(text) || text.startsWith("-");
+  text = text.replace(decimalSeparator === "." ? /[^\d.]/g : /[^\d,]/g, "");
+  if (decimalSeparator === ",") text = text.replace(",", ".");
+  if (!/^\d*\.?\d+$|^\d+\.$/.test(text)) return undefined;
+  const number = parseFloat(text);
+  return negative ? -number : number;
+}
+
+function parseType(value: string): TransactionType | undefined {
+  const text = value.trim().toLowerCase();
+  if ((transactionTypes as readonly string[]).includes(text)) return text as TransactionType;
+  return typeSynonyms[text];
+}
+
+// Same trade date, type, symbol, quantity and price
+function sameTrade(a: InsertTransaction, b: InsertTransaction | Transaction): boolean {
+  return a.date.toISOString().slice(0, 10) === b.date.toISOString().slice(0, 10) &&
+    a.type === b.type &&
+    a.symbol.toUpperCase() === b.symbol.toUpperCase() &&
+    Math.abs(parseFloat(a.quantity) - parseFloat(b.quantity)) < EPSILON &&
+    Math.abs(parseFloat(a.price) - parseFloat(b.price)) < EPSILON;
+}
+
+// Read one row into a transaction, collecting every problem rather than the first
+function readRow(
+  cells: ImportCell[],
+  options: ImportOptions,
+  portfolioId: string,
+): { transaction: InsertTransaction | null; errors: string[] } {
+  const errors: string[] = [];
+  const cell = (field: ImportField) => {
+    const column = options.columns[field];
+    return column === undefined ? "" : String(cells[column] ?? "").trim();
+  };
+  const number = (field: ImportField, required: boolean) => {
+    // A spreadsheet's numeric cell is already a number; only text needs the separator
+    const column = options.columns[field];
+    const raw = column === undefined ? undefined : cells[column];
+    if (typeof raw === "number") return raw;
+    const text = cell(field);
+    if (!text) {
+      if (required) errors.push(`Missing ${field}`);
+      return undefined;
+    }
+    const value = parseImportNumber(text, options.decimalSeparator);
+    if (value === undefined) errors.push(`Unreadable ${field} "${text}"`);
+    return value;
+  };
+
+  const dateText = cell("date");
+  const date = dateText ? parseImportDate(dateText, options.dateFormat) : undefined;
+  if (!dateText) errors.push("Missing date");
+  else if (!date) errors.push(`Date "${dateText}" is not ${options.dateFormat}`);
+
+  const typeText = cell("type");
+  const type = typeText ? parseType(typeText) : options.defaults.type;
+  if (!type) errors.push(typeText ? `Unknown transaction type "${typeText}"` : "Missing type");
+
+  const symbol = cell("symbol").toUpperCase();
+  if (!symbol) errors.push("Missing symbol");
+
+  // Brokers often sign sells and outflows negative; direction comes from the type
+  const quantity = Math.abs(number("quantity", true) ?? 0);
+  const price = Math.abs(number("price", true) ?? 0);
+  const fees = Math.abs(number("fees", false) ?? 0);
+  const total = number("totalAmount", false);
+  const totalAmount = total !== undefined
+    ? Math.abs(total)
+    : type === "dividend" ? quantity * price : quantity * price + fees;
+
+  const currency = (cell("currency") || options.defaults.currency || "").toUpperCase();
+  if (!currency) errors.push("Missing currency");
+  const exchange = (cell("exchange") || options.defaults.exchange || "").toUpperCase();
+  if (!exchange) errors.push("Missing exchange");
+  const instrumentType = (cell("instrumentType").toUpperCase() || options.defaults.instrumentType || "STK");
+
+  if (errors.length > 0) return { transaction: null, errors };
+
+  const parsed = insertTransactionSchema.safeParse({
+    portfolioId,
+    type,
+    symbol,
+    date,
+    quantity: quantity.toString(),
+    price: price.toString(),
+    totalAmount: totalAmount.toString(),
+    fees: fees.toString(),
+    currency,
+    exchange,
+    instrumentType,
+  });
+  if (!parsed.success) {
+    return { transaction: null, errors: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`) };
+  }
+
+  const invalidAction = validateCorporateAction({
+    type: parsed.data.type,
+    splitRatio: null,
+    relatedSymbol: null,
+    costApportionment: null,
+    relatedTransactionId: null,
+    totalAmount: parsed.data.totalAmount,
+    withholdingTax: null,
+    reinvestedQuantity: null,
+    reinvestmentPrice: null,
+  });
+  return invalidAction ? { transaction: null, errors: [invalidAction] } : { transaction: parsed.data, errors: [] };
+}
+
+/**
+ * Work out what importing the rows would do, without recording anything. A
+ * row is a duplicate when it matches a recorded transaction or an earlier row
+ * on date, type, symbol, quantity and price. A sell is invalid when, replayed
+ * with the recorded transactions and the other new rows under the portfolio's
+ * relief method, it would sell more than is held, as it would be if entered
+ * by hand.
+ */
+export function planImport(
+  rows: ImportCell[][],
+  options: ImportOptions,
+  portfolioId: string,
+  existing: Transaction[],
+  reliefMethod: LotReliefMethod,
+): ImportResult {
+  const accepted: InsertTransaction[] = [];
+  const results: ImportRowResult[] = [];
+
+  rows.forEach((cells, index) => {
+    if (options.hasHeader && index === 0) return;
+    if (cells.every(cell => !String(cell).trim())) return;
+
+    const row = index + 1;
+    const { transaction, errors } = readRow(cells, options, portfolioId);
+    if (!transaction) {
+      results.push({ row, status: "invalid", transaction: null, errors, duplicateOf: null });
+      return;
+    }
+
+    const recorded = existing.find(t => sameTrade(transaction, t));
+    if (recorded || accepted.some(t => sameTrade(transaction, t))) {
+      results.push({ row, status: "duplicate", transaction, errors: [], duplicateOf: recorded?.id ?? null });
+      return;
+    }
+    accepted.push(transaction);
+    results.push({ row, status: "new", transaction, errors: [], duplicateOf: null });
+  });
+
+  // Sells already oversold in the recorded transactions aren't the import's doing
+  const alreadyOversold = new Set(oversoldSales(existing, reliefMethod).map(({ transaction }) => transaction.id));
+  const pending = new Map(results.filter(r => r.status === "new").map(r => [
+    `import-row-${r.row}`,
+    { result: r, transaction: transactionFromInsert(r.transaction!, `import-row-${r.row}`) },
+  ]));
+  const reject = (id: string, error: string) => {
+    const { result } = pending.get(id)!;
+    result.status = "invalid";
+    result.transaction = null;
+    result.errors = [error];
+    pending.delete(id);
+  };
+  const describe = (transaction: Transaction, held: number) =>
+    `${transaction.quantity} ${transaction.symbol} on ${transaction.date.toISOString().slice(0, 10)}: only ${Number(held.toFixed(8))} held then`;
+
+  // A later sell may only be short because an earlier oversold one took what was left, so
+  // each pass rejects the earliest oversold row in each symbol and replays again
+  for (;;) {
+    const replayed = [...existing, ...Array.from(pending.values(), p => p.transaction)];
+    const oversold = oversoldSales(replayed, reliefMethod).filter(({ transaction }) => !alreadyOversold.has(transaction.id));
+    if (oversold.length === 0) break;
+
+    const earliest = new Map<string, { transaction: Transaction; held: number }>();
+    for (const sale of oversold.filter(({ transaction }) => pending.has(transaction.id))) {
+      const first = earliest.get(sale.transaction.symbol);
+      if (!first || sale.transaction.date < first.transaction.date) earliest.set(sale.transaction.symbol, sale);
+    }
+    earliest.forEach(({ transaction, held }) => reject(transaction.id, `Can't sell ${describe(transaction, held)}`));
+    if (earliest.size > 0) continue;
+
+    // Only recorded sells are left short: blame the earliest new sell in the symbol before one of them
+    const { transaction: recorded, held } = oversold[0];
+    const culprit = Array.from(pending.values())
+      .filter(p => p.transaction.type === "sell" && p.transaction.symbol === recorded.symbol && p.transaction.date <= recorded.date)
+      .sort((a, b) => a.transaction.date.getTime() - b.transaction.date.getTime())[0];
+    if (!culprit) break;
+    reject(culprit.transaction.id, `Would leave the recorded sale of ${describe(recorded, held)}`);
+  }
+
+  const count = (status: ImportRowResult["status"]) => results.filter(r => r.status === status).length;
+  return {
+    dryRun: true,
+    new: count("new"),
+    duplicate: count("duplicate"),
+    invalid: count("invalid"),
+    imported: 0,
+    rows: results,
+  };
+}
@@ -0,0 +1,180 @@
+import type {
+  Holding,
+  HoldingIncome,
+  IncomeEntry,
+  IncomeMonth,
+  Portfolio,
+  PortfolioIncome,
+  Transaction,
+} from "@shared/schema";
+import { withoutCancelled } from "./lots";
+import { consolidateHoldings } from "./consolidation";
+import type { FxLookup } from "./fx";
+
+// Start of the trailing twelve months ending at `asOf`
+function trailingYearStart(asOf: Date): Date {
+  const start = new Date(asOf);
+  start.setFullYear(start.getFullYear() - 1);
+  return start;
+}
+
+const percentOf = (amount: number, of: number) => (of > 0 ? (amount / of) * 100 : 0);
+
+/**
+ * Every dividend received, newest first. Amounts are in the dividend's
+ * currency, with gross and net also in the base currency at the payment
+ * date's rate (1 when there is none, recorded in `missingRates`).
+ */
+export function buildIncomeEntries(
+  transactions: Transaction[],
+  baseCurrency: string,
+  fx: FxLookup,
+  missingRates: Set<string> = new Set(),
+): IncomeEntry[] {
+  return withoutCancelled(transactions)
+    .filter(t => t.type === "dividend")
+    .map(t => {
+      const gross = parseFloat(t.totalAmount);
+      const withholdingTax = parseFloat(t.withholdingTax ?? "0");
+      const reinvestedQuantity = parseFloat(t.reinvestedQuantity ?? "0");
+      let rate = fx(t.currency, baseCurrency, t.date);
+      if (rate === undefined) {
+        missingRates.add(`${t.currency}-${baseCurrency}`);
+        rate = 1;
+      }
+      return {
+        transactionId: t.id,
+        symbol: t.symbol,
+        date: t.date,
+        currency: t.currency,
+        gross,
+        withholdingTax,
+        frankingCredits: parseFloat(t.frankingCredits ?? "0"),
+        net: gross - withholdingTax,
+        reinvestedQuantity,
+        reinvestedAmount: reinvestedQuantity * parseFloat(t.reinvestmentPrice ?? "0"),
+        grossBase: gross * rate,
+        netBase: (gross - withholdingTax) * rate,
+      };
+    })
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+// Gross dividends in the base currency over the twelve months to `asOf`
+export function trailingIncome(transactions: Transaction[], baseCurrency: string, fx: FxLookup, asOf: Date = new Date()): number {
+  const start = trailingYearStart(asOf);
+  return buildIncomeEntries(transactions, baseCurrency, fx)
+    .filter(entry => entry.date > start && entry.date <= asOf)
+    .reduce((sum, entry) => sum + entry.grossBase, 0);
+}
+
+/**
+ * The portfolio's income: a month-by-month calendar, totals per holding and
+ * trailing-twelve-month yields. Yield is gross income over today's value;
+ * yield on cost is the same income over what was paid for the holdings.
+ */
+export function buildIncomeReport(
+  portfolio: Portfolio,
+  holdings: Holding[],
+  transactions: Transaction[],
+  fx: FxLookup,
+  asOf: Date = new Date(),
+): PortfolioIncome {
+  const baseCurrency = portfolio.baseCurrency;
+  const missingRates = new Set<string>();
+  const entries = buildIncomeEntries(transactions.filter(t => t.date <= asOf), baseCurrency, fx, missingRates);
+  const consolidation = consolidateHoldings(portfolio, holdings, transactions, fx, asOf);
+  const start = trailingYearStart(asOf);
+  const trailing = entries.filter(entry => entry.date > start);
+
+  // Base-currency value and cost of what is held now, per symbol
+  const held = new Map<string, { value: number; cost: number }>();
+  for (const holding of holdings) {
+    const metrics = consolidation.holdings.get(holding.id)!;
+    const position = held.get(holding.symbol) ?? { value: 0, cost: 0 };
+    held.set(holding.symbol, {
+      value: position.value + metrics.currentValueBase,
+      cost: position.cost + metrics.totalCostBase,
+    });
+  }
+
+  const months = new Map<string, IncomeMonth>();
+  const bySymbol = new Map<string, HoldingIncome>();
+  const totals = { gross: 0, withholdingTax: 0, frankingCredits: 0, net: 0, reinvested: 0 };
+
+  for (const entry of entries) {
+    // Rate the entry was converted at, to bring its other amounts into the base currency
+    const rate = entry.gross > 0 ? entry.grossBase / entry.gross : 1;
+    const withholdingTax = entry.withholdingTax * rate;
+    const frankingCredits = entry.frankingCredits * rate;
+    const reinvested = entry.reinvestedAmount * rate;
+
+    const key = entry.date.toISOString().slice(0, 7);
+    const month = months.get(key) ?? {
+      month: key,
+      gross: 0,
+      withholdingTax: 0,
+      frankingCredits: 0,
+      net: 0,
+      reinvested: 0,
+      netBySymbol: {},
+    };
+    month.gross += entry.grossBase;
+    month.withholdingTax += withholdingTax;
+    month.frankingCredits += frankingCredits;
+    month.net += entry.netBase;
+    month.reinvested += reinvested;
+    month.netBySymbol[entry.symbol] = (month.netBySymbol[entry.symbol] ?? 0) + entry.netBase;
+    months.set(key, month);
+
+    totals.gross += entry.grossBase;
+    totals.withholdingTax += withholdingTax;
+    totals.frankingCredits += frankingCredits;
+    totals.net += entry.netBase;
+    totals.reinvested += reinvested;
+
+    const income = bySymbol.get(entry.symbol) ?? {
+      symbol: entry.symbol,
+      payments: 0,
+      lastPaidAt: null,
+      gross: 0,
+      net: 0,
+      trailing12MonthGross: 0,
+      yieldPercent: null,
+      yieldOnCostPercent: null,
+    };
+    income.payments += 1;
+    // Entries are newest first, so the first one seen is the latest payment
+    income.lastPaidAt = income.lastPaidAt ?? entry.date;
+    income.gross += entry.grossBase;
+    income.net += entry.netBase;
+    if (entry.date > start) income.trailing12MonthGross += entry.grossBase;
+    bySymbol.set(entry.symbol, income);
+  }
+
+  for (const income of Array.from(bySymbol.values())) {
+    const position = held.get(income.symbol);
+    if (position) {
+      income.yieldPercent = percentOf(income.trailing12MonthGross, position.value);
+      income.yieldOnCostPercent = percentOf(income.trailing12MonthGross, position.cost);
+    }
+  }
+
+  const trailing12MonthGross = trailing.reduce((sum, entry) => sum + entry.grossBase, 0);
+  consolidation.missingRates.forEach(pair => missingRates.add(pair));
+
+  return {
+    portfolioId: portfolio.id,
+    baseCurrency,
+    asOf,
+    trailing12MonthGross,
+    trailing12MonthNet: trailing.reduce((sum, entry) => sum + entry.netBase, 0),
+    trailingYieldPercent: percentOf(trailing12MonthGross, consolidation.totalValue),
+    yieldOnCostPercent: percentOf(trailing12MonthGross, consolidation.totalCost),
+    totals,
+    months: Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month)),
+    holdings: Array.from(bySymbol.values()).sort((a, b) => b.gross - a.gross),
+    entries,
+    missingRates: Array.from(missingRates),
+  };
+}
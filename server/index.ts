@@ -3,9 +3,11 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import authRouter from "./auth";
+import { scheduler } from "./jobs";
 
 const app = express();
-app.use(express.json());
+// Imports post a whole spreadsheet's rows as JSON
+app.use(express.json({ limit: "5mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 // Add auth router before other routes
@@ -72,5 +74,8 @@ app.use((req, res, next) => {
     reusePort: false,
   }, () => {
     log(`serving on port ${port}`);
+    if (process.env.SCHEDULER_ENABLED !== "false") {
+      scheduler.start();
+    }
   });
 })();
@@ -0,0 +1,226 @@
+import { createHash, randomUUID } from "crypto";
+import { Readable } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+
+// How long the Java service gets to answer before the gateway gives up
+const REQUEST_TIMEOUT_MS = 30_000;
+// A token this close to expiring is refreshed first, so it doesn't lapse on the way
+const REFRESH_MARGIN_MS = 60_000;
+
+// Response headers passed back to the browser as they are
+const forwardedHeaders = ["content-type", "content-disposition", "cache-control"];
+
+// The Java service's tokens for the logged-in user, from its /api/auth/token exchange
+export type JavaToken = {
+  idToken: string;
+  refreshToken: string;
+  expiresAt: number; // epoch milliseconds
+};
+
+declare module "express-session" {
+  interface SessionData {
+    javaToken?: JavaToken;
+    javaAuthState?: string; // guards the token exchange's OAuth round trip
+  }
+}
+
+export function javaServiceUrl(env: NodeJS.ProcessEnv = process.env): string {
+  return env.JAVA_SERVICE_URL || "http://localhost:8080/portfolio-mgr";
+}
+
+// The id a request is known by in both services' logs: the caller's when it sent a sane one
+function correlationId(req: Request): string {
+  const given = req.get("x-correlation-id");
+  return given && /^[\w-]{1,64}$/.test(given) ? given : randomUUID();
+}
+
+// Stable for the login but not the session cookie itself, which stays with Express
+function sessionId(req: Request): string {
+  return createHash("sha256").update(req.sessionID ?? "").digest("hex").slice(0, 32);
+}
+
+// Ask the service's /api/auth/token for a new set of tokens
+async function requestJavaToken(
+  baseUrl: string,
+  body: { code?: string; redirectUri?: string },
+  bearer?: string,
+): Promise<JavaToken> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "api-interaction-id": randomUUID(),
+    "x-session-id": randomUUID(),
+    lang: "en",
+  };
+  if (bearer) headers.Authorization = `Bearer ${bearer}`;
+  const response = await fetch(`${baseUrl}/api/auth/token`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Token exchange failed: HTTP ${response.status}`);
+  }
+  const token: { idToken: string; refreshToken: string; expirySec: number } = await response.json();
+  return {
+    idToken: token.idToken,
+    refreshToken: token.refreshToken,
+    expiresAt: Date.now() + token.expirySec * 1000,
+  };
+}
+
+/**
+ * Exchange an OAuth authorization code for the Java service's tokens. The
+ * redirect URI must be the one the code was issued for.
+ */
+export function exchangeJavaToken(baseUrl: string, code: string, redirectUri: string): Promise<JavaToken> {
+  return requestJavaToken(baseUrl, { code, redirectUri });
+}
+
+/**
+ * Trade the refresh token for new tokens. The contract has no separate
+ * refresh endpoint: the token exchange takes the refresh token as its bearer
+ * in place of an authorization code.
+ */
+export function refreshJavaToken(baseUrl: string, token: JavaToken): Promise<JavaToken> {
+  return requestJavaToken(baseUrl, {}, token.refreshToken);
+}
+
+// The session's token, refreshed when it is about to expire; undefined when the user must sign in again
+async function currentJavaToken(req: Request, baseUrl: string, id: string): Promise<JavaToken | undefined> {
+  const token = req.session.javaToken;
+  if (!token) return undefined;
+  if (token.expiresAt - REFRESH_MARGIN_MS > Date.now()) return token;
+
+  try {
+    req.session.javaToken = await refreshJavaToken(baseUrl, token);
+    return req.session.javaToken;
+  } catch (error) {
+    console.error(`Java token refresh [${id}] failed:`, (error as Error).message);
+    delete req.session.javaToken;
+    return undefined;
+  }
+}
+
+// The message in a Java error body: Spring's {message} or {error}, or plain text
+function errorMessage(body: string): string | undefined {
+  try {
+    const parsed = JSON.parse(body);
+    return parsed?.message || parsed?.error || undefined;
+  } catch {
+    return body.trim().slice(0, 200) || undefined;
+  }
+}
+
+/**
+ * The service URL a gateway request maps to, or undefined when its path
+ * resolves outside the service's /api/. The path is decoded and each segment
+ * re-encoded before the URL parser removes dot segments, so neither ../ nor
+ * %2e%2e/ can climb out to the service's other endpoints with the user's token.
+ */
+function targetUrl(baseUrl: string, requestUrl: string): URL | undefined {
+  const queryStart = requestUrl.indexOf("?");
+  const path = queryStart === -1 ? requestUrl : requestUrl.slice(0, queryStart);
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(path);
+  } catch {
+    return undefined;
+  }
+  // Some servlet containers read a backslash as a separator too
+  if (decoded.includes("\\")) return undefined;
+
+  const api = new URL(`${baseUrl}/api/`);
+  const target = new URL(api);
+  const segments = decoded.replace(/^\/+/, "").split("/").map(encodeURIComponent);
+  target.pathname = `${api.pathname}${segments.join("/")}`;
+  if (target.origin !== api.origin || !target.pathname.startsWith(api.pathname)) return undefined;
+  if (queryStart !== -1) target.search = requestUrl.slice(queryStart);
+  return target;
+}
+
+function sendError(res: Response, status: number, message: string, correlationId: string) {
+  res.status(status).json({ message, correlationId });
+}
+
+/**
+ * Proxy requests to the Java portfolio service, mounted under /api/v2: a
+ * request for /api/v2/holdings goes to the service's /api/holdings. The
+ * logged-in user's token from the exchange is injected, refreshed shortly
+ * before it expires, so the browser never sees the service's URL or
+ * credentials. Errors come back in this server's
+ * {message} shape with the request's correlation id.
+ */
+export function javaGateway(baseUrl: string): RequestHandler {
+  return async (req, res) => {
+    const id = correlationId(req);
+    res.setHeader("X-Correlation-Id", id);
+
+    const url = targetUrl(baseUrl, req.url);
+    if (!url) {
+      return sendError(res, 400, "Not a portfolio service path", id);
+    }
+
+    const token = await currentJavaToken(req, baseUrl, id);
+    if (!token) {
+      return sendError(res, 401, "Sign in again to use the portfolio service", id);
+    }
+
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${token.idToken}`,
+      "api-interaction-id": id,
+      "x-correlation-id": id,
+      "x-session-id": sessionId(req),
+      lang: req.acceptsLanguages()[0]?.split("-")[0] || "en",
+    };
+    let body: BodyInit | undefined;
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      if (req.is("application/json")) {
+        headers["Content-Type"] = "application/json";
+        body = JSON.stringify(req.body);
+      } else if (req.get("content-type")) {
+        // Uploads aren't parsed by Express, so they stream through untouched
+        headers["Content-Type"] = req.get("content-type")!;
+        body = Readable.toWeb(req) as unknown as BodyInit;
+      }
+    }
+
+    let response: globalThis.Response;
+    try {
+      response = await fetch(url, {
+        method: req.method,
+        headers,
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        duplex: "half",
+      } as RequestInit);
+    } catch (error) {
+      const timedOut = (error as Error).name === "TimeoutError";
+      // Logs name the path alone: the query can carry a CAS statement's password
+      console.error(`Java service ${req.method} ${req.path} [${id}] failed:`, (error as Error).message);
+      return sendError(res, timedOut ? 504 : 502, timedOut
+        ? "The portfolio service took too long to answer"
+        : "The portfolio service is unavailable", id);
+    }
+
+    if (!response.ok) {
+      const message = errorMessage(await response.text());
+      console.error(`Java service ${req.method} ${req.path} [${id}] answered ${response.status}: ${message ?? ""}`);
+      if (response.status === 401 || response.status === 403) {
+        delete req.session.javaToken;
+        return sendError(res, 401, "The portfolio service rejected your sign-in; sign in again", id);
+      }
+      if (response.status >= 500) {
+        return sendError(res, 502, "The portfolio service failed to handle the request", id);
+      }
+      return sendError(res, response.status, message || `The portfolio service answered ${response.status}`, id);
+    }
+
+    res.status(response.status);
+    for (const name of forwardedHeaders) {
+      const value = response.headers.get(name);
+      if (value) res.setHeader(name, value);
+    }
+    res.send(Buffer.from(await response.arrayBuffer()));
+  };
+}
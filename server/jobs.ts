@@ -0,0 +1,121 @@
+import { portfolioTrashDays } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { storage } from "./storage";
+import { marketDataProviders, type MarketDataChain } from "./market-data";
+import { isExchangeOpen, isFxMarketOpen } from "./market-data/trading-hours";
+import { countResults, refreshHeldPrices } from "./price-refresh";
+import { refreshCurrencyRates } from "./fx";
+import { backfillPriceHistory } from "./price-history";
+import { JobScheduler, type JobOutcome, type ScheduledJob } from "./scheduler";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Refresh every held symbol whose exchange is in its trading session
+export function priceRefreshJob(
+  store: IStorage,
+  providers: Pick<MarketDataChain, "getQuotes">,
+  intervalMs: number,
+): ScheduledJob {
+  return {
+    name: "price-refresh",
+    description: "Refresh prices of held instruments while their exchange is trading",
+    intervalMs,
+    async run(): Promise<JobOutcome> {
+      const now = new Date();
+      const held = await store.getHeldInstruments();
+      const trading = held.filter(instrument => isExchangeOpen(instrument.exchange, now));
+      const closed = new Set(held.filter(instrument => !trading.includes(instrument)).map(instrument => instrument.exchange));
+
+      const results = await refreshHeldPrices(store, providers, trading);
+      const { updated, stale, failed } = countResults(results);
+      const skipped = closed.size > 0 ? `; closed: ${Array.from(closed).join(", ")}` : "";
+      return {
+        summary: `${results.length} symbols: ${updated} updated, ${stale} stale, ${failed} failed${skipped}`,
+        errors: results.filter(result => result.reason).map(result => `${result.symbol}: ${result.reason}`),
+      };
+    },
+  };
+}
+
+// Refresh the rate from each holding's currency to its portfolio's base currency
+export function fxRefreshJob(
+  store: IStorage,
+  providers: Pick<MarketDataChain, "getFxRate">,
+  intervalMs: number,
+): ScheduledJob {
+  return {
+    name: "fx-refresh",
+    description: "Refresh exchange rates between holding and portfolio base currencies",
+    intervalMs,
+    async run(): Promise<JobOutcome> {
+      if (!isFxMarketOpen()) {
+        return { summary: "FX market closed" };
+      }
+
+      const pairs = new Map<string, [string, string]>();
+      for (const { currency, baseCurrency } of await store.getHeldInstruments()) {
+        if (currency !== baseCurrency) {
+          pairs.set(`${currency}/${baseCurrency}`, [currency, baseCurrency]);
+        }
+      }
+
+      const errors = await refreshCurrencyRates(store, providers, Array.from(pairs.values()));
+      return { summary: `${pairs.size - errors.length} of ${pairs.size} pairs updated`, errors };
+    },
+  };
+}
+
+// Top up the daily closes of every benchmark, which comparisons are priced from
+export function benchmarkHistoryJob(
+  store: IStorage,
+  providers: Pick<MarketDataChain, "getDailyHistory">,
+  intervalMs: number,
+): ScheduledJob {
+  return {
+    name: "benchmark-history",
+    description: "Load the latest daily closes of benchmark instruments",
+    intervalMs,
+    async run(): Promise<JobOutcome> {
+      const results = await backfillPriceHistory(store, providers, await store.getBenchmarkSymbols());
+      const saved = results.reduce((sum, result) => sum + result.saved, 0);
+      return {
+        summary: `${results.length} benchmarks: ${saved} bars saved`,
+        errors: results.filter(result => result.error).map(result => `${result.symbol}: ${result.error}`),
+      };
+    },
+  };
+}
+
+// Purge portfolios that have been in the trash longer than it keeps them
+export function trashPurgeJob(store: IStorage, intervalMs: number): ScheduledJob {
+  return {
+    name: "trash-purge",
+    description: `Purge portfolios deleted more than ${portfolioTrashDays} days ago`,
+    intervalMs,
+    async run(): Promise<JobOutcome> {
+      const purged = await store.purgeDeletedPortfolios(new Date(Date.now() - portfolioTrashDays * DAY_MS));
+      return { summary: `${purged} portfolios purged` };
+    },
+  };
+}
+
+/**
+ * Build the background job scheduler from the environment:
+ *  - PRICE_REFRESH_INTERVAL_MINUTES: how often trading exchanges' prices refresh (default 15)
+ *  - FX_REFRESH_INTERVAL_MINUTES: how often exchange rates refresh (default 60)
+ *  - BENCHMARK_HISTORY_INTERVAL_MINUTES: how often benchmarks' daily closes are topped up (default 720)
+ *  - TRASH_PURGE_INTERVAL_MINUTES: how often expired deleted portfolios are purged (default 1440)
+ * Jobs only run once start() is called.
+ */
+export function createScheduler(env: NodeJS.ProcessEnv = process.env): JobScheduler {
+  const minutes = (value: string | undefined, fallback: number) => (parseFloat(value || "") || fallback) * MINUTE_MS;
+  const scheduler = new JobScheduler();
+  scheduler.register(priceRefreshJob(storage, marketDataProviders, minutes(env.PRICE_REFRESH_INTERVAL_MINUTES, 15)));
+  scheduler.register(fxRefreshJob(storage, marketDataProviders, minutes(env.FX_REFRESH_INTERVAL_MINUTES, 60)));
+  scheduler.register(benchmarkHistoryJob(storage, marketDataProviders, minutes(env.BENCHMARK_HISTORY_INTERVAL_MINUTES, 12 * 60)));
+  scheduler.register(trashPurgeJob(storage, minutes(env.TRASH_PURGE_INTERVAL_MINUTES, 24 * 60)));
+  return scheduler;
+}
+
+export const scheduler = createScheduler();
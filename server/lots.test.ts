@@ -0,0 +1,135 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { InsertTransaction, LotReliefMethod, Transaction } from "@shared/schema";
+import { buildLotLedger, oversoldSales, positionFromLedger } from "./lots";
+import { transactionFromInsert } from "./storage";
+
+function trade(id: string, date: string, fields: Partial<InsertTransaction>): Transaction {
+  return transactionFromInsert({
+    portfolioId: "portfolio-1",
+    symbol: "AAPL",
+    type: "buy",
+    quantity: "10",
+    price: "100",
+    totalAmount: "1000",
+    currency: "USD",
+    exchange: "NASDAQ",
+    date: new Date(`${date}T00:00:00Z`),
+    ...fields,
+  }, id);
+}
+
+function assertClose(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-6, `expected ${expected}, got ${actual}`);
+}
+
+// Three lots bought at different prices, then 15 of their 30 shares sold at 200
+const lotA = trade("lot-a", "2024-01-02", { price: "100" });
+const lotB = trade("lot-b", "2024-02-01", { price: "150" });
+const lotC = trade("lot-c", "2024-03-01", { price: "120" });
+const sellHalf = (fields: Partial<InsertTransaction> = {}) =>
+  trade("sell", "2024-04-01", { type: "sell", quantity: "15", price: "200", totalAmount: "3000", ...fields });
+
+function openQuantities(transactions: Transaction[], method: LotReliefMethod): Record<string, number> {
+  const ledger = buildLotLedger(transactions, method, new Date("2024-05-01T00:00:00Z"));
+  return Object.fromEntries(ledger.openLots.map(lot => [lot.id, lot.quantity]));
+}
+
+describe("buildLotLedger", () => {
+  const cases: { method: LotReliefMethod; relievedCost: number; open: Record<string, number> }[] = [
+    { method: "FIFO", relievedCost: 10 * 100 + 5 * 150, open: { "lot-b": 5, "lot-c": 10 } },
+    { method: "LIFO", relievedCost: 10 * 120 + 5 * 150, open: { "lot-a": 10, "lot-b": 5 } },
+    { method: "HIFO", relievedCost: 10 * 150 + 5 * 120, open: { "lot-a": 10, "lot-c": 5 } },
+    { method: "AVERAGE", relievedCost: (1000 + 1500 + 1200) / 2, open: { "lot-a": 5, "lot-b": 5, "lot-c": 5 } },
+  ];
+
+  for (const { method, relievedCost, open } of cases) {
+    it(`relieves lots ${method}`, () => {
+      const transactions = [lotA, lotB, lotC, sellHalf()];
+      const ledger = buildLotLedger(transactions, method);
+
+      assertClose(ledger.realizedGain, 15 * 200 - relievedCost);
+      const quantities = openQuantities(transactions, method);
+      assert.deepEqual(Object.keys(quantities).sort(), Object.keys(open).sort());
+      for (const [lotId, quantity] of Object.entries(open)) assertClose(quantities[lotId], quantity);
+    });
+  }
+
+  it("relieves the selected lots SPECIFIC, and the rest first-in first-out", () => {
+    const sell = sellHalf({ reliefMethod: "SPECIFIC", lotSelections: [{ lotId: "lot-c", quantity: "8" }] });
+    const ledger = buildLotLedger([lotA, lotB, lotC, sell], "FIFO");
+
+    assert.deepEqual(
+      ledger.disposals.map(d => [d.lotId, d.quantity, d.method]),
+      [["lot-c", 8, "SPECIFIC"], ["lot-a", 7, "SPECIFIC"]],
+    );
+    assertClose(ledger.realizedGain, 15 * 200 - (8 * 120 + 7 * 100));
+    assert.deepEqual(openQuantities([lotA, lotB, lotC, sell], "FIFO"), { "lot-a": 3, "lot-b": 10, "lot-c": 2 });
+  });
+
+  it("uses a sell's own relief method over the portfolio's", () => {
+    const ledger = buildLotLedger([lotA, lotB, lotC, sellHalf({ reliefMethod: "HIFO" })], "FIFO");
+    assertClose(ledger.realizedGain, 15 * 200 - (10 * 150 + 5 * 120));
+  });
+
+  it("keeps a lot's cost through a split and relieves part of it", () => {
+    const split = trade("split", "2024-02-01", { type: "split", quantity: "0", price: "0", totalAmount: "0", splitRatio: "2:1" });
+    const sell = trade("sell", "2024-03-01", { type: "sell", quantity: "5", price: "80", totalAmount: "400" });
+    const ledger = buildLotLedger([lotA, split, sell], "FIFO");
+
+    const [lot] = ledger.openLots;
+    assert.equal(lot.originalQuantity, 20);
+    assert.equal(lot.quantity, 15);
+    assert.equal(lot.costPerShare, 50);
+    assert.equal(lot.costBasis, 750);
+    assert.deepEqual(ledger.closedLots, []);
+    assertClose(ledger.realizedGain, 5 * 80 - 5 * 50);
+    assert.deepEqual(positionFromLedger(ledger, "AAPL"), { quantity: 15, averageCost: 50 });
+  });
+
+  it("closes a lot the sells use up", () => {
+    const sell = trade("sell", "2024-02-01", { type: "sell", quantity: "10", price: "120", totalAmount: "1200" });
+    const ledger = buildLotLedger([lotA, sell], "FIFO");
+
+    assert.deepEqual(ledger.openLots, []);
+    assert.deepEqual(ledger.closedLots.map(lot => lot.id), ["lot-a"]);
+    assert.deepEqual(positionFromLedger(ledger, "AAPL"), { quantity: 0, averageCost: 0 });
+  });
+});
+
+describe("oversoldSales", () => {
+  it("finds a sell of more than was held at the time", () => {
+    const sell = trade("sell", "2024-02-01", { type: "sell", quantity: "15", price: "120", totalAmount: "1800" });
+    const [oversold, ...rest] = oversoldSales([lotA, sell], "FIFO");
+
+    assert.equal(oversold.transaction.id, "sell");
+    assert.equal(oversold.held, 10);
+    assert.deepEqual(rest, []);
+  });
+
+  it("judges a sell by the holding on its own date", () => {
+    const early = trade("sell", "2024-01-15", { type: "sell", quantity: "15", price: "120", totalAmount: "1800" });
+    assert.deepEqual(oversoldSales([lotA, lotB, early], "FIFO").map(o => [o.transaction.id, o.held]), [["sell", 10]]);
+
+    const late = trade("sell", "2024-03-01", { type: "sell", quantity: "15", price: "120", totalAmount: "1800" });
+    assert.deepEqual(oversoldSales([lotA, lotB, late], "FIFO"), []);
+  });
+
+  it("counts the shares a split added", () => {
+    const split = trade("split", "2024-02-01", { type: "split", quantity: "0", price: "0", totalAmount: "0", splitRatio: "2:1" });
+    const sell = (quantity: string) =>
+      trade("sell", "2024-03-01", { type: "sell", quantity, price: "60", totalAmount: "0" });
+
+    assert.deepEqual(oversoldSales([lotA, split, sell("20")], "FIFO"), []);
+    assert.deepEqual(oversoldSales([lotA, split, sell("25")], "FIFO").map(o => o.held), [20]);
+  });
+
+  it("leaves out cancelled sells, and counts against a cancelled buy", () => {
+    const sell = trade("sell", "2024-03-01", { type: "sell", quantity: "15", price: "120", totalAmount: "1800" });
+    const cancelSell = trade("cancel-sell", "2024-03-02", { type: "cancellation", relatedTransactionId: "sell" });
+    assert.deepEqual(oversoldSales([lotA, sell, cancelSell], "FIFO"), []);
+
+    const cancelBuy = trade("cancel-buy", "2024-03-02", { type: "cancellation", relatedTransactionId: "lot-b" });
+    assert.deepEqual(oversoldSales([lotA, lotB, sell, cancelBuy], "FIFO").map(o => o.held), [10]);
+  });
+});
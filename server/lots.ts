@@ -0,0 +1,455 @@
+import type {
+  Transaction,
+  TaxLot,
+  LotDisposal,
+  LotLedger,
+  LotReliefMethod,
+  LotSelection,
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-9;
+
+type LotSlice = { lot: TaxLot; quantity: number };
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.floor((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+// Replay order: trade date, then entry order for trades on the same day
+export function sortChronologically(transactions: Transaction[]): Transaction[] {
+  return [...transactions].sort((a, b) =>
+    a.date.getTime() - b.date.getTime() ||
+    (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0)
+  );
+}
+
+// Drop cancellations together with the trades they reverse
+export function withoutCancelled(transactions: Transaction[]): Transaction[] {
+  const cancelled = new Set(
+    transactions
+      .filter(t => t.type === "cancellation" && t.relatedTransactionId)
+      .map(t => t.relatedTransactionId as string)
+  );
+  return transactions.filter(t => t.type !== "cancellation" && !cancelled.has(t.id));
+}
+
+// Cancellations that deleting `ids` would leave pointing at a missing trade
+export function orphanedCancellations(transactions: Transaction[], ids: string[]): Transaction[] {
+  const deleting = new Set(ids);
+  return transactions.filter(t =>
+    t.type === "cancellation" &&
+    !deleting.has(t.id) &&
+    !!t.relatedTransactionId &&
+    deleting.has(t.relatedTransactionId)
+  );
+}
+
+function orderLots(lots: TaxLot[], method: LotReliefMethod): TaxLot[] {
+  switch (method) {
+    case "LIFO":
+      return [...lots].sort((a, b) => b.openDate.getTime() - a.openDate.getTime());
+    case "HIFO":
+      return [...lots].sort((a, b) => b.costPerShare - a.costPerShare);
+    default:
+      return [...lots].sort((a, b) => a.openDate.getTime() - b.openDate.getTime());
+  }
+}
+
+/**
+ * Pick which lots (and how much of each) a sell of `quantity` relieves.
+ * Never relieves more than is held; any excess is simply not matched, which
+ * is why such sells are refused when recorded (see `oversoldSales`).
+ */
+function selectLots(
+  lots: TaxLot[],
+  quantity: number,
+  method: LotReliefMethod,
+  selections: LotSelection[] | null,
+): LotSlice[] {
+  const held = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const toRelieve = Math.min(quantity, held);
+  if (toRelieve <= EPSILON) return [];
+
+  if (method === "AVERAGE") {
+    // Pooled cost: every lot gives up the same fraction of its shares
+    const fraction = toRelieve / held;
+    return lots.map(lot => ({ lot, quantity: lot.quantity * fraction }));
+  }
+
+  const slices = new Map<TaxLot, number>();
+  let remaining = toRelieve;
+
+  if (method === "SPECIFIC" && selections) {
+    for (const selection of selections) {
+      const lot = lots.find(l => l.id === selection.lotId);
+      if (!lot || remaining <= EPSILON) continue;
+      const available = lot.quantity - (slices.get(lot) ?? 0);
+      const take = Math.min(parseFloat(selection.quantity), available, remaining);
+      if (take <= EPSILON) continue;
+      slices.set(lot, (slices.get(lot) ?? 0) + take);
+      remaining -= take;
+    }
+  }
+
+  // Anything not covered by an explicit selection is relieved first-in first-out
+  for (const lot of orderLots(lots, method === "SPECIFIC" ? "FIFO" : method)) {
+    if (remaining <= EPSILON) break;
+    const available = lot.quantity - (slices.get(lot) ?? 0);
+    const take = Math.min(available, remaining);
+    if (take <= EPSILON) continue;
+    slices.set(lot, (slices.get(lot) ?? 0) + take);
+    remaining -= take;
+  }
+
+  return Array.from(slices, ([lot, sliceQuantity]) => ({ lot, quantity: sliceQuantity }));
+}
+
+/**
+ * Parse a "new:old" ratio such as "2:1" into new shares per old share.
+ * Returns undefined for anything that is not two positive numbers.
+ */
+export function parseRatio(ratio: string | null | undefined): number | undefined {
+  const match = ratio?.trim().match(/^(\d+(?:\.\d+)?)\s*[:/]\s*(\d+(?:\.\d+)?)$/);
+  if (!match) return undefined;
+  const [newShares, oldShares] = [parseFloat(match[1]), parseFloat(match[2])];
+  return newShares > 0 && oldShares > 0 ? newShares / oldShares : undefined;
+}
+
+type CorporateActionFields = Pick<
+  Transaction,
+  | "type"
+  | "splitRatio"
+  | "relatedSymbol"
+  | "costApportionment"
+  | "relatedTransactionId"
+  | "totalAmount"
+  | "withholdingTax"
+  | "reinvestedQuantity"
+  | "reinvestmentPrice"
+>;
+
+// Returns why a corporate action is missing the fields it needs, if it is
+export function validateCorporateAction(transaction: CorporateActionFields): string | undefined {
+  switch (transaction.type) {
+    case "split":
+    case "bonus":
+    case "consolidate":
+      return parseRatio(transaction.splitRatio) ? undefined : `A ${transaction.type} requires a splitRatio such as "2:1"`;
+    case "demerger": {
+      const apportionment = parseFloat(transaction.costApportionment ?? "");
+      if (!transaction.relatedSymbol) return "A demerger requires the relatedSymbol of the new instrument";
+      if (!(apportionment >= 0 && apportionment <= 100)) return "A demerger requires a costApportionment between 0 and 100";
+      return undefined;
+    }
+    case "cancellation":
+      return transaction.relatedTransactionId ? undefined : "A cancellation requires the relatedTransactionId it reverses";
+    case "dividend": {
+      const gross = parseFloat(transaction.totalAmount);
+      const withheld = parseFloat(transaction.withholdingTax ?? "0");
+      if (!(withheld >= 0 && withheld <= gross)) return "Withholding tax must be between 0 and the gross dividend";
+      if (!transaction.reinvestedQuantity && !transaction.reinvestmentPrice) return undefined;
+      const reinvested = parseFloat(transaction.reinvestedQuantity ?? "") * parseFloat(transaction.reinvestmentPrice ?? "");
+      if (!(reinvested > 0)) return "A reinvested dividend requires both reinvestedQuantity and reinvestmentPrice";
+      // Allow for the issue price being rounded
+      if (reinvested > (gross - withheld) * 1.01) return "Reinvested shares cost more than the dividend paid";
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Shares held after a split, consolidation or bonus issue per share held before it
+export function shareMultiplier(transaction: Transaction): number | undefined {
+  const ratio = parseRatio(transaction.splitRatio);
+  if (!ratio) return undefined;
+  return transaction.type === "bonus" ? 1 + ratio : ratio;
+}
+
+// Multiply a lot's share count, keeping its total cost unchanged
+function rescaleLot(lot: TaxLot, factor: number) {
+  lot.quantity *= factor;
+  lot.originalQuantity *= factor;
+  lot.costPerShare /= factor;
+}
+
+/**
+ * Build the tax-lot ledger for a set of transactions by replaying them in date
+ * order. Every buy opens a lot; every sell relieves lots using its own
+ * reliefMethod, or `defaultMethod` when it has none. Corporate actions adjust
+ * the lots open on their date:
+ *  - split / consolidate: multiply quantity by the ratio, keeping total cost
+ *  - bonus: add ratio bonus shares per share held, keeping total cost
+ *  - demerger: move costApportionment % of each lot's cost into a new lot of
+ *    relatedSymbol, sharing `quantity` child shares in proportion to holdings
+ *  - roc: reduce cost by `price` per share held; any excess is a realized gain
+ *  - dividend: shares reinvested under a DRIP open a lot at the issue price
+ *  - cancellation: the trade it references (and itself) are ignored
+ *  - adjustment: rescale the open lots to `quantity` shares costing `price`
+ *    each, keeping their dates; a position with no lots opens one
+ */
+export function buildLotLedger(
+  transactions: Transaction[],
+  defaultMethod: LotReliefMethod,
+  asOf: Date = new Date(),
+): LotLedger {
+  const openLots: TaxLot[] = [];
+  const closedLots: TaxLot[] = [];
+  const disposals: LotDisposal[] = [];
+
+  for (const transaction of sortChronologically(withoutCancelled(transactions))) {
+
+    const quantity = parseFloat(transaction.quantity);
+    const price = parseFloat(transaction.price);
+    const fees = parseFloat(transaction.fees || "0");
+    const symbolLots = openLots.filter(lot => lot.symbol === transaction.symbol);
+
+    switch (transaction.type) {
+      case "buy": {
+        if (quantity <= EPSILON) break;
+        const cost = quantity * price + fees;
+        openLots.push({
+          id: transaction.id,
+          portfolioId: transaction.portfolioId,
+          symbol: transaction.symbol,
+          currency: transaction.currency,
+          openDate: transaction.date,
+          originalQuantity: quantity,
+          quantity,
+          costPerShare: cost / quantity,
+          costBasis: cost,
+          holdingPeriodDays: 0,
+        });
+        break;
+      }
+
+      case "sell": {
+        const method = (transaction.reliefMethod as LotReliefMethod | null) ?? defaultMethod;
+        const slices = selectLots(symbolLots, quantity, method, transaction.lotSelections);
+
+        for (const slice of slices) {
+          const { lot } = slice;
+          const costBasis = slice.quantity * lot.costPerShare;
+          // Disposal fees are shared across lots in proportion to quantity
+          const proceeds = slice.quantity * price - fees * (slice.quantity / quantity);
+          const holdingPeriodDays = daysBetween(lot.openDate, transaction.date);
+
+          disposals.push({
+            transactionId: transaction.id,
+            lotId: lot.id,
+            symbol: lot.symbol,
+            currency: lot.currency,
+            method,
+            openDate: lot.openDate,
+            closeDate: transaction.date,
+            quantity: slice.quantity,
+            costBasis,
+            proceeds,
+            realizedGain: proceeds - costBasis,
+            holdingPeriodDays,
+          });
+
+          lot.quantity -= slice.quantity;
+          lot.costBasis = lot.quantity * lot.costPerShare;
+          lot.holdingPeriodDays = holdingPeriodDays;
+
+          if (lot.quantity <= EPSILON) {
+            lot.quantity = 0;
+            lot.costBasis = 0;
+            openLots.splice(openLots.indexOf(lot), 1);
+            closedLots.push(lot);
+          }
+        }
+        break;
+      }
+
+      case "dividend": {
+        // Shares issued under a dividend reinvestment plan open a lot at the issue price
+        const reinvested = parseFloat(transaction.reinvestedQuantity ?? "0");
+        if (reinvested <= EPSILON) break;
+        const issuePrice = parseFloat(transaction.reinvestmentPrice ?? "0");
+        openLots.push({
+          id: transaction.id,
+          portfolioId: transaction.portfolioId,
+          symbol: transaction.symbol,
+          currency: transaction.currency,
+          openDate: transaction.date,
+          originalQuantity: reinvested,
+          quantity: reinvested,
+          costPerShare: issuePrice,
+          costBasis: reinvested * issuePrice,
+          holdingPeriodDays: 0,
+        });
+        break;
+      }
+
+      case "split":
+      case "consolidate":
+      case "bonus": {
+        const multiplier = shareMultiplier(transaction);
+        if (!multiplier) break;
+        symbolLots.forEach(lot => rescaleLot(lot, multiplier));
+        break;
+      }
+
+      case "demerger": {
+        const apportionment = parseFloat(transaction.costApportionment ?? "0") / 100;
+        const parentQuantity = symbolLots.reduce((sum, lot) => sum + lot.quantity, 0);
+        if (!transaction.relatedSymbol || parentQuantity <= EPSILON) break;
+
+        for (const lot of symbolLots) {
+          const childCost = lot.costBasis * apportionment;
+          const childQuantity = quantity * (lot.quantity / parentQuantity);
+
+          lot.costBasis -= childCost;
+          lot.costPerShare = lot.costBasis / lot.quantity;
+
+          if (childQuantity <= EPSILON) continue;
+          // The child inherits the parent's acquisition date for holding-period purposes
+          openLots.push({
+            id: `${transaction.id}:${lot.id}`,
+            portfolioId: transaction.portfolioId,
+            symbol: transaction.relatedSymbol,
+            currency: transaction.currency,
+            openDate: lot.openDate,
+            originalQuantity: childQuantity,
+            quantity: childQuantity,
+            costPerShare: childCost / childQuantity,
+            costBasis: childCost,
+            holdingPeriodDays: 0,
+          });
+        }
+        break;
+      }
+
+      case "adjustment": {
+        const held = symbolLots.reduce((sum, lot) => sum + lot.quantity, 0);
+        const costBefore = symbolLots.reduce((sum, lot) => sum + lot.costBasis, 0);
+        const cost = quantity * price;
+
+        if (quantity <= EPSILON) {
+          // Closing a position by correction realizes nothing
+          for (const lot of symbolLots) {
+            lot.quantity = 0;
+            lot.costBasis = 0;
+            openLots.splice(openLots.indexOf(lot), 1);
+            closedLots.push(lot);
+          }
+        } else if (held <= EPSILON) {
+          openLots.push({
+            id: transaction.id,
+            portfolioId: transaction.portfolioId,
+            symbol: transaction.symbol,
+            currency: transaction.currency,
+            openDate: transaction.date,
+            originalQuantity: quantity,
+            quantity,
+            costPerShare: price,
+            costBasis: cost,
+            holdingPeriodDays: 0,
+          });
+        } else {
+          for (const lot of symbolLots) {
+            const share = costBefore > EPSILON ? lot.costBasis / costBefore : lot.quantity / held;
+            rescaleLot(lot, quantity / held);
+            lot.costBasis = cost * share;
+            lot.costPerShare = lot.costBasis / lot.quantity;
+          }
+        }
+        break;
+      }
+
+      case "roc": {
+        for (const lot of symbolLots) {
+          const returned = lot.quantity * price;
+          const excess = Math.max(returned - lot.costBasis, 0);
+
+          lot.costBasis = Math.max(lot.costBasis - returned, 0);
+          lot.costPerShare = lot.costBasis / lot.quantity;
+
+          if (excess > EPSILON) {
+            // Capital returned beyond the cost base is taxed as a gain straight away
+            disposals.push({
+              transactionId: transaction.id,
+              lotId: lot.id,
+              symbol: lot.symbol,
+              currency: lot.currency,
+              method: defaultMethod,
+              openDate: lot.openDate,
+              closeDate: transaction.date,
+              quantity: 0,
+              costBasis: 0,
+              proceeds: excess,
+              realizedGain: excess,
+              holdingPeriodDays: daysBetween(lot.openDate, transaction.date),
+            });
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  for (const lot of openLots) {
+    lot.holdingPeriodDays = daysBetween(lot.openDate, asOf);
+  }
+
+  return {
+    method: defaultMethod,
+    openLots,
+    closedLots,
+    disposals,
+    realizedGain: disposals.reduce((sum, d) => sum + d.realizedGain, 0),
+  };
+}
+
+// Sells of more shares than the open lots held at the time, with how many were held
+export function oversoldSales(
+  transactions: Transaction[],
+  defaultMethod: LotReliefMethod,
+): { transaction: Transaction; held: number }[] {
+  const relieved = new Map<string, number>();
+  for (const disposal of buildLotLedger(transactions, defaultMethod).disposals) {
+    relieved.set(disposal.transactionId, (relieved.get(disposal.transactionId) ?? 0) + disposal.quantity);
+  }
+  return withoutCancelled(transactions)
+    .filter(t => t.type === "sell" && parseFloat(t.quantity) - (relieved.get(t.id) ?? 0) > EPSILON)
+    .map(transaction => ({ transaction, held: relieved.get(transaction.id) ?? 0 }));
+}
+
+// Realized gain of each sell (or return of capital), keyed by transaction id
+export function realizedGainByTransaction(ledger: LotLedger): Map<string, number> {
+  const gains = new Map<string, number>();
+  for (const disposal of ledger.disposals) {
+    gains.set(disposal.transactionId, (gains.get(disposal.transactionId) ?? 0) + disposal.realizedGain);
+  }
+  return gains;
+}
+
+// Quantity and average cost of what is still held in a symbol
+export function positionFromLedger(ledger: LotLedger, symbol: string): { quantity: number; averageCost: number } {
+  const lots = ledger.openLots.filter(lot => lot.symbol === symbol);
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const costBasis = lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+  return { quantity, averageCost: quantity > 0 ? costBasis / quantity : 0 };
+}
+
+// Cost of the position in the transaction's symbol just before it, replaying the transactions that precede it
+export function positionCostBefore(preceding: Transaction[], transaction: Transaction, method: LotReliefMethod): number {
+  return buildLotLedger(preceding, method, transaction.date).openLots
+    .filter(lot => lot.symbol === transaction.symbol)
+    .reduce((sum, lot) => sum + lot.costBasis, 0);
+}
+
+// Restrict a ledger to a single symbol
+export function filterLedger(ledger: LotLedger, symbol: string): LotLedger {
+  const disposals = ledger.disposals.filter(d => d.symbol === symbol);
+  return {
+    method: ledger.method,
+    openLots: ledger.openLots.filter(lot => lot.symbol === symbol),
+    closedLots: ledger.closedLots.filter(lot => lot.symbol === symbol),
+    disposals,
+    realizedGain: disposals.reduce((sum, d) => sum + d.realizedGain, 0),
+  };
+}
@@ -0,0 +1,109 @@
+import type { InsertCurrencyHistory, InsertMarketData, InsertPriceHistory, InstrumentSearchResult } from "@shared/schema";
+import { MarketDataProviderError, type MarketDataProvider } from "./provider";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AlphaVantageProvider implements MarketDataProvider {
+  readonly name = "alphavantage";
+
+  constructor(private apiKey: string) {}
+
+  private async query(params: Record<string, string>): Promise<any> {
+    const search = new URLSearchParams({ ...params, apikey: this.apiKey });
+    const response = await fetch(`https://www.alphavantage.co/query?${search}`);
+    if (!response.ok) {
+      throw new MarketDataProviderError(this.name, "failed", `HTTP ${response.status}`);
+    }
+    const data = await response.json();
+
+    // Throttled calls still answer 200, with a Note or Information message instead of data
+    if (data["Note"] || data["Information"]) {
+      throw new MarketDataProviderError(this.name, "rate_limited", data["Note"] || data["Information"]);
+    }
+    if (data["Error Message"]) {
+      throw new MarketDataProviderError(this.name, "not_found", data["Error Message"]);
+    }
+    return data;
+  }
+
+  async getQuote(symbol: string): Promise<InsertMarketData> {
+    const data = await this.query({ function: "GLOBAL_QUOTE", symbol });
+    const quote = data["Global Quote"];
+    if (!quote || !quote["05. price"]) {
+      throw new MarketDataProviderError(this.name, "not_found", `No quote for ${symbol}`);
+    }
+    return {
+      symbol: symbol.toUpperCase(),
+      price: quote["05. price"],
+      change: quote["09. change"],
+      changePercent: quote["10. change percent"].replace("%", ""),
+      volume: parseInt(quote["06. volume"]) || 0,
+      marketCap: null,
+    };
+  }
+
+  // The compact series covers the last 100 trading days; older backfills need the full one
+  async getDailyHistory(symbol: string, from?: string): Promise<InsertPriceHistory[]> {
+    const compactFrom = new Date(Date.now() - 140 * DAY_MS).toISOString().slice(0, 10);
+    const outputsize = !from || from < compactFrom ? "full" : "compact";
+    const data = await this.query({ function: "TIME_SERIES_DAILY", symbol, outputsize });
+
+    const series = data["Time Series (Daily)"] as Record<string, Record<string, string>> | undefined;
+    if (!series) {
+      throw new MarketDataProviderError(this.name, "not_found", `No daily series for ${symbol}`);
+    }
+
+    return Object.entries(series)
+      .filter(([date]) => !from || date >= from)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, bar]) => ({
+        symbol: symbol.toUpperCase(),
+        date,
+        open: bar["1. open"],
+        high: bar["2. high"],
+        low: bar["3. low"],
+        close: bar["4. close"],
+        volume: parseInt(bar["5. volume"]) || null,
+        source: this.name,
+      }));
+  }
+
+  async getFxRate(from: string, to: string): Promise<number> {
+    const data = await this.query({ function: "CURRENCY_EXCHANGE_RATE", from_currency: from, to_currency: to });
+    const rate = parseFloat(data["Realtime Currency Exchange Rate"]?.["5. Exchange Rate"]);
+    if (!(rate > 0)) {
+      throw new MarketDataProviderError(this.name, "not_found", `No rate for ${from}/${to}`);
+    }
+    return rate;
+  }
+
+  async getDailyFxHistory(from: string, to: string, start?: string): Promise<InsertCurrencyHistory[]> {
+    const compactFrom = new Date(Date.now() - 140 * DAY_MS).toISOString().slice(0, 10);
+    const outputsize = !start || start < compactFrom ? "full" : "compact";
+    const data = await this.query({ function: "FX_DAILY", from_symbol: from, to_symbol: to, outputsize });
+
+    const series = data["Time Series FX (Daily)"] as Record<string, Record<string, string>> | undefined;
+    if (!series) {
+      throw new MarketDataProviderError(this.name, "not_found", `No daily rates for ${from}/${to}`);
+    }
+
+    return Object.entries(series)
+      .filter(([date]) => !start || date >= start)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, day]) => ({ fromCurrency: from, toCurrency: to, date, rate: day["4. close"], source: this.name }));
+  }
+
+  async search(query: string): Promise<InstrumentSearchResult[]> {
+    const data = await this.query({ function: "SYMBOL_SEARCH", keywords: query });
+    return (data["bestMatches"] ?? []).map((match: Record<string, string>) => ({
+      symbol: match["1. symbol"],
+      name: match["2. name"],
+      exchange: match["4. region"] ?? null,
+      currency: match["8. currency"] ?? null,
+      type: match["3. type"] ?? null,
+      isin: null,
+      instrumentKey: null,
+      provider: this.name,
+    }));
+  }
+}
@@ -0,0 +1,190 @@
+import type { InsertCurrencyHistory, InsertMarketData, InsertPriceHistory, InstrumentSearchResult } from "@shared/schema";
+import { MarketDataProviderError, type MarketDataErrorKind, type MarketDataProvider } from "./provider";
+import type { TokenBucket } from "./token-bucket";
+
+export type MarketDataChainOptions = {
+  // Providers to use instead of the default order for symbols on an exchange
+  exchangeRoutes?: Map<string, MarketDataProvider[]>;
+  // How long a provider that reported it is rate limited is skipped
+  cooldownMs?: number;
+  // Client-side request budgets per provider name
+  rateLimits?: Map<string, TokenBucket>;
+  // How long a call may wait for its provider's budget before moving on
+  maxWaitMs?: number;
+};
+
+// Quotes fetched for several symbols, and why the rest could not be
+export type QuoteBatch = {
+  quotes: Map<string, InsertMarketData>;
+  failures: Map<string, MarketDataProviderError>;
+};
+
+type Lookup = "getQuote" | "getQuotes" | "getDailyHistory" | "getFxRate" | "getDailyFxHistory" | "search";
+
+/**
+ * Tries providers in priority order until one answers. Symbols on an exchange
+ * with its own route use that route's providers instead of the default order.
+ * Each call first takes a token from its provider's rate limit, if it has one;
+ * a provider that still reports it is rate limited sits out for the cooldown.
+ */
+export class MarketDataChain {
+  private cooldownUntil = new Map<string, number>();
+  private exchangeRoutes: Map<string, MarketDataProvider[]>;
+  private cooldownMs: number;
+  private rateLimits: Map<string, TokenBucket>;
+  private maxWaitMs: number;
+
+  constructor(private providers: MarketDataProvider[], options: MarketDataChainOptions = {}) {
+    this.exchangeRoutes = options.exchangeRoutes ?? new Map();
+    this.cooldownMs = options.cooldownMs ?? 60_000;
+    this.rateLimits = options.rateLimits ?? new Map();
+    this.maxWaitMs = options.maxWaitMs ?? 2_000;
+  }
+
+  get providerNames(): string[] {
+    return this.providers.map(provider => provider.name);
+  }
+
+  private candidates(exchange: string | undefined, ...lookups: Lookup[]): MarketDataProvider[] {
+    const ordered = (exchange && this.exchangeRoutes.get(exchange.toUpperCase())) || this.providers;
+    const now = Date.now();
+    return ordered.filter(provider =>
+      lookups.some(lookup => typeof provider[lookup] === "function") &&
+      (this.cooldownUntil.get(provider.name) ?? 0) <= now
+    );
+  }
+
+  // Wait for a token from the provider's budget; false when it is spent for now
+  private async withinBudget(provider: MarketDataProvider): Promise<boolean> {
+    const bucket = this.rateLimits.get(provider.name);
+    return !bucket || bucket.take(this.maxWaitMs);
+  }
+
+  private budgetExhausted(provider: MarketDataProvider): MarketDataProviderError {
+    return new MarketDataProviderError(provider.name, "rate_limited", "request budget exhausted");
+  }
+
+  private toFailure(provider: MarketDataProvider, error: unknown): MarketDataProviderError {
+    const failure = error instanceof MarketDataProviderError
+      ? error
+      : new MarketDataProviderError(provider.name, "failed", (error as Error).message);
+    if (failure.kind === "rate_limited") {
+      this.cooldownUntil.set(provider.name, Date.now() + this.cooldownMs);
+    }
+    return failure;
+  }
+
+  // Report the least transient reason: not found only if every provider said so
+  private combine(operation: string, failures: MarketDataProviderError[]): MarketDataProviderError {
+    const kinds = new Set(failures.map(failure => failure.kind));
+    const kind: MarketDataErrorKind = failures.length > 0 && kinds.size === 1 ? failures[0].kind : "failed";
+    const reasons = failures.map(failure => failure.message).join("; ") || "no provider available";
+    return new MarketDataProviderError("chain", kind, `${operation}: ${reasons}`);
+  }
+
+  private async attempt<T>(
+    operation: string,
+    exchange: string | undefined,
+    lookup: Lookup,
+    call: (provider: MarketDataProvider) => Promise<T>,
+  ): Promise<T> {
+    const failures: MarketDataProviderError[] = [];
+
+    for (const provider of this.candidates(exchange, lookup)) {
+      if (!(await this.withinBudget(provider))) {
+        failures.push(this.budgetExhausted(provider));
+        continue;
+      }
+      try {
+        return await call(provider);
+      } catch (error) {
+        const failure = this.toFailure(provider, error);
+        console.warn(`Market data ${operation} failed, trying next provider:`, failure.message);
+        failures.push(failure);
+      }
+    }
+
+    throw this.combine(operation, failures);
+  }
+
+  getQuote(symbol: string, exchange?: string): Promise<InsertMarketData> {
+    return this.attempt(`quote ${symbol}`, exchange, "getQuote", provider => provider.getQuote!(symbol));
+  }
+
+  /**
+   * Quotes for many symbols, using a provider's batch lookup where it has one
+   * and one request per symbol otherwise. Symbols a provider can't price fall
+   * through to the next provider.
+   */
+  async getQuotes(symbols: string[], exchange?: string): Promise<QuoteBatch> {
+    const quotes = new Map<string, InsertMarketData>();
+    const failuresBySymbol = new Map<string, MarketDataProviderError[]>();
+    const fail = (symbol: string, failure: MarketDataProviderError) => {
+      failuresBySymbol.set(symbol, [...(failuresBySymbol.get(symbol) ?? []), failure]);
+    };
+    let remaining = Array.from(new Set(symbols.map(symbol => symbol.toUpperCase())));
+
+    for (const provider of this.candidates(exchange, "getQuotes", "getQuote")) {
+      if (remaining.length === 0) break;
+
+      if (provider.getQuotes) {
+        if (!(await this.withinBudget(provider))) {
+          remaining.forEach(symbol => fail(symbol, this.budgetExhausted(provider)));
+          continue;
+        }
+        try {
+          for (const quote of await provider.getQuotes(remaining)) {
+            quotes.set(quote.symbol.toUpperCase(), quote);
+          }
+          remaining.filter(symbol => !quotes.has(symbol)).forEach(symbol =>
+            fail(symbol, new MarketDataProviderError(provider.name, "not_found", `No quote for ${symbol}`))
+          );
+        } catch (error) {
+          const failure = this.toFailure(provider, error);
+          remaining.forEach(symbol => fail(symbol, failure));
+        }
+      } else {
+        for (const [index, symbol] of Array.from(remaining.entries())) {
+          const failure = (await this.withinBudget(provider))
+            ? await provider.getQuote!(symbol).then(
+                quote => { quotes.set(symbol, quote); return undefined; },
+                error => this.toFailure(provider, error),
+              )
+            : this.budgetExhausted(provider);
+          if (!failure) continue;
+
+          // No point asking a throttled provider for the rest of the batch
+          if (failure.kind === "rate_limited") {
+            remaining.slice(index).forEach(rest => fail(rest, failure));
+            break;
+          }
+          fail(symbol, failure);
+        }
+      }
+
+      remaining = remaining.filter(symbol => !quotes.has(symbol));
+    }
+
+    const failures = new Map<string, MarketDataProviderError>();
+    for (const symbol of remaining) {
+      failures.set(symbol, this.combine(`quote ${symbol}`, failuresBySymbol.get(symbol) ?? []));
+    }
+    return { quotes, failures };
+  }
+
+  getDailyHistory(symbol: string, from?: string, exchange?: string): Promise<InsertPriceHistory[]> {
+    return this.attempt(`history ${symbol}`, exchange, "getDailyHistory", provider => provider.getDailyHistory!(symbol, from));
+  }
+
+  getFxRate(from: string, to: string): Promise<number> {
+    return this.attempt(`fx ${from}/${to}`, undefined, "getFxRate", provider => provider.getFxRate!(from, to));
+  }
+
+  getDailyFxHistory(from: string, to: string, start?: string): Promise<InsertCurrencyHistory[]> {
+    return this.attempt(`fx history ${from}/${to}`, undefined, "getDailyFxHistory", provider => provider.getDailyFxHistory!(from, to, start));
+  }
+
+  search(query: string): Promise<InstrumentSearchResult[]> {
+    return this.attempt(`search "${query}"`, undefined, "search", provider => provider.search!(query));
+  }
+}
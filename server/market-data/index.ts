@@ -0,0 +1,84 @@
+import { AlphaVantageProvider } from "./alpha-vantage";
+import { JavaInstrumentProvider } from "./java-instrument";
+import { StaticFileProvider } from "./static-file";
+import { MarketDataChain } from "./chain";
+import { TokenBucket } from "./token-bucket";
+import type { MarketDataProvider } from "./provider";
+import { javaServiceUrl } from "../java-gateway";
+
+export { MarketDataChain, type QuoteBatch } from "./chain";
+export { MarketDataProviderError, type MarketDataProvider } from "./provider";
+
+// "alphavantage,static" -> the configured providers of those names, in that order
+function resolveProviders(
+  names: string,
+  available: Map<string, MarketDataProvider>,
+  warnMissing: boolean,
+): MarketDataProvider[] {
+  return names
+    .split(",")
+    .map(name => name.trim())
+    .filter(name => {
+      if (available.has(name)) return true;
+      if (warnMissing && name) console.warn(`Market data provider "${name}" is not configured and will be skipped`);
+      return false;
+    })
+    .map(name => available.get(name)!);
+}
+
+/**
+ * Build the provider chain from the environment:
+ *  - MARKET_DATA_PROVIDERS: default priority list of alphavantage, java and
+ *    static (alphavantage then static when unset)
+ *  - MARKET_DATA_EXCHANGE_ROUTES: per-exchange lists, e.g. "NSE=java,alphavantage"
+ *  - MARKET_DATA_RATE_LIMITS: requests per period per provider, e.g.
+ *    "alphavantage=5/60" (five every 60 seconds, the default for Alpha Vantage's free tier)
+ *  - MARKET_DATA_COOLDOWN_SECONDS: how long a rate-limited provider is skipped
+ * Providers missing their configuration (an API key, a directory) are left out.
+ */
+export function createMarketDataChain(env: NodeJS.ProcessEnv = process.env): MarketDataChain {
+  const available = new Map<string, MarketDataProvider>();
+
+  const alphaVantageKey = env.ALPHA_VANTAGE_API_KEY || env.VITE_ALPHA_VANTAGE_API_KEY;
+  if (alphaVantageKey) {
+    available.set("alphavantage", new AlphaVantageProvider(alphaVantageKey));
+  }
+  if (env.MARKET_DATA_STATIC_DIR) {
+    available.set("static", new StaticFileProvider(env.MARKET_DATA_STATIC_DIR));
+  }
+  available.set("java", new JavaInstrumentProvider(
+    javaServiceUrl(env),
+    env.JAVA_SERVICE_TOKEN,
+  ));
+
+  // "NSE=java,alphavantage;LSE=static"
+  const exchangeRoutes = new Map<string, MarketDataProvider[]>();
+  for (const route of (env.MARKET_DATA_EXCHANGE_ROUTES ?? "").split(";")) {
+    const [exchange, names] = route.split("=");
+    if (exchange?.trim() && names?.trim()) {
+      exchangeRoutes.set(exchange.trim().toUpperCase(), resolveProviders(names, available, true));
+    }
+  }
+
+  // "alphavantage=5/60,java=10/1"
+  const rateLimits = new Map<string, TokenBucket>();
+  for (const limit of (env.MARKET_DATA_RATE_LIMITS ?? "alphavantage=5/60").split(",")) {
+    const match = limit.trim().match(/^(\w+)=(\d+)\/(\d+)$/);
+    if (match) {
+      rateLimits.set(match[1], new TokenBucket(parseInt(match[2]), parseInt(match[3]) * 1000));
+    }
+  }
+
+  return new MarketDataChain(
+    env.MARKET_DATA_PROVIDERS
+      ? resolveProviders(env.MARKET_DATA_PROVIDERS, available, true)
+      : resolveProviders("alphavantage,static", available, false),
+    {
+      exchangeRoutes,
+      rateLimits,
+      cooldownMs: (parseInt(env.MARKET_DATA_COOLDOWN_SECONDS || "") || 60) * 1000,
+    },
+  );
+}
+
+export const marketDataProviders = createMarketDataChain();
@@ -0,0 +1,91 @@
+import { randomUUID } from "crypto";
+import type { InsertMarketData, InstrumentSearchResult } from "@shared/schema";
+import { MarketDataProviderError, type MarketDataProvider } from "./provider";
+
+// Response of the Java service's GET /api/instrument/{ik}
+type GetInstrumentResponse = {
+  isin?: string;
+  nm?: string;
+  symbl?: string;
+  ccy?: string;
+  exchg?: string;
+  cmp?: number; // current market price
+  pcls?: number; // previous close
+  delVol?: number;
+};
+
+// Element of the Java service's GET /api/instrument/search
+type InstrumentMasterEntity = {
+  isin?: string;
+  ik?: string;
+  nm?: string;
+  symbl?: string;
+  typ?: string;
+  ccy?: string;
+  exchg?: string;
+};
+
+/**
+ * Quotes and instrument search from the Java portfolio service. Quotes are
+ * looked up by its instrument key, so symbols passed here must be instrument keys.
+ */
+export class JavaInstrumentProvider implements MarketDataProvider {
+  readonly name = "java";
+
+  constructor(private baseUrl: string, private token?: string) {}
+
+  private async request<T>(endpoint: string): Promise<T> {
+    const headers: Record<string, string> = {
+      "api-interaction-id": randomUUID(),
+      "x-session-id": randomUUID(),
+      lang: "en",
+    };
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, { headers });
+    if (response.status === 429) {
+      throw new MarketDataProviderError(this.name, "rate_limited", "Too many requests");
+    }
+    if (response.status === 404) {
+      throw new MarketDataProviderError(this.name, "not_found", `${endpoint} not found`);
+    }
+    if (!response.ok) {
+      throw new MarketDataProviderError(this.name, "failed", `HTTP ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async getQuote(symbol: string): Promise<InsertMarketData> {
+    const instrument = await this.request<GetInstrumentResponse>(`/api/instrument/${encodeURIComponent(symbol)}`);
+    if (instrument.cmp == null) {
+      throw new MarketDataProviderError(this.name, "not_found", `No price for ${symbol}`);
+    }
+    const change = instrument.pcls != null ? instrument.cmp - instrument.pcls : null;
+    return {
+      symbol: symbol.toUpperCase(),
+      price: String(instrument.cmp),
+      change: change != null ? String(change) : null,
+      changePercent: change != null && instrument.pcls ? String((change / instrument.pcls) * 100) : null,
+      volume: instrument.delVol != null ? Math.round(instrument.delVol) : null,
+      marketCap: null,
+    };
+  }
+
+  async search(query: string): Promise<InstrumentSearchResult[]> {
+    const instruments = await this.request<InstrumentMasterEntity[]>(
+      `/api/instrument/search?text=${encodeURIComponent(query)}`
+    );
+    return instruments.map(instrument => ({
+      symbol: instrument.symbl ?? instrument.ik ?? "",
+      name: instrument.nm ?? instrument.symbl ?? "",
+      exchange: instrument.exchg ?? null,
+      currency: instrument.ccy ?? null,
+      type: instrument.typ ?? null,
+      isin: instrument.isin ?? null,
+      instrumentKey: instrument.ik ?? null,
+      provider: this.name,
+    }));
+  }
+}
@@ -0,0 +1,32 @@
+import type { InsertCurrencyHistory, InsertMarketData, InsertPriceHistory, InstrumentSearchResult } from "@shared/schema";
+
+/**
+ * A source of market data. Providers only implement the lookups they support;
+ * the chain skips a provider for anything it leaves out.
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  getQuote?(symbol: string): Promise<InsertMarketData>;
+  // Several quotes in one request; symbols it has no quote for are left out
+  getQuotes?(symbols: string[]): Promise<InsertMarketData[]>;
+  // Daily bars, oldest first, from `from` (YYYY-MM-DD) when given
+  getDailyHistory?(symbol: string, from?: string): Promise<InsertPriceHistory[]>;
+  // Units of `to` per unit of `from`
+  getFxRate?(from: string, to: string): Promise<number>;
+  // Daily rates, oldest first, from `start` (YYYY-MM-DD) when given
+  getDailyFxHistory?(from: string, to: string, start?: string): Promise<InsertCurrencyHistory[]>;
+  search?(query: string): Promise<InstrumentSearchResult[]>;
+}
+
+export type MarketDataErrorKind = "rate_limited" | "not_found" | "failed";
+
+export class MarketDataProviderError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly kind: MarketDataErrorKind,
+    message: string,
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = "MarketDataProviderError";
+  }
+}
@@ -0,0 +1,140 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { marketSymbolPattern, type InsertCurrencyHistory, type InsertMarketData, type InsertPriceHistory, type InstrumentSearchResult } from "@shared/schema";
+import { MarketDataProviderError, type MarketDataProvider } from "./provider";
+
+/**
+ * Serves market data from files, for offline development and fixtures:
+ *   quotes.json        { "AAPL": { "price": "190.10", "change": "1.20", "changePercent": "0.63", "volume": 1000 } }
+ *   fx.json            { "USD-EUR": 0.92 }
+ *   instruments.json   [{ "symbol": "AAPL", "name": "Apple Inc.", "exchange": "NASDAQ", "currency": "USD" }]
+ *   history/AAPL.csv   date,open,high,low,close,volume (only date and close are required;
+ *                      Alpha Vantage's `timestamp` header is accepted for date)
+ *   fx-history/EUR-USD.csv  date,rate (or close), units of USD per EUR
+ */
+export class StaticFileProvider implements MarketDataProvider {
+  readonly name = "static";
+
+  constructor(private directory: string) {}
+
+  private async readText(file: string): Promise<string> {
+    try {
+      return await readFile(path.join(this.directory, file), "utf8");
+    } catch {
+      throw new MarketDataProviderError(this.name, "not_found", `${file} not found`);
+    }
+  }
+
+  private async readJson<T>(file: string): Promise<T> {
+    return JSON.parse(await this.readText(file));
+  }
+
+  private toQuote(quotes: Record<string, Partial<InsertMarketData>>, symbol: string): InsertMarketData | undefined {
+    const quote = quotes[symbol.toUpperCase()];
+    if (!quote?.price) return undefined;
+    return {
+      symbol: symbol.toUpperCase(),
+      price: String(quote.price),
+      change: quote.change != null ? String(quote.change) : null,
+      changePercent: quote.changePercent != null ? String(quote.changePercent) : null,
+      volume: quote.volume ?? null,
+      marketCap: quote.marketCap != null ? String(quote.marketCap) : null,
+    };
+  }
+
+  async getQuote(symbol: string): Promise<InsertMarketData> {
+    const quote = this.toQuote(await this.readJson("quotes.json"), symbol);
+    if (!quote) {
+      throw new MarketDataProviderError(this.name, "not_found", `No quote for ${symbol}`);
+    }
+    return quote;
+  }
+
+  async getQuotes(symbols: string[]): Promise<InsertMarketData[]> {
+    const quotes = await this.readJson<Record<string, Partial<InsertMarketData>>>("quotes.json");
+    return symbols.flatMap(symbol => this.toQuote(quotes, symbol) ?? []);
+  }
+
+  async getDailyHistory(symbol: string, from?: string): Promise<InsertPriceHistory[]> {
+    // The symbol names the file, so it must not reach outside the history directory
+    if (!marketSymbolPattern.test(symbol.toUpperCase())) {
+      throw new MarketDataProviderError(this.name, "not_found", `No history for ${symbol}`);
+    }
+    const file = path.join("history", `${symbol.toUpperCase()}.csv`);
+    const [header, ...rows] = (await this.readText(file)).trim().split(/\r?\n/);
+    const columns = header.split(",").map(column => column.trim().toLowerCase());
+    const column = (name: string) => columns.indexOf(name);
+
+    const dateColumn = column("date") >= 0 ? column("date") : column("timestamp");
+    if (dateColumn < 0 || column("close") < 0) {
+      throw new MarketDataProviderError(this.name, "failed", `${file} needs date and close columns`);
+    }
+
+    const field = (cells: string[], name: string) => {
+      const value = cells[column(name)]?.trim();
+      return value ? value : null;
+    };
+
+    return rows
+      .map(row => row.split(","))
+      .filter(cells => /^\d{4}-\d{2}-\d{2}$/.test(cells[dateColumn]?.trim() ?? ""))
+      .map(cells => ({
+        symbol: symbol.toUpperCase(),
+        date: cells[dateColumn].trim(),
+        open: field(cells, "open"),
+        high: field(cells, "high"),
+        low: field(cells, "low"),
+        close: cells[column("close")].trim(),
+        volume: parseInt(field(cells, "volume") ?? "") || null,
+        source: this.name,
+      }))
+      .filter(bar => !from || bar.date >= from)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getFxRate(from: string, to: string): Promise<number> {
+    const rates = await this.readJson<Record<string, number>>("fx.json");
+    const rate = rates[`${from}-${to}`] ?? (rates[`${to}-${from}`] ? 1 / rates[`${to}-${from}`] : undefined);
+    if (!rate) {
+      throw new MarketDataProviderError(this.name, "not_found", `No rate for ${from}/${to}`);
+    }
+    return rate;
+  }
+
+  async getDailyFxHistory(from: string, to: string, start?: string): Promise<InsertCurrencyHistory[]> {
+    const file = path.join("fx-history", `${from}-${to}.csv`);
+    const [header, ...rows] = (await this.readText(file)).trim().split(/\r?\n/);
+    const columns = header.split(",").map(column => column.trim().toLowerCase());
+    const dateColumn = columns.indexOf("date") >= 0 ? columns.indexOf("date") : columns.indexOf("timestamp");
+    const rateColumn = columns.indexOf("rate") >= 0 ? columns.indexOf("rate") : columns.indexOf("close");
+    if (dateColumn < 0 || rateColumn < 0) {
+      throw new MarketDataProviderError(this.name, "failed", `${file} needs date and rate columns`);
+    }
+
+    return rows
+      .map(row => row.split(",").map(cell => cell.trim()))
+      .filter(cells => /^\d{4}-\d{2}-\d{2}$/.test(cells[dateColumn] ?? "") && cells[rateColumn])
+      .map(cells => ({ fromCurrency: from, toCurrency: to, date: cells[dateColumn], rate: cells[rateColumn], source: this.name }))
+      .filter(day => !start || day.date >= start)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async search(query: string): Promise<InstrumentSearchResult[]> {
+    const instruments = await this.readJson<Partial<InstrumentSearchResult>[]>("instruments.json");
+    const needle = query.toLowerCase();
+    return instruments
+      .filter(instrument =>
+        instrument.symbol?.toLowerCase().includes(needle) || instrument.name?.toLowerCase().includes(needle)
+      )
+      .map(instrument => ({
+        symbol: instrument.symbol!,
+        name: instrument.name ?? instrument.symbol!,
+        exchange: instrument.exchange ?? null,
+        currency: instrument.currency ?? null,
+        type: instrument.type ?? null,
+        isin: instrument.isin ?? null,
+        instrumentKey: instrument.instrumentKey ?? null,
+        provider: this.name,
+      }));
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Allows `capacity` requests in a burst, refilled at `capacity` per
+ * `intervalMs`, e.g. new TokenBucket(5, 60_000) for five calls a minute.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(readonly capacity: number, readonly intervalMs: number) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.refilledAt) / this.intervalMs) * this.capacity);
+    this.refilledAt = now;
+  }
+
+  // Milliseconds until a token is available
+  private waitMs(): number {
+    return this.tokens >= 1 ? 0 : ((1 - this.tokens) / this.capacity) * this.intervalMs;
+  }
+
+  /**
+   * Take a token, waiting up to `maxWaitMs` for one to become available.
+   * Resolves false without taking anything when it would have to wait longer.
+   */
+  async take(maxWaitMs: number = 0): Promise<boolean> {
+    this.refill();
+    const wait = this.waitMs();
+    if (wait > maxWaitMs) return false;
+    // Reserve the token before waiting so concurrent callers queue behind it
+    this.tokens -= 1;
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    return true;
+  }
+}
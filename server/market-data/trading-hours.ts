@@ -0,0 +1,104 @@
+type TradingHours = {
+  timeZone: string;
+  open: string; // HH:MM local time
+  close: string;
+};
+
+// Regular sessions, Monday to Friday. Lunch breaks and public holidays are ignored.
+const exchangeHours: Record<string, TradingHours> = {
+  NASDAQ: { timeZone: "America/New_York", open: "09:30", close: "16:00" },
+  NYSE: { timeZone: "America/New_York", open: "09:30", close: "16:00" },
+  TSX: { timeZone: "America/Toronto", open: "09:30", close: "16:00" },
+  LSE: { timeZone: "Europe/London", open: "08:00", close: "16:30" },
+  AEX: { timeZone: "Europe/Amsterdam", open: "09:00", close: "17:30" },
+  ASX: { timeZone: "Australia/Sydney", open: "10:00", close: "16:00" },
+  NSE: { timeZone: "Asia/Kolkata", open: "09:15", close: "15:30" },
+  BSE: { timeZone: "Asia/Kolkata", open: "09:15", close: "15:30" },
+  HKEX: { timeZone: "Asia/Hong_Kong", open: "09:30", close: "16:00" },
+  SSE: { timeZone: "Asia/Shanghai", open: "09:30", close: "15:00" },
+  TSE: { timeZone: "Asia/Tokyo", open: "09:00", close: "15:30" },
+};
+
+// A price fetched this long before the latest session close (or ago, while trading) is stale
+export const STALE_PRICE_AFTER_MS = 30 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type LocalTime = { year: number; month: number; day: number; weekday: number; minutes: number };
+
+function localTime(date: Date, timeZone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)!.value;
+  return {
+    year: parseInt(part("year")),
+    month: parseInt(part("month")),
+    day: parseInt(part("day")),
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(part("weekday")),
+    minutes: parseInt(part("hour")) * 60 + parseInt(part("minute")),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+const isWeekday = (weekday: number) => weekday >= 1 && weekday <= 5;
+
+/**
+ * Whether the exchange is in its regular session. Exchanges we have no hours
+ * for are treated as always open, so their prices are still refreshed.
+ */
+export function isExchangeOpen(exchange: string, now: Date = new Date()): boolean {
+  const hours = exchangeHours[exchange.toUpperCase()];
+  if (!hours) return true;
+  const local = localTime(now, hours.timeZone);
+  return isWeekday(local.weekday) && local.minutes >= toMinutes(hours.open) && local.minutes < toMinutes(hours.close);
+}
+
+// FX trades from Sunday 22:00 to Friday 22:00 UTC
+export function isFxMarketOpen(now: Date = new Date()): boolean {
+  const weekday = now.getUTCDay();
+  const hour = now.getUTCHours();
+  return !(weekday === 6 || (weekday === 5 && hour >= 22) || (weekday === 0 && hour < 22));
+}
+
+// The most recent regular session close at or before `now`
+export function lastSessionClose(exchange: string, now: Date = new Date()): Date | undefined {
+  const hours = exchangeHours[exchange.toUpperCase()];
+  if (!hours) return undefined;
+
+  const close = toMinutes(hours.close);
+  for (let daysBack = 0; daysBack <= 7; daysBack++) {
+    const local = localTime(new Date(now.getTime() - daysBack * DAY_MS), hours.timeZone);
+    if (!isWeekday(local.weekday)) continue;
+
+    // Local wall-clock close, shifted by the zone's UTC offset at that moment
+    const wallClock = Date.UTC(local.year, local.month - 1, local.day, Math.floor(close / 60), close % 60);
+    const asLocal = localTime(new Date(wallClock), hours.timeZone);
+    const offset = Date.UTC(asLocal.year, asLocal.month - 1, asLocal.day, Math.floor(asLocal.minutes / 60), asLocal.minutes % 60) - wallClock;
+    const closedAt = new Date(wallClock - offset);
+    if (closedAt.getTime() <= now.getTime()) return closedAt;
+  }
+  return undefined;
+}
+
+/**
+ * Whether a price last fetched at `asOf` is out of date: during the session
+ * it must be recent, outside it it must be from near the latest close.
+ */
+export function isPriceStale(exchange: string, asOf: Date | null | undefined, now: Date = new Date()): boolean {
+  if (!asOf) return true;
+  const close = isExchangeOpen(exchange, now) ? undefined : lastSessionClose(exchange, now);
+  const reference = close ?? now;
+  return reference.getTime() - new Date(asOf).getTime() > STALE_PRICE_AFTER_MS;
+}
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from "express";
+import type { User } from "@shared/schema";
 
 // Middleware to check if user is authenticated
 export function requireAuth(req: Request, res: Response, next: NextFunction) {
@@ -10,6 +11,27 @@ export function requireAuth(req: Request, res: Response, next: NextFunction) {
   res.status(401).json({ message: "Authentication required" });
 }
 
+// Id of the logged-in user. Only valid on routes guarded by requireAuth.
+export function currentUserId(req: Request): string {
+  return (req.user as User).id;
+}
+
+// Middleware to restrict a route to users listed in ADMIN_EMAILS (comma-separated)
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+
+  const admins = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (!admins.includes((req.user as User).email.toLowerCase())) {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  next();
+}
+
 // Middleware to check if user is NOT authenticated (for login/register pages)
 export function requireNoAuth(req: Request, res: Response, next: NextFunction) {
   if (!req.isAuthenticated()) {
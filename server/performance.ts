@@ -0,0 +1,359 @@
+import {
+  performancePeriods,
+  type Holding,
+  type LotReliefMethod,
+  type MarketData,
+  type Transaction,
+  type TaxLot,
+  type PerformanceCalculationMethod,
+  type PerformancePeriod,
+  type PerformanceWindow,
+  type Portfolio,
+  type PortfolioPerformance,
+} from "@shared/schema";
+import { buildLotLedger, positionCostBefore, shareMultiplier, sortChronologically, withoutCancelled } from "./lots";
+import type { FxLookup } from "./fx";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_DAYS = 365;
+const EPSILON = 1e-9;
+
+// Price of one share of `symbol` as it stood at `date`, when known
+export type PriceLookup = (symbol: string, date: Date) => number | undefined;
+
+type CashFlow = { date: Date; amount: number };
+
+// An amount in `currency` at `date`, converted into the portfolio's base currency
+type ToBase = (amount: number, currency: string, date: Date) => number;
+
+const cashFlowTypes = ["buy", "sell", "dividend", "roc", "adjustment"];
+
+// Latest known price per symbol: the holding's current price, else cached market data
+export function currentPrices(holdings: Holding[], marketData: MarketData[] = []): Map<string, number> {
+  const prices = new Map<string, number>();
+  for (const data of marketData) {
+    prices.set(data.symbol, parseFloat(data.price));
+  }
+  for (const holding of holdings) {
+    const price = parseFloat(holding.currentPrice || "0");
+    if (price > 0) prices.set(holding.symbol, price);
+  }
+  return prices;
+}
+
+// How much a corporate action divides the per-share price of its symbol by
+function priceDivisor(transaction: Transaction): number | undefined {
+  if (transaction.type === "demerger") {
+    // The parent keeps the share of value that was not apportioned to the child
+    const retained = 1 - parseFloat(transaction.costApportionment ?? "0") / 100;
+    return retained > 0 ? 1 / retained : undefined;
+  }
+  return shareMultiplier(transaction);
+}
+
+/**
+ * Price lookup built from the portfolio's own trades: the last buy or sell
+ * price on or before the date, restated for any later splits, consolidations,
+ * bonus issues or demergers. From `asOf` onwards the current price is used instead.
+ */
+export function transactionPriceLookup(
+  transactions: Transaction[],
+  current: Map<string, number>,
+  asOf: Date = new Date(),
+): PriceLookup {
+  const trades = sortChronologically(
+    transactions.filter(t => (t.type === "buy" || t.type === "sell") && parseFloat(t.price) > 0)
+  );
+  const reshapes = transactions.filter(t => priceDivisor(t) !== undefined);
+
+  return (symbol, date) => {
+    if (date.getTime() >= asOf.getTime() && current.has(symbol)) {
+      return current.get(symbol);
+    }
+
+    let last: Transaction | undefined;
+    for (const trade of trades) {
+      if (trade.date > date) break;
+      if (trade.symbol === symbol) last = trade;
+    }
+    if (!last) return undefined;
+
+    const tradeDate = last.date;
+    const divisor = reshapes
+      .filter(t => t.symbol === symbol && t.date > tradeDate && t.date <= date)
+      .reduce((product, t) => product * (priceDivisor(t) ?? 1), 1);
+    return parseFloat(last.price) / divisor;
+  };
+}
+
+// Lots held just after the given (chronologically sorted) transactions
+function lotsAfter(transactions: Transaction[], date: Date, reliefMethod: LotReliefMethod): TaxLot[] {
+  return buildLotLedger(transactions, reliefMethod, date).openLots;
+}
+
+// Market value of lots at `date` in the base currency; lots with no known price are carried at cost
+function valueLots(lots: TaxLot[], date: Date, price: PriceLookup, toBase: ToBase): number {
+  return lots.reduce(
+    (sum, lot) => sum + toBase(lot.quantity * (price(lot.symbol, date) ?? lot.costPerShare), lot.currency, date),
+    0,
+  );
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Annual rate at which the cash flows have a net present value of zero.
+ * Bisection is slow but cannot diverge, and portfolios have few enough flows
+ * for that not to matter.
+ */
+export function xirr(flows: CashFlow[]): number | undefined {
+  if (!flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return undefined;
+
+  const first = Math.min(...flows.map(f => f.date.getTime()));
+  const npv = (rate: number) => flows.reduce(
+    (sum, f) => sum + f.amount / Math.pow(1 + rate, (f.date.getTime() - first) / (YEAR_DAYS * DAY_MS)),
+    0,
+  );
+
+  let low = -0.999999;
+  let high = 1;
+  while (Math.sign(npv(low)) === Math.sign(npv(high))) {
+    high *= 10;
+    if (high > 1e9) return undefined;
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(npv(mid)) === Math.sign(npv(low))) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+function windowStart(period: PerformancePeriod, asOf: Date, inception: Date): Date {
+  const start = new Date(asOf);
+  switch (period) {
+    case "1M":
+      start.setMonth(start.getMonth() - 1);
+      return start;
+    case "3M":
+      start.setMonth(start.getMonth() - 3);
+      return start;
+    case "YTD":
+      return new Date(asOf.getFullYear(), 0, 1);
+    case "1Y":
+      start.setFullYear(start.getFullYear() - 1);
+      return start;
+    case "3Y":
+      start.setFullYear(start.getFullYear() - 3);
+      return start;
+    case "ITD":
+      // Just before the first trade, so that it counts as a contribution
+      return new Date(inception.getTime() - 1);
+  }
+}
+
+/**
+ * Measure one window. Every day with trades or income closes a sub-period:
+ *  - TWRR chains the sub-period returns, so contributions don't distort it
+ *  - MWRR is the XIRR of the starting value, the window's cash flows and the
+ *    ending value, restated as a cumulative return over the window
+ *  - Simple is total gain over the starting value plus everything bought
+ */
+function measureWindow(
+  period: PerformancePeriod,
+  start: Date,
+  end: Date,
+  inception: Date,
+  transactions: Transaction[],
+  method: PerformanceCalculationMethod,
+  reliefMethod: LotReliefMethod,
+  price: PriceLookup,
+  toBase: ToBase,
+): PerformanceWindow {
+  const startValue = valueLots(lotsAfter(transactions.filter(t => t.date <= start), start, reliefMethod), start, price, toBase);
+  const inWindow = transactions.filter(t => t.date > start && t.date <= end);
+
+  // Only trades and income move cash in or out; corporate actions just restate holdings
+  const days = new Map<string, Transaction[]>();
+  for (const transaction of inWindow.filter(t => cashFlowTypes.includes(t.type))) {
+    const key = dayKey(transaction.date);
+    days.set(key, [...(days.get(key) ?? []), transaction]);
+  }
+
+  let netContributions = 0;
+  let purchases = 0;
+  let income = 0;
+  let growth = 1;
+  let previousValue = startValue;
+  const flows: CashFlow[] = startValue > EPSILON ? [{ date: start, amount: -startValue }] : [];
+
+  for (const dayTransactions of Array.from(days.values())) {
+    const dayEnd = dayTransactions[dayTransactions.length - 1].date;
+    // Holdings at the end of the day as if its cash flows had not happened
+    const withoutFlows = transactions.filter(t => t.date <= dayEnd && !dayTransactions.includes(t));
+    const valueBefore = valueLots(lotsAfter(withoutFlows, dayEnd, reliefMethod), dayEnd, price, toBase);
+
+    let dayContribution = 0;
+    let dayIncome = 0;
+    for (const transaction of dayTransactions) {
+      const quantity = parseFloat(transaction.quantity);
+      const tradePrice = parseFloat(transaction.price);
+      const fees = parseFloat(transaction.fees || "0");
+      // Paid on the day, so converted at the day's rate
+      const paid = (amount: number) => toBase(amount, transaction.currency, transaction.date);
+
+      switch (transaction.type) {
+        case "buy":
+          dayContribution += paid(quantity * tradePrice + fees);
+          purchases += paid(quantity * tradePrice + fees);
+          break;
+        case "sell":
+          dayContribution -= paid(quantity * tradePrice - fees);
+          break;
+        case "dividend": {
+          // Paid out net of withholding; shares taken under a DRIP put it straight back in
+          const reinvested = parseFloat(transaction.reinvestedQuantity ?? "0") * parseFloat(transaction.reinvestmentPrice ?? "0");
+          dayIncome += paid(parseFloat(transaction.totalAmount) - parseFloat(transaction.withholdingTax ?? "0"));
+          dayContribution += paid(reinvested);
+          purchases += paid(reinvested);
+          break;
+        }
+        case "adjustment": {
+          // A correction puts in, or takes out, the difference in the position's cost
+          const costBefore = positionCostBefore(transactions.slice(0, transactions.indexOf(transaction)), transaction, reliefMethod);
+          const change = paid(quantity * tradePrice - costBefore);
+          dayContribution += change;
+          purchases += Math.max(change, 0);
+          break;
+        }
+        case "roc": {
+          // Capital is returned on every share held at the time
+          const held = lotsAfter(transactions.slice(0, transactions.indexOf(transaction)), transaction.date, reliefMethod)
+            .filter(lot => lot.symbol === transaction.symbol)
+            .reduce((sum, lot) => sum + lot.quantity, 0);
+          dayIncome += paid(held * tradePrice);
+          break;
+        }
+      }
+    }
+
+    if (previousValue > EPSILON) {
+      growth *= (valueBefore + dayIncome) / previousValue;
+    }
+    previousValue = valueLots(lotsAfter(transactions.filter(t => t.date <= dayEnd), dayEnd, reliefMethod), dayEnd, price, toBase);
+
+    netContributions += dayContribution;
+    income += dayIncome;
+    flows.push({ date: dayEnd, amount: dayIncome - dayContribution });
+  }
+
+  const endValue = valueLots(lotsAfter(transactions.filter(t => t.date <= end), end, reliefMethod), end, price, toBase);
+  if (previousValue > EPSILON) {
+    growth *= endValue / previousValue;
+  }
+  flows.push({ date: end, amount: endValue });
+
+  const reportedStart = start < inception ? inception : start;
+  const years = (end.getTime() - reportedStart.getTime()) / (YEAR_DAYS * DAY_MS);
+  const invested = startValue + purchases;
+
+  let periodReturn: number | undefined;
+  let annualReturn: number | undefined;
+  if (invested > EPSILON) {
+    switch (method) {
+      case "TWRR":
+        periodReturn = growth - 1;
+        break;
+      case "MWRR": {
+        annualReturn = xirr(flows);
+        periodReturn = annualReturn === undefined ? undefined : Math.pow(1 + annualReturn, years) - 1;
+        break;
+      }
+      default:
+        periodReturn = (endValue + income - startValue - netContributions) / invested;
+    }
+  }
+
+  if (periodReturn !== undefined && annualReturn === undefined && years > 0) {
+    annualReturn = Math.pow(1 + periodReturn, 1 / years) - 1;
+  }
+
+  return {
+    period,
+    startDate: reportedStart,
+    endDate: end,
+    startValue,
+    endValue,
+    netContributions,
+    income,
+    returnPercent: periodReturn === undefined ? null : periodReturn * 100,
+    annualizedReturnPercent: annualReturn === undefined || years < 1 ? null : annualReturn * 100,
+  };
+}
+
+/**
+ * Returns of a portfolio over trailing windows ending at `asOf`, calculated
+ * with the portfolio's performance method from its transaction history. Lots
+ * are relieved with the portfolio's relief method, as its holdings are, and
+ * everything is converted into its base currency with `fx`: values at the
+ * rate on the day they are measured, cash flows at the rate on the day they
+ * were paid. Amounts in a currency with no rate count unconverted and are
+ * reported in `missingRates`.
+ */
+export function calculatePerformance(
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  method: PerformanceCalculationMethod,
+  price: PriceLookup,
+  fx: FxLookup,
+  periods: readonly PerformancePeriod[] = performancePeriods,
+  asOf: Date = new Date(),
+): PortfolioPerformance {
+  const history = sortChronologically(withoutCancelled(transactions)).filter(t => t.date <= asOf);
+  const inception = history.length > 0 ? history[0].date : null;
+  const baseCurrency = portfolio.baseCurrency;
+  const missingRates = new Set<string>();
+
+  const toBase: ToBase = (amount, currency, date) => {
+    const rate = fx(currency, baseCurrency, date);
+    if (rate === undefined) {
+      missingRates.add(`${currency}-${baseCurrency}`);
+      return amount;
+    }
+    return amount * rate;
+  };
+
+  const windows = periods.map((period): PerformanceWindow => {
+    if (!inception) {
+      return {
+        period,
+        startDate: asOf,
+        endDate: asOf,
+        startValue: 0,
+        endValue: 0,
+        netContributions: 0,
+        income: 0,
+        returnPercent: null,
+        annualizedReturnPercent: null,
+      };
+    }
+    const start = windowStart(period, asOf, inception);
+    return measureWindow(period, start, asOf, inception, history, method, portfolio.lotReliefMethod as LotReliefMethod, price, toBase);
+  });
+
+  return {
+    portfolioId: portfolio.id,
+    method,
+    baseCurrency,
+    asOf,
+    inceptionDate: inception,
+    windows,
+    missingRates: Array.from(missingRates),
+  };
+}
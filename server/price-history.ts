@@ -0,0 +1,98 @@
+import type { Holding, MarketData, PriceHistory, Transaction } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { MarketDataChain } from "./market-data";
+import { currentPrices, transactionPriceLookup, type PriceLookup } from "./performance";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export type BackfillResult = {
+  symbol: string;
+  from: string | null;
+  saved: number;
+  error?: string;
+};
+
+/**
+ * Load daily bars for each symbol into the price history. Without an explicit
+ * `from`, each symbol resumes from the day after its latest stored bar, so the
+ * job can be re-run cheaply. One symbol failing does not stop the others.
+ */
+export async function backfillPriceHistory(
+  store: IStorage,
+  provider: Pick<MarketDataChain, "getDailyHistory">,
+  symbols: string[],
+  from?: string,
+): Promise<BackfillResult[]> {
+  const results: BackfillResult[] = [];
+
+  for (const symbol of symbols.map(s => s.toUpperCase())) {
+    const latest = from ? undefined : await store.getLatestPriceHistoryDate(symbol);
+    const start = from ?? (latest ? toDateKey(new Date(new Date(latest).getTime() + DAY_MS)) : undefined);
+
+    try {
+      const bars = await provider.getDailyHistory(symbol, start);
+      results.push({ symbol, from: start ?? null, saved: await store.savePriceHistory(bars) });
+    } catch (error) {
+      console.error(`Failed to backfill price history for ${symbol}:`, error);
+      results.push({ symbol, from: start ?? null, saved: 0, error: (error as Error).message });
+    }
+  }
+
+  return results;
+}
+
+// Close on the latest trading day at or before the date, else the fallback
+export function historyPriceLookup(history: Map<string, PriceHistory[]>, fallback: PriceLookup): PriceLookup {
+  return (symbol, date) => {
+    const bars = history.get(symbol) ?? history.get(symbol.toUpperCase());
+    const day = toDateKey(date);
+    if (bars && bars.length > 0 && bars[0].date <= day) {
+      // Binary search for the last bar on or before the day
+      let low = 0;
+      let high = bars.length - 1;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (bars[mid].date <= day) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return parseFloat(bars[low].close);
+    }
+    return fallback(symbol, date);
+  };
+}
+
+/**
+ * Price lookup for valuing a portfolio's history: stored daily closes where we
+ * have them, otherwise the portfolio's own trade prices, with current prices
+ * for today.
+ */
+export async function portfolioPriceLookup(
+  store: IStorage,
+  transactions: Transaction[],
+  holdings: Holding[],
+  marketData: MarketData[] = [],
+): Promise<PriceLookup> {
+  const symbols = Array.from(new Set(transactions.map(t => t.symbol)));
+  const history = new Map<string, PriceHistory[]>();
+  for (const symbol of symbols) {
+    history.set(symbol, await store.getPriceHistory(symbol.toUpperCase()));
+  }
+  const current = currentPrices(holdings, marketData);
+  const fallback = transactionPriceLookup(transactions, current);
+  const now = new Date();
+  const fromHistory = historyPriceLookup(history, fallback);
+
+  return (symbol, date) => {
+    if (date.getTime() >= now.getTime() && current.has(symbol)) {
+      return current.get(symbol);
+    }
+    return fromHistory(symbol, date);
+  };
+}
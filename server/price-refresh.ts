@@ -0,0 +1,104 @@
+import type { PriceRefreshReport, PriceRefreshResult } from "@shared/schema";
+import type { HeldInstrument, IStorage } from "./storage";
+import type { MarketDataChain } from "./market-data";
+
+type QuoteSource = Pick<MarketDataChain, "getQuotes">;
+
+/**
+ * Fetch quotes for symbols grouped by exchange, so providers with a batch
+ * lookup get one request per exchange, and save each to market data under
+ * its exchange before handing the price to `applyPrice`, as the same ticker
+ * can be a different instrument elsewhere. A symbol whose quote can't be
+ * fetched keeps its last known price (stale) when there is one, and is
+ * reported as failed otherwise.
+ */
+async function refreshQuotes(
+  store: IStorage,
+  providers: QuoteSource,
+  symbolsByExchange: Map<string, string[]>,
+  applyPrice: (symbol: string, exchange: string, price: string) => Promise<unknown>,
+): Promise<PriceRefreshResult[]> {
+  const results: PriceRefreshResult[] = [];
+
+  for (const [exchange, symbols] of Array.from(symbolsByExchange)) {
+    const { quotes, failures } = await providers.getQuotes(symbols, exchange);
+
+    for (const symbol of symbols) {
+      const quote = quotes.get(symbol);
+      try {
+        if (quote) {
+          const marketData = await store.updateMarketData({ ...quote, exchange });
+          await applyPrice(symbol, exchange, marketData.price);
+          results.push({ symbol, status: "updated", price: marketData.price, asOf: marketData.lastUpdated });
+          continue;
+        }
+
+        const reason = failures.get(symbol)?.message ?? "No quote returned";
+        const cached = await store.getMarketData(symbol, exchange);
+        results.push(cached
+          ? { symbol, status: "stale", price: cached.price, asOf: cached.lastUpdated, reason }
+          : { symbol, status: "failed", price: null, asOf: null, reason });
+      } catch (error) {
+        console.error(`Failed to update price for ${symbol} on ${exchange}:`, error);
+        results.push({ symbol, status: "failed", price: null, asOf: null, reason: (error as Error).message });
+      }
+    }
+  }
+
+  return results;
+}
+
+function groupByExchange(instruments: { symbol: string; exchange: string }[]): Map<string, string[]> {
+  const symbolsByExchange = new Map<string, string[]>();
+  for (const { symbol, exchange } of instruments) {
+    const symbols = symbolsByExchange.get(exchange) ?? [];
+    if (!symbols.includes(symbol)) symbols.push(symbol);
+    symbolsByExchange.set(exchange, symbols);
+  }
+  return symbolsByExchange;
+}
+
+export function countResults(results: PriceRefreshResult[]) {
+  return {
+    updated: results.filter(result => result.status === "updated").length,
+    stale: results.filter(result => result.status === "stale").length,
+    failed: results.filter(result => result.status === "failed").length,
+  };
+}
+
+/**
+ * Fetch fresh quotes for every symbol held in a portfolio and write them to
+ * market data and the holdings' current price.
+ */
+export async function refreshPortfolioPrices(
+  store: IStorage,
+  providers: QuoteSource,
+  userId: string,
+  portfolioId: string,
+): Promise<PriceRefreshReport> {
+  const holdings = await store.getHoldings(userId, portfolioId);
+  const instruments = holdings.map(holding => ({ symbol: holding.symbol.toUpperCase(), exchange: holding.exchange }));
+
+  const results = await refreshQuotes(store, providers, groupByExchange(instruments), async (symbol, exchange, price) => {
+    const matching = holdings.filter(holding => holding.symbol.toUpperCase() === symbol && holding.exchange === exchange);
+    for (const holding of matching) {
+      await store.updateHolding(userId, holding.id, { currentPrice: price });
+    }
+  });
+
+  return { portfolioId, refreshedAt: new Date(), ...countResults(results), results };
+}
+
+/**
+ * Refresh the price of held instruments across every portfolio, as the
+ * scheduled job does for exchanges that are trading.
+ */
+export async function refreshHeldPrices(
+  store: IStorage,
+  providers: QuoteSource,
+  instruments: HeldInstrument[],
+): Promise<PriceRefreshResult[]> {
+  return refreshQuotes(store, providers, groupByExchange(instruments), (symbol, exchange, price) =>
+    store.setHoldingPrices(symbol, exchange, price)
+  );
+}
@@ -0,0 +1,115 @@
+import type { InsertTransaction, Portfolio, PortfolioBackupInput } from "@shared/schema";
+import { oversoldSales } from "./lots";
+import { transactionFromInsert, type IStorage } from "./storage";
+
+type BackupTransaction = PortfolioBackupInput["transactions"][number];
+
+// Lot ids are the opening transaction's id, or "<demerger id>:<parent lot id>" for demerged lots
+const lotTransactionIds = (lotId: string) => lotId.split(":");
+
+const references = (t: BackupTransaction) => [
+  ...(t.relatedTransactionId ? [t.relatedTransactionId] : []),
+  ...(t.lotSelections ?? []).flatMap(selection => lotTransactionIds(selection.lotId)),
+];
+
+// Transactions whose references never resolve, as they refer to each other in a cycle
+function unresolvable(transactions: BackupTransaction[]): BackupTransaction[] {
+  const resolved = new Set<string>();
+  let pending = transactions;
+  for (;;) {
+    const ready = pending.filter(t => references(t).every(id => resolved.has(id)));
+    if (ready.length === 0) return pending;
+    ready.forEach(t => resolved.add(t.id));
+    pending = pending.filter(t => !ready.includes(t));
+  }
+}
+
+/**
+ * Why the backup can't be restored: a cancellation or lot selection that
+ * refers to a missing transaction, or a cycle of them, or a sell of more than
+ * is held when replayed under the portfolio's relief method, which would be
+ * refused if entered by hand.
+ */
+export function backupProblem(backup: PortfolioBackupInput): string | undefined {
+  const ids = new Set(backup.transactions.map(t => t.id));
+  const broken = backup.transactions.find(t => references(t).some(id => !ids.has(id)));
+  if (broken) return `Transaction ${broken.id} refers to a transaction missing from the backup`;
+  const cycle = unresolvable(backup.transactions);
+  if (cycle.length > 0) return `Transactions ${cycle.map(t => t.id).join(", ")} refer to each other in a cycle`;
+
+  const replayed = backup.transactions.map(({ id, ...t }) => transactionFromInsert({ ...t, portfolioId: "" }, id));
+  const [oversold] = oversoldSales(replayed, backup.portfolio.lotReliefMethod ?? "FIFO");
+  if (oversold) {
+    const { transaction, held } = oversold;
+    return `Transaction ${transaction.id} sells ${transaction.quantity} ${transaction.symbol} on ${transaction.date.toISOString().slice(0, 10)}: only ${Number(held.toFixed(8))} held then`;
+  }
+  return undefined;
+}
+
+// Some of the backup's transactions couldn't be recorded, so none of it was kept
+export class RestoreError extends Error {
+  constructor(readonly transactionIds: string[]) {
+    super(`${transactionIds.length} of the backup's transactions could not be restored, so the portfolio was not created`);
+    this.name = "RestoreError";
+  }
+}
+
+/**
+ * Recreate a backed-up portfolio as a new portfolio of the user's. Transactions
+ * get new ids, so those that refer to others (cancellations, specific lot
+ * selections) are recorded once what they refer to exists; holdings and lots
+ * follow from the replay. Check `backupProblem` first. It is all or nothing:
+ * should any transaction fail to record, the new portfolio is purged again and
+ * a RestoreError lists the backup ids that weren't restored.
+ */
+export async function restorePortfolio(store: IStorage, userId: string, backup: PortfolioBackupInput): Promise<Portfolio> {
+  const portfolio = await store.createPortfolio(userId, backup.portfolio);
+  try {
+    const unrestored = await restoreTransactions(store, userId, portfolio, backup);
+    if (unrestored.length > 0) throw new RestoreError(unrestored);
+  } catch (error) {
+    await store.deletePortfolio(userId, portfolio.id);
+    await store.purgePortfolio(userId, portfolio.id);
+    throw error;
+  }
+  return portfolio;
+}
+
+// Record the backup's transactions in the portfolio, returning the ids of any that weren't
+async function restoreTransactions(
+  store: IStorage,
+  userId: string,
+  portfolio: Portfolio,
+  backup: PortfolioBackupInput,
+): Promise<string[]> {
+  const newIds = new Map<string, string>();
+  const toInsert = ({ id: _id, ...t }: BackupTransaction): InsertTransaction => ({
+    ...t,
+    portfolioId: portfolio.id,
+    relatedTransactionId: t.relatedTransactionId ? newIds.get(t.relatedTransactionId) : t.relatedTransactionId,
+    lotSelections: t.lotSelections?.map(selection => ({
+      ...selection,
+      lotId: lotTransactionIds(selection.lotId).map(id => newIds.get(id)).join(":"),
+    })),
+  });
+
+  // Everything that refers to nothing goes in at once, with a single replay
+  const independent = backup.transactions.filter(t => references(t).length === 0);
+  const created = await store.createTransactions(userId, portfolio.id, independent.map(toInsert));
+  if (!created) return backup.transactions.map(t => t.id);
+  independent.forEach((t, i) => newIds.set(t.id, created[i].id));
+
+  let pending = backup.transactions
+    .filter(t => references(t).length > 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  while (pending.length > 0) {
+    const next = pending.find(t => references(t).every(id => newIds.has(id)));
+    if (!next) break;
+    const transaction = await store.createTransaction(userId, toInsert(next));
+    if (!transaction) break;
+    newIds.set(next.id, transaction.id);
+    pending = pending.filter(t => t !== next);
+  }
+
+  return pending.map(t => t.id);
+}
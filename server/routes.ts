@@ -1,24 +1,148 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertPortfolioSchema, insertTransactionSchema, insertHoldingSchema } from "@shared/schema";
+import { storage, transactionFromInsert } from "./storage";
+import {
+  insertPortfolioSchema,
+  insertTransactionSchema,
+  insertHoldingSchema,
+  updateHoldingSchema,
+  insertBenchmarkSchema,
+  marketSymbolSchema,
+  insertImportTemplateSchema,
+  importRequestSchema,
+  exportFormats,
+  portfolioBackupSchema,
+  performanceCalculationMethods,
+  transactionFilterSchema,
+  valuationIntervals,
+  valuationRanges,
+  holdingRecentTransactionCount,
+  portfolioTrashDays,
+  type DeletedPortfolio,
+  type HoldingDetail,
+  type InstrumentType,
+  type LotReliefMethod,
+  type ExportFormat,
+  type InsertTransaction,
+  type PerformanceCalculationMethod,
+  type UpdateHolding,
+  type ValuationInterval,
+  type ValuationRange,
+} from "@shared/schema";
 import { z } from "zod";
-import { requireAuth } from "./middleware";
+import { requireAuth, requireAdmin, currentUserId } from "./middleware";
+import { buildLotLedger, filterLedger, orphanedCancellations, oversoldSales, validateCorporateAction } from "./lots";
+import { calculatePerformance } from "./performance";
+import { backfillPriceHistory, portfolioPriceLookup } from "./price-history";
+import { marketDataProviders, MarketDataProviderError } from "./market-data";
+import { buildValuationSeries } from "./valuation";
+import { compareWithBenchmark, withBenchmarkValues } from "./benchmark";
+import { buildIncomeReport } from "./income";
+import { buildTaxReport } from "./tax";
+import { planImport } from "./import";
+import { exportFileName, portfolioBackup, portfolioCsv, portfolioOfx } from "./export";
+import { backupProblem, RestoreError, restorePortfolio } from "./restore";
+import { taxReportCsv, taxReportFileName, taxReportPdf } from "./tax-documents";
+import { refreshPortfolioPrices } from "./price-refresh";
+import { backfillCurrencyHistory, refreshCurrencyRates, storedFxLookup } from "./fx";
+import { scheduler } from "./jobs";
+import { javaGateway, javaServiceUrl } from "./java-gateway";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Why a new or edited transaction can't be recorded, if it can't
+async function transactionProblem(userId: string, data: InsertTransaction, id?: string): Promise<string | undefined> {
+  if (data.type === 'sell' && data.reliefMethod === 'SPECIFIC' && !data.lotSelections?.length) {
+    return "Specific lot identification requires lotSelections";
+  }
+  const invalidAction = validateCorporateAction({
+    type: data.type,
+    splitRatio: data.splitRatio ?? null,
+    relatedSymbol: data.relatedSymbol ?? null,
+    costApportionment: data.costApportionment ?? null,
+    relatedTransactionId: data.relatedTransactionId ?? null,
+    totalAmount: data.totalAmount,
+    withholdingTax: data.withholdingTax ?? null,
+    reinvestedQuantity: data.reinvestedQuantity ?? null,
+    reinvestmentPrice: data.reinvestmentPrice ?? null,
+  });
+  if (invalidAction) return invalidAction;
+  if (data.relatedTransactionId) {
+    const related = await storage.getTransaction(userId, data.relatedTransactionId);
+    if (!related || related.portfolioId !== data.portfolioId || related.id === id) {
+      return "Related transaction not found in this portfolio";
+    }
+  }
+
+  // Replayed with the others it mustn't leave a sell, its own or a later one, selling more than is held
+  const portfolio = await storage.getPortfolio(userId, data.portfolioId);
+  if (portfolio) {
+    const method = portfolio.lotReliefMethod as LotReliefMethod;
+    const recorded = await storage.getTransactions(userId, portfolio.id);
+    const alreadyOversold = new Set(oversoldSales(recorded, method).map(({ transaction }) => transaction.id));
+    const replayed = [...recorded.filter(t => t.id !== id), transactionFromInsert(data, id)];
+    const oversold = oversoldSales(replayed, method).find(({ transaction }) => !alreadyOversold.has(transaction.id));
+    if (oversold) {
+      const { transaction, held } = oversold;
+      return `Can't sell ${transaction.quantity} ${transaction.symbol} on ${transaction.date.toISOString().slice(0, 10)}: only ${Number(held.toFixed(8))} held then`;
+    }
+  }
+  return undefined;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Portfolio routes
   app.get("/api/portfolios", requireAuth, async (req: Request, res) => {
     try {
-      const portfolios = await storage.getPortfolios();
+      const portfolios = await storage.getPortfolios(currentUserId(req));
       res.json(portfolios);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch portfolios" });
     }
   });
 
+  // Deleted portfolios, restorable until they are purged
+  app.get("/api/portfolios/trash", requireAuth, async (req: Request, res) => {
+    try {
+      const deleted = await storage.getDeletedPortfolios(currentUserId(req));
+      res.json(deleted.map((portfolio): DeletedPortfolio => ({
+        ...portfolio,
+        purgeAt: new Date(portfolio.deletedAt!.getTime() + portfolioTrashDays * DAY_MS),
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch deleted portfolios" });
+    }
+  });
+
+  app.post("/api/portfolios/trash/:id/restore", requireAuth, async (req: Request, res) => {
+    try {
+      const portfolio = await storage.undeletePortfolio(currentUserId(req), req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found in the trash" });
+      }
+      res.json(portfolio);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore portfolio" });
+    }
+  });
+
+  app.delete("/api/portfolios/trash/:id", requireAuth, async (req: Request, res) => {
+    try {
+      const purged = await storage.purgePortfolio(currentUserId(req), req.params.id);
+      if (!purged) {
+        return res.status(404).json({ message: "Portfolio not found in the trash" });
+      }
+      res.json({ message: "Portfolio purged successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to purge portfolio" });
+    }
+  });
+
   app.get("/api/portfolios/:id", requireAuth, async (req: Request, res) => {
     try {
-      const portfolio = await storage.getPortfolioWithMetrics(req.params.id);
+      const portfolio = await storage.getPortfolioWithMetrics(currentUserId(req), req.params.id);
       if (!portfolio) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
@@ -31,7 +155,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/portfolios", requireAuth, async (req: Request, res) => {
     try {
       const data = insertPortfolioSchema.parse(req.body);
-      const portfolio = await storage.createPortfolio(data);
+      const portfolio = await storage.createPortfolio(currentUserId(req), data);
       res.status(201).json(portfolio);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -41,9 +165,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Replace a portfolio's settings. A new base currency fetches the rates its
+  // holdings need, so the metrics answered are already in that currency.
+  app.put("/api/portfolios/:id", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const existing = await storage.getPortfolio(userId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      const data = insertPortfolioSchema.parse(req.body);
+      const portfolio = await storage.updatePortfolio(userId, existing.id, data);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      if (portfolio.baseCurrency !== existing.baseCurrency) {
+        const currencies = new Set((await storage.getHoldings(userId, portfolio.id)).map(h => h.currency));
+        currencies.delete(portfolio.baseCurrency);
+        const errors = await refreshCurrencyRates(storage, marketDataProviders,
+          Array.from(currencies, (currency): [string, string] => [currency, portfolio.baseCurrency]));
+        errors.forEach(error => console.error(`Failed to refresh rate for portfolio ${portfolio.id}: ${error}`));
+      }
+      res.json(await storage.getPortfolioWithMetrics(userId, portfolio.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update portfolio" });
+    }
+  });
+
   app.delete("/api/portfolios/:id", requireAuth, async (req: Request, res) => {
     try {
-      const deleted = await storage.deletePortfolio(req.params.id);
+      const deleted = await storage.deletePortfolio(currentUserId(req), req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Portfolio not found" });
       }
@@ -53,23 +207,197 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Recreate a portfolio from a JSON export
+  app.post("/api/portfolios/restore", requireAuth, async (req: Request, res) => {
+    try {
+      const backup = portfolioBackupSchema.parse(req.body);
+      const problem = backupProblem(backup);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      res.status(201).json(await restorePortfolio(storage, currentUserId(req), backup));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid backup", errors: error.errors });
+      }
+      if (error instanceof RestoreError) {
+        return res.status(500).json({ message: error.message, transactionIds: error.transactionIds });
+      }
+      res.status(500).json({ message: "Failed to restore portfolio" });
+    }
+  });
+
+  // Holdings, transactions and lots as a CSV, a JSON backup or an OFX statement
+  app.get("/api/portfolios/:id/export", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const portfolio = await storage.getPortfolio(userId, req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      const format = (req.query.format as string | undefined) ?? "json";
+      if (!exportFormats.includes(format as ExportFormat)) {
+        return res.status(400).json({ message: `Unknown format: ${format}` });
+      }
+      const holdings = await storage.getHoldings(userId, portfolio.id);
+      const transactions = await storage.getTransactions(userId, portfolio.id);
+
+      res.attachment(exportFileName(portfolio, format as ExportFormat));
+      if (format === "ofx") {
+        return res.type("application/x-ofx").send(portfolioOfx(portfolio, holdings, transactions, await storedFxLookup(storage)));
+      }
+      const lots = buildLotLedger(transactions, portfolio.lotReliefMethod as LotReliefMethod);
+      if (format === "csv") {
+        return res.type("text/csv").send(portfolioCsv(portfolio, holdings, transactions, lots));
+      }
+      res.type("application/json").send(JSON.stringify(portfolioBackup(portfolio, holdings, transactions, lots), null, 2));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export portfolio" });
+    }
+  });
+
   // Holdings routes
   app.get("/api/portfolios/:portfolioId/holdings", requireAuth, async (req: Request, res) => {
     try {
-      const holdings = await storage.getHoldingsWithMetrics(req.params.portfolioId);
+      const userId = currentUserId(req);
+      if (!(await storage.getPortfolio(userId, req.params.portfolioId))) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      const holdings = await storage.getHoldingsWithMetrics(userId, req.params.portfolioId);
       res.json(holdings);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch holdings" });
     }
   });
 
+  app.get("/api/holdings/:id", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const holding = await storage.getHolding(userId, req.params.id);
+      const portfolio = holding && await storage.getPortfolio(userId, holding.portfolioId);
+      if (!holding || !portfolio) {
+        return res.status(404).json({ message: "Holding not found" });
+      }
+      const [holdings, transactions] = await Promise.all([
+        storage.getHoldingsWithMetrics(userId, portfolio.id),
+        storage.getTransactions(userId, portfolio.id),
+      ]);
+      const withMetrics = holdings.find(h => h.id === holding.id);
+      if (!withMetrics) {
+        return res.status(404).json({ message: "Holding not found" });
+      }
+      const ledger = buildLotLedger(transactions, portfolio.lotReliefMethod as LotReliefMethod);
+      const detail: HoldingDetail = {
+        ...withMetrics,
+        lots: filterLedger(ledger, holding.symbol),
+        recentTransactions: transactions
+          .filter(t => t.symbol === holding.symbol)
+          .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+          .slice(0, holdingRecentTransactionCount),
+      };
+      res.json(detail);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch holding" });
+    }
+  });
+
+  // Edit a holding: PUT with every field, PATCH with some. Its name, exchange
+  // and currency are updated in place; a new quantity or average cost is
+  // recorded as an adjustment transaction, so the lots and returns replay it.
+  const updateHolding = async (req: Request, res: Response, schema: z.ZodType<Partial<UpdateHolding>>) => {
+    try {
+      const userId = currentUserId(req);
+      const holding = await storage.getHolding(userId, req.params.id);
+      if (!holding) {
+        return res.status(404).json({ message: "Holding not found" });
+      }
+      const { symbol, exchange, currency, quantity, averageCost, date, ...details } = schema.parse(req.body);
+      if (symbol !== undefined && symbol !== holding.symbol) {
+        return res.status(400).json({ message: "A holding's symbol can't be changed; record trades under the new symbol instead" });
+      }
+      // Its transactions carry them too, so the holding would no longer match its ledger
+      if (exchange !== undefined && exchange.toUpperCase() !== holding.exchange.toUpperCase()) {
+        return res.status(400).json({ message: "A holding's exchange can't be changed; record trades on the new exchange instead" });
+      }
+      if (currency !== undefined && currency.toUpperCase() !== holding.currency.toUpperCase()) {
+        return res.status(400).json({ message: "A holding's currency can't be changed; record trades in the new currency instead" });
+      }
+      const updated = Object.keys(details).length > 0
+        ? await storage.updateHolding(userId, holding.id, details)
+        : holding;
+      if (!updated) {
+        return res.status(404).json({ message: "Holding not found" });
+      }
+
+      const newQuantity = quantity ?? parseFloat(holding.quantity);
+      const newAverageCost = averageCost ?? parseFloat(holding.averageCost);
+      if (newQuantity !== parseFloat(holding.quantity) || newAverageCost !== parseFloat(holding.averageCost)) {
+        await storage.createTransaction(userId, {
+          portfolioId: holding.portfolioId,
+          symbol: holding.symbol,
+          type: "adjustment",
+          quantity: newQuantity.toString(),
+          price: newAverageCost.toString(),
+          totalAmount: (newQuantity * newAverageCost).toString(),
+          fees: "0",
+          currency: updated.currency,
+          exchange: updated.exchange,
+          instrumentType: updated.instrumentType as InstrumentType,
+          date: date ?? new Date(),
+        });
+      }
+      res.json(await storage.getHolding(userId, holding.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update holding" });
+    }
+  };
+
+  app.put("/api/holdings/:id", requireAuth, (req: Request, res) => updateHolding(req, res, updateHoldingSchema));
+  app.patch("/api/holdings/:id", requireAuth, (req: Request, res) => updateHolding(req, res, updateHoldingSchema.partial()));
+
+  // Closing a holding is recorded as an adjustment to nothing, so it stays closed when the portfolio replays
+  app.delete("/api/holdings/:id", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const holding = await storage.getHolding(userId, req.params.id);
+      if (!holding) {
+        return res.status(404).json({ message: "Holding not found" });
+      }
+      if (parseFloat(holding.quantity) > 0) {
+        await storage.createTransaction(userId, {
+          portfolioId: holding.portfolioId,
+          symbol: holding.symbol,
+          type: "adjustment",
+          quantity: "0",
+          price: "0",
+          totalAmount: "0",
+          fees: "0",
+          currency: holding.currency,
+          exchange: holding.exchange,
+          instrumentType: holding.instrumentType as InstrumentType,
+          date: new Date(),
+        });
+      }
+      await storage.deleteHolding(userId, holding.id);
+      res.json({ message: "Holding deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete holding" });
+    }
+  });
+
   app.post("/api/portfolios/:portfolioId/holdings", requireAuth, async (req: Request, res) => {
     try {
       const data = insertHoldingSchema.parse({
         ...req.body,
         portfolioId: req.params.portfolioId,
       });
-      const holding = await storage.createHolding(data);
+      const holding = await storage.createHolding(currentUserId(req), data);
+      if (!holding) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
       res.status(201).json(holding);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -80,14 +408,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Transaction routes
+  // Without `page` or `size` this answers every transaction (or the latest `limit`);
+  // with either, one page of those matching the filters
   app.get("/api/portfolios/:portfolioId/transactions", requireAuth, async (req: Request, res) => {
     try {
+      const userId = currentUserId(req);
+      if (!(await storage.getPortfolio(userId, req.params.portfolioId))) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      if (req.query.page !== undefined || req.query.size !== undefined) {
+        const page = parseInt((req.query.page as string | undefined) ?? "0");
+        const size = parseInt((req.query.size as string | undefined) ?? String(DEFAULT_PAGE_SIZE));
+        if (!(page >= 0) || !(size >= 1 && size <= MAX_PAGE_SIZE)) {
+          return res.status(400).json({ message: `page must be 0 or more and size between 1 and ${MAX_PAGE_SIZE}` });
+        }
+        const filter = transactionFilterSchema.parse({
+          type: req.query.type || undefined,
+          symbol: req.query.symbol || undefined,
+          exchange: req.query.exchange || undefined,
+          from: req.query.from || undefined,
+          to: req.query.to || undefined,
+        });
+        return res.json(await storage.getTransactionPage(userId, req.params.portfolioId, filter, page, size));
+      }
       const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
       const transactions = limit 
-        ? await storage.getRecentTransactions(req.params.portfolioId, limit)
-        : await storage.getTransactions(req.params.portfolioId);
+        ? await storage.getRecentTransactions(userId, req.params.portfolioId, limit)
+        : await storage.getTransactions(userId, req.params.portfolioId);
       res.json(transactions);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filter", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch transactions" });
     }
   });
@@ -99,7 +451,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         portfolioId: req.params.portfolioId,
         date: new Date(req.body.date),
       });
-      const transaction = await storage.createTransaction(data);
+      const userId = currentUserId(req);
+      const problem = await transactionProblem(userId, data);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      const transaction = await storage.createTransaction(userId, data);
+      if (!transaction) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
       res.status(201).json(transaction);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -109,40 +469,383 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/portfolios/:portfolioId/transactions/:id", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const existing = await storage.getTransaction(userId, req.params.id);
+      if (!existing || existing.portfolioId !== req.params.portfolioId) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      const changes = insertTransactionSchema.omit({ portfolioId: true }).partial().parse({
+        ...req.body,
+        ...(req.body.date !== undefined && { date: new Date(req.body.date) }),
+      });
+      const problem = await transactionProblem(userId, insertTransactionSchema.parse({ ...existing, ...changes }), existing.id);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      res.json(await storage.updateTransaction(userId, existing.id, changes));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update transaction" });
+    }
+  });
+
+  // Delete one or several transactions of a portfolio: DELETE .../transactions/:id,
+  // or POST .../transactions/delete with { ids }
+  const deleteTransactions = async (req: Request, res: Response, ids: string[]) => {
+    const userId = currentUserId(req);
+    const portfolioId = req.params.portfolioId;
+    if (!(await storage.getPortfolio(userId, portfolioId))) {
+      return res.status(404).json({ message: "Portfolio not found" });
+    }
+    const transactions = await storage.getTransactions(userId, portfolioId);
+    const known = new Set(transactions.map(t => t.id));
+    const missing = ids.filter(id => !known.has(id));
+    if (missing.length > 0) {
+      return res.status(404).json({ message: "Transaction not found", ids: missing });
+    }
+    const orphaned = orphanedCancellations(transactions, ids);
+    if (orphaned.length > 0) {
+      return res.status(409).json({
+        message: "Cancelled trades can only be deleted together with their cancellations",
+        ids: orphaned.map(t => t.id),
+      });
+    }
+    const deleted = await storage.deleteTransactions(userId, portfolioId, ids);
+    res.json({ message: `${deleted} transaction${deleted === 1 ? "" : "s"} deleted`, deleted });
+  };
+
+  app.delete("/api/portfolios/:portfolioId/transactions/:id", requireAuth, async (req: Request, res) => {
+    try {
+      await deleteTransactions(req, res, [req.params.id]);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete transaction" });
+    }
+  });
+
+  app.post("/api/portfolios/:portfolioId/transactions/delete", requireAuth, async (req: Request, res) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.string()).min(1) }).parse(req.body);
+      await deleteTransactions(req, res, Array.from(new Set(ids)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to delete transactions" });
+    }
+  });
+
+  // Import a spreadsheet's rows. A dry run (the default) only reports which rows
+  // are new, duplicates or invalid; otherwise the new rows are recorded.
+  app.post("/api/portfolios/:id/import", requireAuth, async (req: Request, res) => {
+    try {
+      const { rows, options, dryRun } = importRequestSchema.parse(req.body);
+      const userId = currentUserId(req);
+      const portfolio = await storage.getPortfolio(userId, req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      const plan = planImport(
+        rows,
+        options,
+        portfolio.id,
+        await storage.getTransactions(userId, portfolio.id),
+        portfolio.lotReliefMethod as LotReliefMethod,
+      );
+      if (dryRun) {
+        return res.json(plan);
+      }
+      // Worked out again on commit, so rows oversold since the preview stay out too
+      const toImport = plan.rows.flatMap(row => row.status === "new" && row.transaction ? [row.transaction] : []);
+      const created = await storage.createTransactions(userId, portfolio.id, toImport);
+      res.status(201).json({ ...plan, dryRun: false, imported: created?.length ?? 0 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to import transactions" });
+    }
+  });
+
+  // Import templates: column mappings saved per broker
+  app.get("/api/import-templates", requireAuth, async (req: Request, res) => {
+    try {
+      res.json(await storage.getImportTemplates(currentUserId(req)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch import templates" });
+    }
+  });
+
+  app.post("/api/import-templates", requireAuth, async (req: Request, res) => {
+    try {
+      const data = insertImportTemplateSchema.parse(req.body);
+      res.status(201).json(await storage.saveImportTemplate(currentUserId(req), data));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save import template" });
+    }
+  });
+
+  app.delete("/api/import-templates/:id", requireAuth, async (req: Request, res) => {
+    try {
+      const deleted = await storage.deleteImportTemplate(currentUserId(req), req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Import template not found" });
+      }
+      res.json({ message: "Import template deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete import template" });
+    }
+  });
+
+  // Tax lot routes
+  app.get("/api/portfolios/:id/lots", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const portfolio = await storage.getPortfolio(userId, req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      const transactions = await storage.getTransactions(userId, portfolio.id);
+      const ledger = buildLotLedger(transactions, portfolio.lotReliefMethod as LotReliefMethod);
+      const symbol = req.query.symbol as string | undefined;
+      res.json(symbol ? filterLedger(ledger, symbol) : ledger);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tax lots" });
+    }
+  });
+
+  // Performance routes
+  app.get("/api/portfolios/:id/performance", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const portfolio = await storage.getPortfolio(userId, req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      const method = (req.query.method as string | undefined) ?? portfolio.performanceCalculationMethod;
+      if (!performanceCalculationMethods.includes(method as PerformanceCalculationMethod)) {
+        return res.status(400).json({ message: `Unknown performance method: ${method}` });
+      }
+      const transactions = await storage.getTransactions(userId, portfolio.id);
+      const holdings = await storage.getHoldings(userId, portfolio.id);
+      const marketData = await storage.getMarketDataBatch(Array.from(new Set(transactions.map(t => t.symbol))));
+      const price = await portfolioPriceLookup(storage, transactions, holdings, marketData);
+      res.json(calculatePerformance(portfolio, transactions, method as PerformanceCalculationMethod, price, await storedFxLookup(storage)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate performance" });
+    }
+  });
+
+  // Benchmarks: instruments a portfolio, or one of its holdings, is compared with
+  app.get("/api/portfolios/:id/benchmarks", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const portfolio = await storage.getPortfolio(userId, req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      res.json(await storage.getBenchmarks(userId, portfolio.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch benchmarks" });
+    }
+  });
+
+  app.post("/api/portfolios/:id/benchmarks", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const portfolio = await storage.getPortfolio(userId, req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      const data = insertBenchmarkSchema.parse(req.body);
+      const holdingSymbol = data.holdingSymbol ?? null;
+      const transactions = (await storage.getTransactions(userId, portfolio.id))
+        .filter(t => !holdingSymbol || t.symbol.toUpperCase() === holdingSymbol);
+      if (holdingSymbol && transactions.length === 0) {
+        return res.status(400).json({ message: `This portfolio has no transactions in ${holdingSymbol}` });
+      }
+      const existing = await storage.getBenchmarks(userId, portfolio.id);
+      if (existing.some(b => b.symbol === data.symbol && b.holdingSymbol === holdingSymbol)) {
+        return res.status(409).json({ message: `${data.symbol} is already a benchmark for ${holdingSymbol ?? portfolio.name}` });
+      }
+
+      const benchmark = await storage.createBenchmark(userId, portfolio.id, { ...data, holdingSymbol });
+      // Load its closes back to the first trade, so every cash flow can be mirrored
+      const first = transactions.reduce<Date | undefined>((earliest, t) => !earliest || t.date < earliest ? t.date : earliest, undefined);
+      await backfillPriceHistory(storage, marketDataProviders, [data.symbol], first?.toISOString().slice(0, 10));
+      res.status(201).json(benchmark);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add benchmark" });
+    }
+  });
+
+  app.delete("/api/portfolios/:id/benchmarks/:benchmarkId", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const benchmark = await storage.getBenchmark(userId, req.params.benchmarkId);
+      if (benchmark?.portfolioId !== req.params.id) {
+        return res.status(404).json({ message: "Benchmark not found" });
+      }
+      await storage.deleteBenchmark(userId, benchmark.id);
+      res.json({ message: "Benchmark deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete benchmark" });
+    }
+  });
+
+  app.get("/api/portfolios/:id/benchmarks/:benchmarkId/comparison", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const portfolio = await storage.getPortfolio(userId, req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      const benchmark = await storage.getBenchmark(userId, req.params.benchmarkId);
+      if (benchmark?.portfolioId !== portfolio.id) {
+        return res.status(404).json({ message: "Benchmark not found" });
+      }
+      const method = (req.query.method as string | undefined) ?? portfolio.performanceCalculationMethod;
+      if (!performanceCalculationMethods.includes(method as PerformanceCalculationMethod)) {
+        return res.status(400).json({ message: `Unknown performance method: ${method}` });
+      }
+      const transactions = await storage.getTransactions(userId, portfolio.id);
+      const holdings = await storage.getHoldings(userId, portfolio.id);
+      const marketData = await storage.getMarketDataBatch(Array.from(new Set(transactions.map(t => t.symbol))));
+      const price = await portfolioPriceLookup(storage, transactions, holdings, marketData);
+      const bars = await storage.getPriceHistory(benchmark.symbol);
+      const fx = await storedFxLookup(storage);
+      res.json(compareWithBenchmark(portfolio, benchmark, transactions, method as PerformanceCalculationMethod, price, bars, fx));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compare with benchmark" });
+    }
+  });
+
+  app.get("/api/portfolios/:id/valuation", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const portfolio = await storage.getPortfolio(userId, req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      const range = (req.query.range as string | undefined) ?? "1Y";
+      const interval = (req.query.interval as string | undefined) ?? "day";
+      if (!valuationRanges.includes(range as ValuationRange)) {
+        return res.status(400).json({ message: `Unknown range: ${range}` });
+      }
+      if (!valuationIntervals.includes(interval as ValuationInterval)) {
+        return res.status(400).json({ message: `Unknown interval: ${interval}` });
+      }
+      const transactions = await storage.getTransactions(userId, portfolio.id);
+      const holdings = await storage.getHoldings(userId, portfolio.id);
+      const marketData = await storage.getMarketDataBatch(Array.from(new Set(transactions.map(t => t.symbol))));
+      const benchmark = req.query.benchmark
+        ? await storage.getBenchmark(userId, req.query.benchmark as string)
+        : undefined;
+      if (req.query.benchmark && benchmark?.portfolioId !== portfolio.id) {
+        return res.status(404).json({ message: "Benchmark not found" });
+      }
+      const price = await portfolioPriceLookup(storage, transactions, holdings, marketData);
+      const fx = await storedFxLookup(storage);
+      const asOf = new Date();
+      const valuation = buildValuationSeries(portfolio, transactions, price, fx, range as ValuationRange, interval as ValuationInterval, asOf);
+      if (!benchmark) {
+        return res.json(valuation);
+      }
+      const bars = await storage.getPriceHistory(benchmark.symbol);
+      res.json(withBenchmarkValues(valuation, portfolio, benchmark, transactions, bars, fx, range as ValuationRange, interval as ValuationInterval, asOf));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build valuation" });
+    }
+  });
+
+  app.get("/api/portfolios/:id/income", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const portfolio = await storage.getPortfolio(userId, req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      const transactions = await storage.getTransactions(userId, portfolio.id);
+      const holdings = await storage.getHoldings(userId, portfolio.id);
+      res.json(buildIncomeReport(portfolio, holdings, transactions, await storedFxLookup(storage)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build income report" });
+    }
+  });
+
+  // Capital gains for one financial year, as JSON or a CSV / PDF download
+  app.get("/api/portfolios/:id/tax-report", requireAuth, async (req: Request, res) => {
+    try {
+      const userId = currentUserId(req);
+      const portfolio = await storage.getPortfolio(userId, req.params.id);
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      const year = req.query.year ? parseInt(req.query.year as string) : undefined;
+      if (year !== undefined && !(year >= 1900 && year <= 2200)) {
+        return res.status(400).json({ message: `Invalid year: ${req.query.year}` });
+      }
+      const format = (req.query.format as string | undefined) ?? "json";
+      if (!["json", "csv", "pdf"].includes(format)) {
+        return res.status(400).json({ message: `Unknown format: ${format}` });
+      }
+      const transactions = await storage.getTransactions(userId, portfolio.id);
+      const report = buildTaxReport(portfolio, transactions, await storedFxLookup(storage), year);
+
+      if (format === "csv") {
+        res.attachment(taxReportFileName(report, "csv"));
+        return res.type("text/csv").send(taxReportCsv(report));
+      }
+      if (format === "pdf") {
+        res.attachment(taxReportFileName(report, "pdf"));
+        return res.type("application/pdf").send(await taxReportPdf(report));
+      }
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build tax report" });
+    }
+  });
+
   // Market data routes
+  app.get("/api/market-data/search", requireAuth, async (req: Request, res) => {
+    try {
+      const query = (req.query.q as string | undefined)?.trim();
+      if (!query) {
+        return res.status(400).json({ message: "q is required" });
+      }
+      res.json(await marketDataProviders.search(query));
+    } catch (error) {
+      if (error instanceof MarketDataProviderError && error.kind === "not_found") {
+        return res.json([]);
+      }
+      res.status(502).json({ message: "Instrument search is unavailable" });
+    }
+  });
+
   app.get("/api/market-data/:symbol", requireAuth, async (req: Request, res) => {
     try {
-      const { symbol } = req.params;
-      const apiKey = process.env.ALPHA_VANTAGE_API_KEY || process.env.VITE_ALPHA_VANTAGE_API_KEY || "demo";
+      const symbol = req.params.symbol.toUpperCase();
+      const exchange = req.query.exchange as string | undefined;
       
       // Try to get cached data first
-      let marketData = await storage.getMarketData(symbol);
+      let marketData = await storage.getMarketData(symbol, exchange ?? "");
       
-      // If no cached data or data is older than 5 minutes, fetch from API
+      // If no cached data or data is older than 5 minutes, fetch from the providers
       if (!marketData || (new Date().getTime() - marketData.lastUpdated!.getTime()) > 5 * 60 * 1000) {
         try {
-          const response = await fetch(
-            `https://www.alphavantage.co/query?function=GLOBAL_QUOTE&symbol=${symbol}&apikey=${apiKey}`
-          );
-          const data = await response.json();
-          
-          if (data["Global Quote"]) {
-            const quote = data["Global Quote"];
-            const newMarketData = {
-              symbol: symbol.toUpperCase(),
-              price: quote["05. price"],
-              change: quote["09. change"],
-              changePercent: quote["10. change percent"].replace("%", ""),
-              volume: parseInt(quote["06. volume"]) || 0,
-              marketCap: null,
-            };
-            
-            marketData = await storage.updateMarketData(newMarketData);
-          } else {
-            throw new Error("Invalid API response");
-          }
-        } catch (apiError) {
-          console.error("Failed to fetch from Alpha Vantage:", apiError);
+          const quote = await marketDataProviders.getQuote(symbol, exchange);
+          marketData = await storage.updateMarketData({ ...quote, exchange: exchange ?? "" });
+        } catch (providerError) {
+          console.error("Failed to fetch quote:", providerError);
           // Return cached data if available, otherwise return error
           if (!marketData) {
             return res.status(404).json({ message: "Market data not found" });
@@ -156,35 +859,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Price history routes
+  app.get("/api/market-data/:symbol/history", requireAuth, async (req: Request, res) => {
+    try {
+      const from = req.query.from as string | undefined;
+      const to = req.query.to as string | undefined;
+      const isDay = (value?: string) => !value || /^\d{4}-\d{2}-\d{2}$/.test(value);
+      if (!isDay(from) || !isDay(to)) {
+        return res.status(400).json({ message: "from and to must be dates in YYYY-MM-DD format" });
+      }
+      const history = await storage.getPriceHistory(req.params.symbol.toUpperCase(), from, to);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch price history" });
+    }
+  });
+
+  app.post("/api/market-data/backfill", requireAdmin, async (req: Request, res) => {
+    try {
+      const data = z.object({
+        symbols: z.array(marketSymbolSchema).min(1).max(25),
+        from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      }).parse(req.body);
+      const results = await backfillPriceHistory(storage, marketDataProviders, data.symbols, data.from);
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to backfill price history" });
+    }
+  });
+
   // Currency conversion routes
   app.get("/api/currency/:from/:to", requireAuth, async (req: Request, res) => {
     try {
-      const { from, to } = req.params;
-      const apiKey = process.env.ALPHA_VANTAGE_API_KEY || process.env.VITE_ALPHA_VANTAGE_API_KEY || "demo";
+      const from = req.params.from.toUpperCase();
+      const to = req.params.to.toUpperCase();
       
       // Try to get cached rate first
-      let currencyRate = await storage.getCurrencyRate(from.toUpperCase(), to.toUpperCase());
+      let currencyRate = await storage.getCurrencyRate(from, to);
       
-      // If no cached rate or rate is older than 1 hour, fetch from API
+      // If no cached rate or rate is older than 1 hour, fetch from the providers
       if (!currencyRate || (new Date().getTime() - currencyRate.lastUpdated!.getTime()) > 60 * 60 * 1000) {
         try {
-          const response = await fetch(
-            `https://www.alphavantage.co/query?function=CURRENCY_EXCHANGE_RATE&from_currency=${from}&to_currency=${to}&apikey=${apiKey}`
-          );
-          const data = await response.json();
-          
-          if (data["Realtime Currency Exchange Rate"]) {
-            const rate = data["Realtime Currency Exchange Rate"]["5. Exchange Rate"];
-            currencyRate = await storage.updateCurrencyRate({
-              fromCurrency: from.toUpperCase(),
-              toCurrency: to.toUpperCase(),
-              rate: rate,
-            });
-          } else {
-            throw new Error("Invalid API response");
-          }
-        } catch (apiError) {
-          console.error("Failed to fetch currency rate:", apiError);
+          const rate = await marketDataProviders.getFxRate(from, to);
+          currencyRate = await storage.updateCurrencyRate({
+            fromCurrency: from,
+            toCurrency: to,
+            rate: rate.toString(),
+          });
+        } catch (providerError) {
+          console.error("Failed to fetch currency rate:", providerError);
           // Return cached rate if available, otherwise return error
           if (!currencyRate) {
             return res.status(404).json({ message: "Currency rate not found" });
@@ -198,40 +924,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/currency/:from/:to/history", requireAuth, async (req: Request, res) => {
+    try {
+      const start = req.query.from as string | undefined;
+      const end = req.query.to as string | undefined;
+      const isDay = (value?: string) => !value || /^\d{4}-\d{2}-\d{2}$/.test(value);
+      if (!isDay(start) || !isDay(end)) {
+        return res.status(400).json({ message: "from and to must be dates in YYYY-MM-DD format" });
+      }
+      const history = await storage.getCurrencyHistory(req.params.from.toUpperCase(), req.params.to.toUpperCase());
+      res.json(history.filter(day => (!start || day.date >= start) && (!end || day.date <= end)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch currency history" });
+    }
+  });
+
+  app.post("/api/currency/backfill", requireAdmin, async (req: Request, res) => {
+    try {
+      const data = z.object({
+        pairs: z.array(z.string().regex(/^[A-Za-z]{3}-[A-Za-z]{3}$/)).min(1).max(25),
+        from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      }).parse(req.body);
+      const results = await backfillCurrencyHistory(storage, marketDataProviders, data.pairs, data.from);
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to backfill currency history" });
+    }
+  });
+
   // Update stock prices for a portfolio
   app.post("/api/portfolios/:portfolioId/update-prices", requireAuth, async (req: Request, res) => {
     try {
-      const holdings = await storage.getHoldings(req.params.portfolioId);
-      const symbols = Array.from(new Set(holdings.map(h => h.symbol)));
-      
-      for (const symbol of symbols) {
-        try {
-          // Trigger price update by fetching market data
-          await fetch(`http://localhost:${process.env.PORT || 3000}/api/market-data/${symbol}`);
-          
-          // Update holding current price
-          const marketData = await storage.getMarketData(symbol);
-          if (marketData) {
-            const holdingsForSymbol = holdings.filter(h => h.symbol === symbol);
-            for (const holding of holdingsForSymbol) {
-              // Create a partial update object that includes currentPrice
-              const holdingUpdate: Partial<any> = {
-                currentPrice: marketData.price,
-              };
-              await storage.updateHolding(holding.id, holdingUpdate);
-            }
-          }
-        } catch (error) {
-          console.error(`Failed to update price for ${symbol}:`, error);
-        }
+      const userId = currentUserId(req);
+      if (!(await storage.getPortfolio(userId, req.params.portfolioId))) {
+        return res.status(404).json({ message: "Portfolio not found" });
       }
-      
-      res.json({ message: "Prices updated successfully" });
+      const report = await refreshPortfolioPrices(storage, marketDataProviders, userId, req.params.portfolioId);
+      res.json(report);
     } catch (error) {
       res.status(500).json({ message: "Failed to update prices" });
     }
   });
 
+  // Background job routes
+  app.get("/api/admin/jobs", requireAdmin, async (_req: Request, res) => {
+    res.json(scheduler.status());
+  });
+
+  app.post("/api/admin/jobs/:name/run", requireAdmin, async (req: Request, res) => {
+    try {
+      const status = await scheduler.runNow(req.params.name);
+      if (!status) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to run job" });
+    }
+  });
+
+  // Java portfolio service, proxied with the user's own token
+  app.use("/api/v2", requireAuth, javaGateway(javaServiceUrl()));
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,120 @@
+import type { JobStatus } from "@shared/schema";
+
+// What a run did, plus errors for individual items that didn't stop the run
+export type JobOutcome = {
+  summary: string;
+  errors?: string[];
+};
+
+export type ScheduledJob = {
+  name: string;
+  description: string;
+  intervalMs: number;
+  run: () => Promise<JobOutcome>;
+};
+
+type JobState = {
+  job: ScheduledJob;
+  status: JobStatus;
+  timer?: NodeJS.Timeout;
+};
+
+/**
+ * Runs jobs in-process on a fixed interval. A job is never run twice at once:
+ * the next run is only scheduled once the current one has finished, so a slow
+ * run delays the next rather than overlapping it.
+ */
+export class JobScheduler {
+  private jobs = new Map<string, JobState>();
+  private started = false;
+
+  register(job: ScheduledJob) {
+    this.jobs.set(job.name, {
+      job,
+      status: {
+        name: job.name,
+        description: job.description,
+        intervalMs: job.intervalMs,
+        running: false,
+        runs: 0,
+        failures: 0,
+        lastRunAt: null,
+        lastDurationMs: null,
+        lastSuccessAt: null,
+        lastSummary: null,
+        lastErrors: [],
+        nextRunAt: null,
+      },
+    });
+    if (this.started) this.schedule(job.name, 0);
+  }
+
+  // Run every job now, then on its interval
+  start() {
+    if (this.started) return;
+    this.started = true;
+    Array.from(this.jobs.keys()).forEach(name => this.schedule(name, 0));
+  }
+
+  stop() {
+    this.started = false;
+    for (const state of Array.from(this.jobs.values())) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+      state.status.nextRunAt = null;
+    }
+  }
+
+  status(): JobStatus[] {
+    return Array.from(this.jobs.values()).map(state => ({ ...state.status }));
+  }
+
+  /**
+   * Run a job now, outside its schedule. Resolves undefined for an unknown job
+   * and with the current status, without starting another run, when it is
+   * already running.
+   */
+  async runNow(name: string): Promise<JobStatus | undefined> {
+    const state = this.jobs.get(name);
+    if (!state) return undefined;
+    if (!state.status.running) {
+      clearTimeout(state.timer);
+      await this.execute(state);
+    }
+    return { ...state.status };
+  }
+
+  private schedule(name: string, delayMs: number) {
+    const state = this.jobs.get(name)!;
+    clearTimeout(state.timer);
+    state.status.nextRunAt = new Date(Date.now() + delayMs);
+    state.timer = setTimeout(() => this.execute(state), delayMs);
+    // Don't keep the process alive just for the next run
+    state.timer.unref();
+  }
+
+  private async execute(state: JobState) {
+    const { job, status } = state;
+    const startedAt = new Date();
+    status.running = true;
+    status.nextRunAt = null;
+    status.lastRunAt = startedAt;
+    status.runs += 1;
+
+    try {
+      const outcome = await job.run();
+      status.lastSuccessAt = new Date();
+      status.lastSummary = outcome.summary;
+      status.lastErrors = outcome.errors ?? [];
+    } catch (error) {
+      console.error(`Job ${job.name} failed:`, error);
+      status.failures += 1;
+      status.lastSummary = null;
+      status.lastErrors = [(error as Error).message];
+    } finally {
+      status.running = false;
+      status.lastDurationMs = Date.now() - startedAt.getTime();
+      if (this.started) this.schedule(job.name, job.intervalMs);
+    }
+  }
+}
@@ -7,63 +7,137 @@ import {
   type InsertTransaction,
   type Currency,
   type InsertCurrency,
+  type CurrencyHistory,
+  type InsertCurrencyHistory,
   type MarketData,
   type InsertMarketData,
+  type PriceHistory,
+  type InsertPriceHistory,
+  type User,
+  type InsertUser,
+  type LotReliefMethod,
   type PortfolioWithMetrics,
-  type HoldingWithMetrics
+  type HoldingWithMetrics,
+  type Page,
+  type TransactionFilter,
+  type ImportTemplate,
+  type InsertImportTemplate,
+  type Benchmark,
+  type InsertBenchmark
 } from "@shared/schema";
 import { randomUUID } from "crypto";
-
-// User type for authentication
-export interface User {
-  id: string;
-  googleId: string;
-  email: string;
-  name: string;
-  picture?: string;
-  accessToken?: string;
-  createdAt: Date;
-}
-
-export interface InsertUser {
-  googleId: string;
-  email: string;
-  name: string;
-  picture?: string;
+import { DbStorage } from "./db-storage";
+import { createDb } from "./db";
+import { buildLotLedger, positionFromLedger, realizedGainByTransaction, sortChronologically } from "./lots";
+import { calculatePerformance } from "./performance";
+import { portfolioPriceLookup } from "./price-history";
+import { isPriceStale } from "./market-data/trading-hours";
+import { consolidateHoldings } from "./consolidation";
+import { trailingIncome } from "./income";
+import { storedFxLookup } from "./fx";
+
+export type { User, InsertUser };
+
+// An instrument someone holds, with the base currency of the portfolio holding it
+export type HeldInstrument = {
+  symbol: string;
+  exchange: string;
+  currency: string;
+  baseCurrency: string;
+};
+
+// What updating a holding may change: its details and, on a price refresh, its current price
+export type HoldingUpdate = Partial<InsertHolding> & Partial<Pick<Holding, "currentPrice">>;
+
+// Wrap one page of `totalElements` results
+export function pageOf<T>(content: T[], page: number, size: number, totalElements: number): Page<T> {
+  const totalPages = Math.ceil(totalElements / size);
+  return {
+    content,
+    number: page,
+    size,
+    totalElements,
+    totalPages,
+    first: page === 0,
+    last: page >= totalPages - 1,
+    empty: content.length === 0,
+  };
 }
 
+// Portfolio, holding and transaction methods take the acting user's id first and
+// only ever see that user's portfolios: anything owned by someone else behaves
+// exactly as if it did not exist (undefined / empty / false).
 export interface IStorage {
   // Portfolios
-  getPortfolios(): Promise<Portfolio[]>;
-  getPortfolio(id: string): Promise<Portfolio | undefined>;
-  createPortfolio(portfolio: InsertPortfolio): Promise<Portfolio>;
-  updatePortfolio(id: string, portfolio: Partial<InsertPortfolio>): Promise<Portfolio | undefined>;
-  deletePortfolio(id: string): Promise<boolean>;
-  getPortfolioWithMetrics(id: string): Promise<PortfolioWithMetrics | undefined>;
+  getPortfolios(userId: string): Promise<Portfolio[]>;
+  getPortfolio(userId: string, id: string): Promise<Portfolio | undefined>;
+  createPortfolio(userId: string, portfolio: InsertPortfolio): Promise<Portfolio>;
+  // Changing the lot relief method replays the portfolio's holdings and realized gains
+  updatePortfolio(userId: string, id: string, portfolio: Partial<InsertPortfolio>): Promise<Portfolio | undefined>;
+  // Deleting moves a portfolio to the trash, hiding it and everything in it
+  // until it is undeleted, or purged for good with its holdings and transactions
+  deletePortfolio(userId: string, id: string): Promise<boolean>;
+  getDeletedPortfolios(userId: string): Promise<Portfolio[]>; // most recently deleted first
+  undeletePortfolio(userId: string, id: string): Promise<Portfolio | undefined>;
+  purgePortfolio(userId: string, id: string): Promise<boolean>; // only from the trash
+  getPortfolioWithMetrics(userId: string, id: string): Promise<PortfolioWithMetrics | undefined>;
 
   // Holdings
-  getHoldings(portfolioId: string): Promise<Holding[]>;
-  getHolding(id: string): Promise<Holding | undefined>;
-  createHolding(holding: InsertHolding): Promise<Holding>;
-  updateHolding(id: string, holding: Partial<InsertHolding>): Promise<Holding | undefined>;
-  deleteHolding(id: string): Promise<boolean>;
-  getHoldingsWithMetrics(portfolioId: string): Promise<HoldingWithMetrics[]>;
+  getHoldings(userId: string, portfolioId: string): Promise<Holding[]>;
+  getHolding(userId: string, id: string): Promise<Holding | undefined>;
+  createHolding(userId: string, holding: InsertHolding): Promise<Holding | undefined>;
+  updateHolding(userId: string, id: string, holding: HoldingUpdate): Promise<Holding | undefined>;
+  deleteHolding(userId: string, id: string): Promise<boolean>;
+  getHoldingsWithMetrics(userId: string, portfolioId: string): Promise<HoldingWithMetrics[]>;
 
   // Transactions
-  getTransactions(portfolioId: string): Promise<Transaction[]>;
-  getTransaction(id: string): Promise<Transaction | undefined>;
-  createTransaction(transaction: InsertTransaction): Promise<Transaction>;
-  getRecentTransactions(portfolioId: string, limit?: number): Promise<Transaction[]>;
+  getTransactions(userId: string, portfolioId: string): Promise<Transaction[]>;
+  getTransaction(userId: string, id: string): Promise<Transaction | undefined>;
+  createTransaction(userId: string, transaction: InsertTransaction): Promise<Transaction | undefined>;
+  // Several at once, replaying the portfolio a single time; undefined when the portfolio isn't the user's
+  createTransactions(userId: string, portfolioId: string, transactions: InsertTransaction[]): Promise<Transaction[] | undefined>;
+  getRecentTransactions(userId: string, portfolioId: string, limit?: number): Promise<Transaction[]>;
+  // Newest first; `page` is zero-based
+  getTransactionPage(userId: string, portfolioId: string, filter: TransactionFilter, page: number, size: number): Promise<Page<Transaction>>;
+  // Editing or deleting replays the portfolio, so holdings and realized gains follow
+  updateTransaction(userId: string, id: string, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined>;
+  deleteTransactions(userId: string, portfolioId: string, ids: string[]): Promise<number>;
+
+  // Import templates (column mappings saved per broker). Saving replaces a template of the same name.
+  getImportTemplates(userId: string): Promise<ImportTemplate[]>;
+  saveImportTemplate(userId: string, template: InsertImportTemplate): Promise<ImportTemplate>;
+  deleteImportTemplate(userId: string, id: string): Promise<boolean>;
+
+  // Benchmarks, oldest first; holding-level ones carry the holding's symbol
+  getBenchmarks(userId: string, portfolioId: string): Promise<Benchmark[]>;
+  getBenchmark(userId: string, id: string): Promise<Benchmark | undefined>;
+  createBenchmark(userId: string, portfolioId: string, benchmark: InsertBenchmark): Promise<Benchmark | undefined>;
+  deleteBenchmark(userId: string, id: string): Promise<boolean>;
 
   // Currencies
   getCurrencyRate(fromCurrency: string, toCurrency: string): Promise<Currency | undefined>;
   updateCurrencyRate(rate: InsertCurrency): Promise<Currency>;
   getAllCurrencyRates(): Promise<Currency[]>;
+  // Daily rates, oldest first; dates are YYYY-MM-DD
+  getCurrencyHistory(fromCurrency?: string, toCurrency?: string): Promise<CurrencyHistory[]>;
+  saveCurrencyHistory(days: InsertCurrencyHistory[]): Promise<number>;
 
   // Market Data
-  getMarketData(symbol: string): Promise<MarketData | undefined>;
+  // A quote is kept per symbol and exchange; the exchange is "" when it was looked up without one
+  getMarketData(symbol: string, exchange?: string): Promise<MarketData | undefined>;
   updateMarketData(data: InsertMarketData): Promise<MarketData>;
-  getMarketDataBatch(symbols: string[]): Promise<MarketData[]>;
+  getMarketDataBatch(symbols: string[]): Promise<MarketData[]>; // on every exchange
+
+  // Price history (daily bars, oldest first; dates are YYYY-MM-DD and inclusive)
+  getPriceHistory(symbol: string, from?: string, to?: string): Promise<PriceHistory[]>;
+  getLatestPriceHistoryDate(symbol: string): Promise<string | undefined>;
+  savePriceHistory(bars: InsertPriceHistory[]): Promise<number>;
+
+  // Background jobs. These work across every user's portfolios.
+  getHeldInstruments(): Promise<HeldInstrument[]>;
+  getBenchmarkSymbols(): Promise<string[]>;
+  setHoldingPrices(symbol: string, exchange: string, price: string): Promise<number>;
+  purgeDeletedPortfolios(deletedBefore: Date): Promise<number>;
 
   // Users
   getUserByGoogleId(googleId: string): Promise<User | undefined>;
@@ -72,12 +146,49 @@ export interface IStorage {
   updateUserToken(userId: string, accessToken: string): Promise<User>;
 }
 
+function matchesFilter(transaction: Transaction, filter: TransactionFilter): boolean {
+  const day = transaction.date.toISOString().slice(0, 10);
+  return (!filter.type || transaction.type === filter.type) &&
+    (!filter.symbol || transaction.symbol.toUpperCase().includes(filter.symbol.toUpperCase())) &&
+    (!filter.exchange || transaction.exchange === filter.exchange) &&
+    (!filter.from || day >= filter.from) &&
+    (!filter.to || day <= filter.to);
+}
+
+const marketDataKey = (symbol: string, exchange: string) => `${symbol}|${exchange}`;
+
+// A transaction as it is recorded, with its optional fields defaulted
+export function transactionFromInsert(insertTransaction: InsertTransaction, id: string = randomUUID()): Transaction {
+  return {
+    ...insertTransaction,
+    id,
+    fees: insertTransaction.fees || "0",
+    instrumentType: insertTransaction.instrumentType || "STK",
+    splitRatio: insertTransaction.splitRatio || null,
+    relatedSymbol: insertTransaction.relatedSymbol || null,
+    costApportionment: insertTransaction.costApportionment || null,
+    relatedTransactionId: insertTransaction.relatedTransactionId || null,
+    withholdingTax: insertTransaction.withholdingTax || null,
+    frankingCredits: insertTransaction.frankingCredits || null,
+    reinvestedQuantity: insertTransaction.reinvestedQuantity || null,
+    reinvestmentPrice: insertTransaction.reinvestmentPrice || null,
+    reliefMethod: insertTransaction.reliefMethod || null,
+    lotSelections: insertTransaction.lotSelections || null,
+    realizedGain: null,
+    createdAt: new Date(),
+  };
+}
+
 export class MemStorage implements IStorage {
   private portfolios: Map<string, Portfolio>;
   private holdings: Map<string, Holding>;
   private transactions: Map<string, Transaction>;
+  private importTemplates: Map<string, ImportTemplate>;
+  private benchmarks: Map<string, Benchmark>;
   private currencies: Map<string, Currency>;
   private marketData: Map<string, MarketData>;
+  private priceHistory: Map<string, PriceHistory>;
+  private currencyHistory: Map<string, CurrencyHistory>;
   private users: Map<string, User>;
   private googleIdToUserId: Map<string, string>;
 
@@ -85,13 +196,14 @@ export class MemStorage implements IStorage {
     this.portfolios = new Map();
     this.holdings = new Map();
     this.transactions = new Map();
+    this.importTemplates = new Map();
+    this.benchmarks = new Map();
     this.currencies = new Map();
     this.marketData = new Map();
+    this.priceHistory = new Map();
+    this.currencyHistory = new Map();
     this.users = new Map();
     this.googleIdToUserId = new Map();
-
-    // Initialize with sample data
-    this.initializeSampleData();
   }
 
   // User management methods
@@ -109,11 +221,15 @@ export class MemStorage implements IStorage {
     const user: User = {
       ...insertUser,
       id: randomUUID(),
-      accessToken: undefined,
+      picture: insertUser.picture || null,
+      accessToken: null,
       createdAt: new Date(),
     };
     this.users.set(user.id, user);
     this.googleIdToUserId.set(user.googleId, user.id);
+
+    // Give every new user some sample data to explore
+    this.initializeSampleData(user.id);
     return user;
   }
 
@@ -126,31 +242,37 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
 
-  private initializeSampleData() {
+  private initializeSampleData(userId: string) {
     // Create sample portfolios
     const usPortfolio: Portfolio = {
       id: randomUUID(),
+      userId,
       name: "US Growth Portfolio",
       description: "Technology and growth stocks in US markets",
       externalIdentifier: null,
       taxResidency: "US",
       financialYearEnd: "31st Dec",
       performanceCalculationMethod: "Simple",
+      lotReliefMethod: "FIFO",
       baseCurrency: "USD",
       createdAt: new Date(),
+      deletedAt: null,
     };
     this.portfolios.set(usPortfolio.id, usPortfolio);
 
     const intlPortfolio: Portfolio = {
       id: randomUUID(),
+      userId,
       name: "International Diversified",
       description: "Global diversification across developed markets",
       externalIdentifier: null,
       taxResidency: "US",
       financialYearEnd: "31st Mar",
       performanceCalculationMethod: "TWRR",
+      lotReliefMethod: "FIFO",
       baseCurrency: "USD",
       createdAt: new Date(),
+      deletedAt: null,
     };
     this.portfolios.set(intlPortfolio.id, intlPortfolio);
 
@@ -162,6 +284,7 @@ export class MemStorage implements IStorage {
       companyName: "Apple Inc.",
       exchange: "NASDAQ",
       currency: "USD",
+      instrumentType: "STK",
       quantity: "50",
       averageCost: "150.00",
       currentPrice: "175.50",
@@ -176,6 +299,7 @@ export class MemStorage implements IStorage {
       companyName: "Microsoft Corporation",
       exchange: "NASDAQ",
       currency: "USD",
+      instrumentType: "STK",
       quantity: "25",
       averageCost: "280.00",
       currentPrice: "310.25",
@@ -191,6 +315,7 @@ export class MemStorage implements IStorage {
       companyName: "ASML Holding N.V.",
       exchange: "AEX",
       currency: "EUR",
+      instrumentType: "STK",
       quantity: "10",
       averageCost: "580.00",
       currentPrice: "620.50",
@@ -210,7 +335,19 @@ export class MemStorage implements IStorage {
       fees: "9.99",
       currency: "USD",
       exchange: "NASDAQ",
+      instrumentType: "STK",
       date: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
+      splitRatio: null,
+      relatedSymbol: null,
+      costApportionment: null,
+      relatedTransactionId: null,
+      withholdingTax: null,
+      frankingCredits: null,
+      reinvestedQuantity: null,
+      reinvestmentPrice: null,
+      reliefMethod: null,
+      lotSelections: null,
+      realizedGain: null,
       createdAt: new Date(),
     };
     this.transactions.set(appleBuy.id, appleBuy);
@@ -226,12 +363,54 @@ export class MemStorage implements IStorage {
       fees: "9.99",
       currency: "USD",
       exchange: "NASDAQ",
+      instrumentType: "STK",
       date: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000), // 15 days ago
+      splitRatio: null,
+      relatedSymbol: null,
+      costApportionment: null,
+      relatedTransactionId: null,
+      withholdingTax: null,
+      frankingCredits: null,
+      reinvestedQuantity: null,
+      reinvestmentPrice: null,
+      reliefMethod: null,
+      lotSelections: null,
+      realizedGain: null,
       createdAt: new Date(),
     };
     this.transactions.set(msftBuy.id, msftBuy);
 
-    // Add some sample currency rates
+    const asmlBuy: Transaction = {
+      id: randomUUID(),
+      portfolioId: intlPortfolio.id,
+      symbol: "ASML",
+      type: "buy",
+      quantity: "10",
+      price: "580.00",
+      totalAmount: "5800.00",
+      fees: "0",
+      currency: "EUR",
+      exchange: "AEX",
+      instrumentType: "STK",
+      date: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000), // 60 days ago
+      splitRatio: null,
+      relatedSymbol: null,
+      costApportionment: null,
+      relatedTransactionId: null,
+      withholdingTax: null,
+      frankingCredits: null,
+      reinvestedQuantity: null,
+      reinvestmentPrice: null,
+      reliefMethod: null,
+      lotSelections: null,
+      realizedGain: null,
+      createdAt: new Date(),
+    };
+    this.transactions.set(asmlBuy.id, asmlBuy);
+
+    // Add some sample currency rates (shared across users)
+    if (this.currencies.size > 0) return;
+
     const usdEurRate: Currency = {
       id: randomUUID(),
       fromCurrency: "USD",
@@ -252,94 +431,153 @@ export class MemStorage implements IStorage {
   }
 
   // Portfolios
-  async getPortfolios(): Promise<Portfolio[]> {
-    return Array.from(this.portfolios.values());
+  async getPortfolios(userId: string): Promise<Portfolio[]> {
+    return Array.from(this.portfolios.values()).filter(p => p.userId === userId && !p.deletedAt);
   }
 
-  async getPortfolio(id: string): Promise<Portfolio | undefined> {
-    return this.portfolios.get(id);
+  async getPortfolio(userId: string, id: string): Promise<Portfolio | undefined> {
+    const portfolio = this.portfolios.get(id);
+    return portfolio?.userId === userId && !portfolio.deletedAt ? portfolio : undefined;
   }
 
-  async createPortfolio(insertPortfolio: InsertPortfolio): Promise<Portfolio> {
+  async createPortfolio(userId: string, insertPortfolio: InsertPortfolio): Promise<Portfolio> {
     const portfolio: Portfolio = {
       id: randomUUID(),
+      userId,
       name: insertPortfolio.name,
       description: insertPortfolio.description || null,
       externalIdentifier: insertPortfolio.externalIdentifier || null,
       taxResidency: insertPortfolio.taxResidency || "US",
       financialYearEnd: insertPortfolio.financialYearEnd || "31st Mar",
       performanceCalculationMethod: insertPortfolio.performanceCalculationMethod || "Simple",
+      lotReliefMethod: insertPortfolio.lotReliefMethod || "FIFO",
       baseCurrency: insertPortfolio.baseCurrency || "USD",
       createdAt: new Date(),
+      deletedAt: null,
     };
     this.portfolios.set(portfolio.id, portfolio);
     return portfolio;
   }
 
-  async updatePortfolio(id: string, update: Partial<InsertPortfolio>): Promise<Portfolio | undefined> {
-    const portfolio = this.portfolios.get(id);
+  async updatePortfolio(userId: string, id: string, update: Partial<InsertPortfolio>): Promise<Portfolio | undefined> {
+    const portfolio = await this.getPortfolio(userId, id);
     if (!portfolio) return undefined;
 
     const updated = { ...portfolio, ...update };
     this.portfolios.set(id, updated);
+
+    // Another relief method relieves other lots, so holdings and realized gains replay
+    if (updated.lotReliefMethod !== portfolio.lotReliefMethod) {
+      const portfolioTransactions = Array.from(this.transactions.values()).filter(t => t.portfolioId === id);
+      if (portfolioTransactions.length > 0) {
+        this.syncHoldingsFromLedger(id, this.symbolsTouchedBy(portfolioTransactions), portfolioTransactions[0]);
+      }
+    }
     return updated;
   }
 
-  async deletePortfolio(id: string): Promise<boolean> {
-    return this.portfolios.delete(id);
+  async deletePortfolio(userId: string, id: string): Promise<boolean> {
+    const portfolio = await this.getPortfolio(userId, id);
+    if (!portfolio) return false;
+    this.portfolios.set(id, { ...portfolio, deletedAt: new Date() });
+    return true;
+  }
+
+  async getDeletedPortfolios(userId: string): Promise<Portfolio[]> {
+    return Array.from(this.portfolios.values())
+      .filter(p => p.userId === userId && p.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  async undeletePortfolio(userId: string, id: string): Promise<Portfolio | undefined> {
+    const portfolio = this.portfolios.get(id);
+    if (portfolio?.userId !== userId || !portfolio.deletedAt) return undefined;
+    const restored = { ...portfolio, deletedAt: null };
+    this.portfolios.set(id, restored);
+    return restored;
   }
 
-  async getPortfolioWithMetrics(id: string): Promise<PortfolioWithMetrics | undefined> {
+  async purgePortfolio(userId: string, id: string): Promise<boolean> {
     const portfolio = this.portfolios.get(id);
+    if (portfolio?.userId !== userId || !portfolio.deletedAt) return false;
+    this.removePortfolio(id);
+    return true;
+  }
+
+  // Delete a portfolio with its holdings, transactions and benchmarks
+  private removePortfolio(id: string) {
+    Array.from(this.benchmarks.values()).filter(b => b.portfolioId === id).forEach(b => this.benchmarks.delete(b.id));
+    Array.from(this.holdings.values()).filter(h => h.portfolioId === id).forEach(h => this.holdings.delete(h.id));
+    Array.from(this.transactions.values()).filter(t => t.portfolioId === id).forEach(t => this.transactions.delete(t.id));
+    this.portfolios.delete(id);
+  }
+
+  async getPortfolioWithMetrics(userId: string, id: string): Promise<PortfolioWithMetrics | undefined> {
+    const portfolio = await this.getPortfolio(userId, id);
     if (!portfolio) return undefined;
 
     const holdings = Array.from(this.holdings.values()).filter(h => h.portfolioId === id);
     const transactions = Array.from(this.transactions.values()).filter(t => t.portfolioId === id);
 
-    let totalValue = 0;
-    let totalCost = 0;
-    let dividendYield = 0;
-
-    for (const holding of holdings) {
-      const currentPrice = parseFloat(holding.currentPrice || "0");
-      const quantity = parseFloat(holding.quantity);
-      const averageCost = parseFloat(holding.averageCost);
-      
-      totalValue += currentPrice * quantity;
-      totalCost += averageCost * quantity;
-    }
+    const fx = await storedFxLookup(this);
+    const { totalValue, totalCost, priceGain, currencyGain, missingRates } =
+      consolidateHoldings(portfolio, holdings, transactions, fx);
 
     const totalGain = totalValue - totalCost;
-    const totalGainPercent = totalCost > 0 ? (totalGain / totalCost) * 100 : 0;
+    let totalGainPercent = totalCost > 0 ? (totalGain / totalCost) * 100 : 0;
+
+    // TWRR and MWRR portfolios report their since-inception return instead
+    if (portfolio.performanceCalculationMethod === "TWRR" || portfolio.performanceCalculationMethod === "MWRR") {
+      const price = await portfolioPriceLookup(this, transactions, holdings);
+      const [sinceInception] = calculatePerformance(portfolio, transactions, portfolio.performanceCalculationMethod, price, fx, ["ITD"]).windows;
+      totalGainPercent = sinceInception.returnPercent ?? totalGainPercent;
+    }
 
-    // Calculate dividend yield from dividend transactions
-    const dividendTransactions = transactions.filter(t => t.type === 'dividend');
-    const annualDividends = dividendTransactions.reduce((sum, t) => sum + parseFloat(t.totalAmount), 0);
-    dividendYield = totalValue > 0 ? (annualDividends / totalValue) * 100 : 0;
+    // Dividend yield over the trailing twelve months
+    const annualDividends = trailingIncome(transactions, portfolio.baseCurrency, fx);
+    const dividendYield = totalValue > 0 ? (annualDividends / totalValue) * 100 : 0;
 
     return {
       ...portfolio,
       totalValue,
+      totalCost,
       totalGain,
       totalGainPercent,
+      priceGain,
+      currencyGain,
       dividendYield,
       holdingsCount: holdings.length,
+      missingRates,
     };
   }
 
+  // True when the portfolio exists, belongs to the user and isn't in the trash
+  private ownsPortfolio(userId: string, portfolioId: string): boolean {
+    const portfolio = this.portfolios.get(portfolioId);
+    return portfolio?.userId === userId && !portfolio.deletedAt;
+  }
+
   // Holdings
-  async getHoldings(portfolioId: string): Promise<Holding[]> {
+  async getHoldings(userId: string, portfolioId: string): Promise<Holding[]> {
+    if (!this.ownsPortfolio(userId, portfolioId)) return [];
     return Array.from(this.holdings.values()).filter(h => h.portfolioId === portfolioId);
   }
 
-  async getHolding(id: string): Promise<Holding | undefined> {
-    return this.holdings.get(id);
+  async getHolding(userId: string, id: string): Promise<Holding | undefined> {
+    const holding = this.holdings.get(id);
+    return holding && this.ownsPortfolio(userId, holding.portfolioId) ? holding : undefined;
   }
 
-  async createHolding(insertHolding: InsertHolding): Promise<Holding> {
+  async createHolding(userId: string, insertHolding: InsertHolding): Promise<Holding | undefined> {
+    if (!this.ownsPortfolio(userId, insertHolding.portfolioId)) return undefined;
+    return this.insertHolding(insertHolding);
+  }
+
+  private insertHolding(insertHolding: InsertHolding): Holding {
     const holding: Holding = {
       ...insertHolding,
       id: randomUUID(),
+      instrumentType: insertHolding.instrumentType || "STK",
       currentPrice: null,
       lastUpdated: new Date(),
     };
@@ -347,22 +585,30 @@ export class MemStorage implements IStorage {
     return holding;
   }
 
-  async updateHolding(id: string, update: Partial<InsertHolding>): Promise<Holding | undefined> {
-    const holding = this.holdings.get(id);
+  async updateHolding(userId: string, id: string, update: HoldingUpdate): Promise<Holding | undefined> {
+    const holding = await this.getHolding(userId, id);
     if (!holding) return undefined;
+    return this.applyHoldingUpdate(holding, update);
+  }
 
-    const updated = { ...holding, ...update, lastUpdated: new Date() };
-    this.holdings.set(id, updated);
+  private applyHoldingUpdate(holding: Holding, update: Partial<Holding>): Holding {
+    const updated = { ...holding, ...update, id: holding.id, portfolioId: holding.portfolioId, lastUpdated: new Date() };
+    this.holdings.set(holding.id, updated);
     return updated;
   }
 
-  async deleteHolding(id: string): Promise<boolean> {
+  async deleteHolding(userId: string, id: string): Promise<boolean> {
+    if (!(await this.getHolding(userId, id))) return false;
     return this.holdings.delete(id);
   }
 
-  async getHoldingsWithMetrics(portfolioId: string): Promise<HoldingWithMetrics[]> {
-    const holdings = await this.getHoldings(portfolioId);
-    
+  async getHoldingsWithMetrics(userId: string, portfolioId: string): Promise<HoldingWithMetrics[]> {
+    const holdings = await this.getHoldings(userId, portfolioId);
+    const portfolio = this.portfolios.get(portfolioId);
+    if (!portfolio) return [];
+    const transactions = Array.from(this.transactions.values()).filter(t => t.portfolioId === portfolioId);
+    const consolidation = consolidateHoldings(portfolio, holdings, transactions, await storedFxLookup(this));
+
     return holdings.map(holding => {
       const currentPrice = parseFloat(holding.currentPrice || "0");
       const quantity = parseFloat(holding.quantity);
@@ -373,7 +619,9 @@ export class MemStorage implements IStorage {
       const totalGain = currentValue - totalCost;
       const totalGainPercent = totalCost > 0 ? (totalGain / totalCost) * 100 : 0;
 
-      const marketData = this.marketData.get(holding.symbol);
+      const marketData = this.marketData.get(marketDataKey(holding.symbol, holding.exchange));
+      // Only a fetched quote dates the price; editing the holding bumps its own lastUpdated
+      const priceAsOf = marketData?.lastUpdated ?? null;
 
       return {
         ...holding,
@@ -381,94 +629,210 @@ export class MemStorage implements IStorage {
         totalGain,
         totalGainPercent,
         marketData,
+        ...consolidation.holdings.get(holding.id)!,
+        priceAsOf,
+        isStale: isPriceStale(holding.exchange, priceAsOf),
       };
     });
   }
 
   // Transactions
-  async getTransactions(portfolioId: string): Promise<Transaction[]> {
+  async getTransactions(userId: string, portfolioId: string): Promise<Transaction[]> {
+    if (!this.ownsPortfolio(userId, portfolioId)) return [];
     return Array.from(this.transactions.values())
       .filter(t => t.portfolioId === portfolioId)
       .sort((a, b) => b.date.getTime() - a.date.getTime());
   }
 
-  async getTransaction(id: string): Promise<Transaction | undefined> {
-    return this.transactions.get(id);
+  async getTransaction(userId: string, id: string): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(id);
+    return transaction && this.ownsPortfolio(userId, transaction.portfolioId) ? transaction : undefined;
   }
 
-  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
-    const transaction: Transaction = {
-      ...insertTransaction,
-      id: randomUUID(),
-      fees: insertTransaction.fees || "0",
-      createdAt: new Date(),
-    };
+  async createTransaction(userId: string, insertTransaction: InsertTransaction): Promise<Transaction | undefined> {
+    if (!this.ownsPortfolio(userId, insertTransaction.portfolioId)) return undefined;
+
+    const transaction = transactionFromInsert(insertTransaction);
     this.transactions.set(transaction.id, transaction);
 
-    // Update holding based on transaction
-    await this.updateHoldingFromTransaction(transaction);
+    // Update every holding the transaction touches
+    this.syncHoldingsFromLedger(transaction.portfolioId, this.symbolsTouchedBy([transaction]), transaction);
+
+    return this.transactions.get(transaction.id);
+  }
+
+  async createTransactions(userId: string, portfolioId: string, insertTransactions: InsertTransaction[]): Promise<Transaction[] | undefined> {
+    if (!this.ownsPortfolio(userId, portfolioId)) return undefined;
+    if (insertTransactions.length === 0) return [];
+
+    const created = insertTransactions.map(t => transactionFromInsert({ ...t, portfolioId }));
+    created.forEach(t => this.transactions.set(t.id, t));
+    this.syncHoldingsFromLedger(portfolioId, this.symbolsTouchedBy(created), created[created.length - 1]);
 
-    return transaction;
+    return created.map(t => this.transactions.get(t.id)!);
   }
 
-  async getRecentTransactions(portfolioId: string, limit: number = 5): Promise<Transaction[]> {
-    const transactions = await this.getTransactions(portfolioId);
+  async getRecentTransactions(userId: string, portfolioId: string, limit: number = 5): Promise<Transaction[]> {
+    const transactions = await this.getTransactions(userId, portfolioId);
     return transactions.slice(0, limit);
   }
 
-  private async updateHoldingFromTransaction(transaction: Transaction) {
-    const holdings = Array.from(this.holdings.values()).filter(
-      h => h.portfolioId === transaction.portfolioId && h.symbol === transaction.symbol
-    );
+  async getTransactionPage(
+    userId: string,
+    portfolioId: string,
+    filter: TransactionFilter,
+    page: number,
+    size: number,
+  ): Promise<Page<Transaction>> {
+    const matching = (await this.getTransactions(userId, portfolioId)).filter(t => matchesFilter(t, filter));
+    return pageOf(matching.slice(page * size, (page + 1) * size), page, size, matching.length);
+  }
 
-    let holding = holdings[0];
+  async updateTransaction(userId: string, id: string, update: Partial<InsertTransaction>): Promise<Transaction | undefined> {
+    const existing = await this.getTransaction(userId, id);
+    if (!existing) return undefined;
 
-    if (transaction.type === 'buy') {
-      if (holding) {
-        // Update existing holding
-        const existingQuantity = parseFloat(holding.quantity);
-        const existingCost = parseFloat(holding.averageCost);
-        const transactionQuantity = parseFloat(transaction.quantity);
-        const transactionPrice = parseFloat(transaction.price);
+    const { portfolioId: _portfolioId, ...changes } = update;
+    // The replay sets realized gains afresh for sells and returns of capital
+    const transaction: Transaction = { ...existing, ...changes, realizedGain: null };
+    this.transactions.set(id, transaction);
 
-        const newQuantity = existingQuantity + transactionQuantity;
-        const newAverageCost = ((existingQuantity * existingCost) + (transactionQuantity * transactionPrice)) / newQuantity;
+    // Holdings of both the old and the new symbols may have changed
+    this.syncHoldingsFromLedger(transaction.portfolioId, this.symbolsTouchedBy([existing, transaction]), transaction);
 
-        const { id, currentPrice, lastUpdated, ...holdingUpdate } = holding;
-        await this.updateHolding(holding.id, {
-          ...holdingUpdate,
-          quantity: newQuantity.toString(),
-          averageCost: newAverageCost.toString(),
-        });
-      } else {
-        // Create new holding
-        await this.createHolding({
-          portfolioId: transaction.portfolioId,
-          symbol: transaction.symbol,
-          companyName: transaction.symbol, // This would be fetched from API in real implementation
-          exchange: transaction.exchange,
-          currency: transaction.currency,
-          quantity: transaction.quantity,
-          averageCost: transaction.price,
-        });
+    return this.transactions.get(id);
+  }
+
+  async deleteTransactions(userId: string, portfolioId: string, ids: string[]): Promise<number> {
+    if (!this.ownsPortfolio(userId, portfolioId)) return 0;
+    const deleted = ids
+      .map(id => this.transactions.get(id))
+      .filter((t): t is Transaction => !!t && t.portfolioId === portfolioId);
+    if (deleted.length === 0) return 0;
+
+    const symbols = this.symbolsTouchedBy(deleted);
+    deleted.forEach(t => this.transactions.delete(t.id));
+    this.syncHoldingsFromLedger(portfolioId, symbols, deleted[0]);
+    return deleted.length;
+  }
+
+  // Symbols whose holdings the transactions affect, including those of trades they cancel
+  private symbolsTouchedBy(transactions: Transaction[]): string[] {
+    const symbols = transactions.flatMap(transaction => {
+      const related = transaction.relatedTransactionId
+        ? this.transactions.get(transaction.relatedTransactionId)
+        : undefined;
+      return [transaction.symbol, transaction.relatedSymbol, related?.symbol, related?.relatedSymbol];
+    });
+    return Array.from(new Set(symbols.filter((symbol): symbol is string => !!symbol)));
+  }
+
+  // Rebuild the holdings of the given symbols, and the realized gain of every
+  // sell and return of capital, by replaying the portfolio through the lot ledger
+  private syncHoldingsFromLedger(portfolioId: string, symbols: string[], template: Transaction) {
+    const portfolio = this.portfolios.get(portfolioId);
+    if (!portfolio) return;
+
+    const portfolioTransactions = Array.from(this.transactions.values()).filter(
+      t => t.portfolioId === portfolioId
+    );
+    const ledger = buildLotLedger(portfolioTransactions, portfolio.lotReliefMethod as LotReliefMethod);
+
+    const gains = realizedGainByTransaction(ledger);
+    for (const t of portfolioTransactions) {
+      if (t.type === 'sell' || t.type === 'roc') {
+        this.transactions.set(t.id, { ...t, realizedGain: (gains.get(t.id) ?? 0).toString() });
       }
-    } else if (transaction.type === 'sell' && holding) {
-      const existingQuantity = parseFloat(holding.quantity);
-      const transactionQuantity = parseFloat(transaction.quantity);
-      const newQuantity = existingQuantity - transactionQuantity;
+    }
 
-      if (newQuantity <= 0) {
-        await this.deleteHolding(holding.id);
+    for (const symbol of symbols) {
+      const { quantity, averageCost } = positionFromLedger(ledger, symbol);
+      const holding = Array.from(this.holdings.values()).find(
+        h => h.portfolioId === portfolioId && h.symbol === symbol
+      );
+
+      if (quantity <= 0) {
+        if (holding) this.holdings.delete(holding.id);
+      } else if (holding) {
+        this.applyHoldingUpdate(holding, {
+          quantity: quantity.toString(),
+          averageCost: averageCost.toString(),
+        });
       } else {
-        const { id, currentPrice, lastUpdated, ...holdingUpdate } = holding;
-        await this.updateHolding(holding.id, {
-          ...holdingUpdate,
-          quantity: newQuantity.toString(),
+        // Take the instrument's details from its own latest transaction where there is one
+        const source = sortChronologically(portfolioTransactions.filter(t => t.symbol === symbol)).at(-1) ?? template;
+        this.insertHolding({
+          portfolioId,
+          symbol,
+          companyName: symbol, // This would be fetched from API in real implementation
+          exchange: source.exchange,
+          currency: source.currency,
+          instrumentType: source.instrumentType,
+          quantity: quantity.toString(),
+          averageCost: averageCost.toString(),
         });
       }
     }
   }
 
+  // Import templates
+  async getImportTemplates(userId: string): Promise<ImportTemplate[]> {
+    return Array.from(this.importTemplates.values())
+      .filter(t => t.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async saveImportTemplate(userId: string, insertTemplate: InsertImportTemplate): Promise<ImportTemplate> {
+    const existing = Array.from(this.importTemplates.values()).find(t => t.userId === userId && t.name === insertTemplate.name);
+    const template: ImportTemplate = {
+      ...insertTemplate,
+      id: existing?.id ?? randomUUID(),
+      userId,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.importTemplates.set(template.id, template);
+    return template;
+  }
+
+  async deleteImportTemplate(userId: string, id: string): Promise<boolean> {
+    const template = this.importTemplates.get(id);
+    if (!template || template.userId !== userId) return false;
+    return this.importTemplates.delete(id);
+  }
+
+  // Benchmarks
+  async getBenchmarks(userId: string, portfolioId: string): Promise<Benchmark[]> {
+    if (!this.ownsPortfolio(userId, portfolioId)) return [];
+    return Array.from(this.benchmarks.values())
+      .filter(b => b.portfolioId === portfolioId)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+  }
+
+  async getBenchmark(userId: string, id: string): Promise<Benchmark | undefined> {
+    const benchmark = this.benchmarks.get(id);
+    return benchmark && this.ownsPortfolio(userId, benchmark.portfolioId) ? benchmark : undefined;
+  }
+
+  async createBenchmark(userId: string, portfolioId: string, insertBenchmark: InsertBenchmark): Promise<Benchmark | undefined> {
+    if (!this.ownsPortfolio(userId, portfolioId)) return undefined;
+    const benchmark: Benchmark = {
+      ...insertBenchmark,
+      id: randomUUID(),
+      portfolioId,
+      holdingSymbol: insertBenchmark.holdingSymbol ?? null,
+      name: insertBenchmark.name ?? null,
+      exchange: insertBenchmark.exchange ?? null,
+      createdAt: new Date(),
+    };
+    this.benchmarks.set(benchmark.id, benchmark);
+    return benchmark;
+  }
+
+  async deleteBenchmark(userId: string, id: string): Promise<boolean> {
+    if (!(await this.getBenchmark(userId, id))) return false;
+    return this.benchmarks.delete(id);
+  }
+
   // Currencies
   async getCurrencyRate(fromCurrency: string, toCurrency: string): Promise<Currency | undefined> {
     return this.currencies.get(`${fromCurrency}-${toCurrency}`);
@@ -481,6 +845,14 @@ export class MemStorage implements IStorage {
       lastUpdated: new Date(),
     };
     this.currencies.set(`${rate.fromCurrency}-${rate.toCurrency}`, rate);
+    // Keep the latest rate of the day as that day's historical rate
+    await this.saveCurrencyHistory([{
+      fromCurrency: rate.fromCurrency,
+      toCurrency: rate.toCurrency,
+      date: rate.lastUpdated!.toISOString().slice(0, 10),
+      rate: rate.rate,
+      source: "latest",
+    }]);
     return rate;
   }
 
@@ -488,28 +860,121 @@ export class MemStorage implements IStorage {
     return Array.from(this.currencies.values());
   }
 
+  async getCurrencyHistory(fromCurrency?: string, toCurrency?: string): Promise<CurrencyHistory[]> {
+    return Array.from(this.currencyHistory.values())
+      .filter(day => (!fromCurrency || day.fromCurrency === fromCurrency) && (!toCurrency || day.toCurrency === toCurrency))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async saveCurrencyHistory(days: InsertCurrencyHistory[]): Promise<number> {
+    for (const day of days) {
+      const key = `${day.fromCurrency}-${day.toCurrency}|${day.date}`;
+      this.currencyHistory.set(key, {
+        ...day,
+        id: this.currencyHistory.get(key)?.id ?? randomUUID(),
+        lastUpdated: new Date(),
+      });
+    }
+    return days.length;
+  }
+
   // Market Data
-  async getMarketData(symbol: string): Promise<MarketData | undefined> {
-    return this.marketData.get(symbol);
+  async getMarketData(symbol: string, exchange: string = ""): Promise<MarketData | undefined> {
+    return this.marketData.get(marketDataKey(symbol, exchange));
   }
 
   async updateMarketData(insertData: InsertMarketData): Promise<MarketData> {
     const data: MarketData = {
       ...insertData,
       id: randomUUID(),
+      exchange: insertData.exchange || "",
       change: insertData.change || null,
       changePercent: insertData.changePercent || null,
       volume: insertData.volume || null,
       marketCap: insertData.marketCap || null,
       lastUpdated: new Date(),
     };
-    this.marketData.set(data.symbol, data);
+    this.marketData.set(marketDataKey(data.symbol, data.exchange), data);
     return data;
   }
 
   async getMarketDataBatch(symbols: string[]): Promise<MarketData[]> {
-    return symbols.map(symbol => this.marketData.get(symbol)).filter(Boolean) as MarketData[];
+    return Array.from(this.marketData.values()).filter(data => symbols.includes(data.symbol));
+  }
+
+  // Price history
+  async getPriceHistory(symbol: string, from?: string, to?: string): Promise<PriceHistory[]> {
+    return Array.from(this.priceHistory.values())
+      .filter(bar => bar.symbol === symbol && (!from || bar.date >= from) && (!to || bar.date <= to))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getLatestPriceHistoryDate(symbol: string): Promise<string | undefined> {
+    const bars = await this.getPriceHistory(symbol);
+    return bars.length > 0 ? bars[bars.length - 1].date : undefined;
+  }
+
+  async savePriceHistory(bars: InsertPriceHistory[]): Promise<number> {
+    for (const insertBar of bars) {
+      const key = `${insertBar.symbol}|${insertBar.date}`;
+      this.priceHistory.set(key, {
+        id: this.priceHistory.get(key)?.id ?? randomUUID(),
+        ...insertBar,
+        open: insertBar.open ?? null,
+        high: insertBar.high ?? null,
+        low: insertBar.low ?? null,
+        volume: insertBar.volume ?? null,
+        lastUpdated: new Date(),
+      });
+    }
+    return bars.length;
+  }
+  // Background jobs
+  async getHeldInstruments(): Promise<HeldInstrument[]> {
+    const held = new Map<string, HeldInstrument>();
+    for (const holding of Array.from(this.holdings.values())) {
+      const portfolio = this.portfolios.get(holding.portfolioId);
+      if (!portfolio || portfolio.deletedAt) continue;
+      const instrument = {
+        symbol: holding.symbol.toUpperCase(),
+        exchange: holding.exchange,
+        currency: holding.currency,
+        baseCurrency: portfolio.baseCurrency,
+      };
+      held.set(Object.values(instrument).join("|"), instrument);
+    }
+    return Array.from(held.values());
+  }
+
+  async getBenchmarkSymbols(): Promise<string[]> {
+    const symbols = Array.from(this.benchmarks.values())
+      .filter(b => !this.portfolios.get(b.portfolioId)?.deletedAt)
+      .map(b => b.symbol);
+    return Array.from(new Set(symbols));
+  }
+
+  async setHoldingPrices(symbol: string, exchange: string, price: string): Promise<number> {
+    const matching = Array.from(this.holdings.values())
+      .filter(holding => holding.symbol.toUpperCase() === symbol.toUpperCase() && holding.exchange === exchange);
+    matching.forEach(holding => this.applyHoldingUpdate(holding, { currentPrice: price }));
+    return matching.length;
+  }
+
+  async purgeDeletedPortfolios(deletedBefore: Date): Promise<number> {
+    const expired = Array.from(this.portfolios.values()).filter(p => p.deletedAt && p.deletedAt < deletedBefore);
+    expired.forEach(p => this.removePortfolio(p.id));
+    return expired.length;
+  }
+
+}
+
+// Persist to Postgres when a database is provisioned, otherwise fall back to
+// the in-memory store (sample data, lost on restart).
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    return new DbStorage(createDb(process.env.DATABASE_URL));
   }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,164 @@
+import PDFDocument from "pdfkit";
+import type { TaxReport, TaxReportLine, TaxTerm } from "@shared/schema";
+import { formatCsv, type CsvValue } from "./csv";
+
+const termLabels: Record<TaxTerm, string> = {
+  short: "Short term",
+  long: "Long term",
+  none: "",
+};
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+const amount = (value: number) => value.toFixed(2);
+
+// File name for a downloaded report, e.g. "retirement-tax-FY2025-26.csv"
+export function taxReportFileName(report: TaxReport, extension: "csv" | "pdf"): string {
+  const name = report.portfolioName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "portfolio";
+  return `${name}-tax-${report.financialYear.label}.${extension}`;
+}
+
+function summaryRows(report: TaxReport): [string, number][] {
+  const { summary } = report;
+  const rows: [string, number][] = [
+    ["Short-term gains", summary.shortTermGains],
+    ["Short-term losses", summary.shortTermLosses],
+    ["Long-term gains", summary.longTermGains],
+    ["Long-term losses", summary.longTermLosses],
+    ["Net gain", summary.netGain],
+  ];
+  if (summary.discount > 0) {
+    rows.push(["CGT discount", summary.discount], ["Taxable gain", summary.taxableGain]);
+  }
+  return rows;
+}
+
+function lineRow(line: TaxReportLine): CsvValue[] {
+  return [
+    line.symbol,
+    line.instrumentType,
+    toDateKey(line.acquiredAt),
+    toDateKey(line.disposedAt),
+    line.holdingPeriodDays,
+    line.quantity,
+    line.currency,
+    amount(line.costBasis),
+    amount(line.proceeds),
+    amount(line.realizedGain),
+    amount(line.costBasisBase),
+    amount(line.proceedsBase),
+    amount(line.realizedGainBase),
+    termLabels[line.term],
+    line.discountEligible ? "Yes" : "No",
+  ];
+}
+
+// One row per disposal, followed by the year's totals
+export function taxReportCsv(report: TaxReport): string {
+  const base = report.baseCurrency;
+  return formatCsv([
+    ["Portfolio", report.portfolioName],
+    ["Financial year", report.financialYear.label, toDateKey(report.financialYear.start), toDateKey(report.financialYear.end)],
+    ["Tax residency", report.taxResidency, report.rules],
+    [],
+    [
+      "Symbol",
+      "Instrument type",
+      "Acquired",
+      "Disposed",
+      "Days held",
+      "Quantity",
+      "Currency",
+      "Cost basis",
+      "Proceeds",
+      "Gain",
+      `Cost basis (${base})`,
+      `Proceeds (${base})`,
+      `Gain (${base})`,
+      "Term",
+      "Discount eligible",
+    ],
+    ...report.lines.map(lineRow),
+    [],
+    ...summaryRows(report).map(([label, value]) => [label, amount(value)]),
+  ]);
+}
+
+/**
+ * Printable report: the rules applied, the year's totals and every disposal,
+ * in the portfolio's base currency.
+ */
+export function taxReportPdf(report: TaxReport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", layout: "landscape", margin: 40 });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const base = report.baseCurrency;
+    doc.fontSize(18).text(`Capital gains report ${report.financialYear.label}`);
+    doc.moveDown(0.3).fontSize(10).fillColor("#555555")
+      .text(`${report.portfolioName} · ${toDateKey(report.financialYear.start)} to ${toDateKey(report.financialYear.end)}`)
+      .text(`Tax residency ${report.taxResidency}: ${report.rules}`)
+      .text(`Amounts in ${base}; cost converted at the acquisition date's rate, proceeds at the disposal date's.`);
+    if (report.missingRates.length > 0) {
+      doc.text(`No exchange rate for ${report.missingRates.join(", ")}; those amounts are unconverted.`);
+    }
+
+    doc.moveDown().fillColor("#000000").fontSize(12).text("Summary");
+    doc.fontSize(10);
+    for (const [label, value] of summaryRows(report)) {
+      doc.text(`${label}: ${amount(value)} ${base}`);
+    }
+
+    const columns: { header: string; width: number; align?: "right" }[] = [
+      { header: "Symbol", width: 80 },
+      { header: "Type", width: 40 },
+      { header: "Acquired", width: 70 },
+      { header: "Disposed", width: 70 },
+      { header: "Days", width: 45, align: "right" },
+      { header: "Quantity", width: 70, align: "right" },
+      { header: `Cost (${base})`, width: 90, align: "right" },
+      { header: `Proceeds (${base})`, width: 90, align: "right" },
+      { header: `Gain (${base})`, width: 90, align: "right" },
+      { header: "Term", width: 90 },
+    ];
+    const left = doc.page.margins.left;
+    const drawRow = (cells: string[], bold = false) => {
+      if (doc.y > doc.page.height - doc.page.margins.bottom - 20) doc.addPage();
+      const y = doc.y;
+      let x = left;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+      cells.forEach((cell, i) => {
+        doc.text(cell, x, y, { width: columns[i].width - 6, align: columns[i].align ?? "left", lineBreak: false });
+        x += columns[i].width;
+      });
+      doc.x = left;
+      doc.y = y + 14;
+    };
+
+    doc.moveDown().fontSize(12).text("Disposals", left);
+    doc.moveDown(0.3);
+    drawRow(columns.map(column => column.header), true);
+    for (const line of report.lines) {
+      const term = termLabels[line.term] + (line.discountEligible ? " (discount)" : "");
+      drawRow([
+        line.symbol,
+        line.instrumentType,
+        toDateKey(line.acquiredAt),
+        toDateKey(line.disposedAt),
+        String(line.holdingPeriodDays),
+        line.quantity.toLocaleString("en-US"),
+        amount(line.costBasisBase),
+        amount(line.proceedsBase),
+        amount(line.realizedGainBase),
+        term,
+      ]);
+    }
+    if (report.lines.length === 0) {
+      doc.font("Helvetica").text("No disposals in this financial year.", left);
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,212 @@
+import type {
+  InstrumentType,
+  LotDisposal,
+  LotReliefMethod,
+  Portfolio,
+  TaxReport,
+  TaxReportLine,
+  TaxReportSummary,
+  TaxTerm,
+  Transaction,
+} from "@shared/schema";
+import { buildLotLedger, sortChronologically, withoutCancelled } from "./lots";
+import type { FxLookup } from "./fx";
+
+// How long an asset must be held before its gain is long term, per residency
+type HoldingPeriodRule = {
+  description: string;
+  longTermMonths: (instrumentType: InstrumentType) => number | null; // null: no distinction
+  discount?: number; // share of eligible long-term gains exempt from tax
+};
+
+const holdingPeriodRules: Record<string, HoldingPeriodRule> = {
+  US: {
+    description: "Long term when held for more than one year",
+    longTermMonths: () => 12,
+  },
+  IN: {
+    description:
+      "Long term when held for more than 12 months (listed shares and equity funds), 24 months (other assets) or 36 months (fixed income)",
+    longTermMonths: type => ({ STK: 12, MF: 12, FIXED: 36, OTH: 24 })[type],
+  },
+  AU: {
+    description: "Assets held for at least 12 months qualify for the 50% CGT discount",
+    longTermMonths: () => 12,
+    discount: 0.5,
+  },
+  GB: {
+    description: "Gains are taxed alike however long the asset was held",
+    longTermMonths: () => null,
+  },
+};
+
+const monthNames = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// "31st Mar" -> { month: 2, day: 31 }
+function parseYearEnd(financialYearEnd: string): { month: number; day: number } {
+  const match = financialYearEnd.trim().match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3})/i);
+  const month = match ? monthNames.indexOf(match[2].toLowerCase()) : -1;
+  if (!match || month < 0) {
+    throw new Error(`Unrecognised financial year end: ${financialYearEnd}`);
+  }
+  return { month, day: parseInt(match[1]) };
+}
+
+// Day of the month the year ends on in `year`: a February year end on the 28th or 29th is its last day
+function yearEndDay(year: number, month: number, day: number): number {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return month === 1 && day >= 28 ? lastDay : Math.min(day, lastDay);
+}
+
+/**
+ * The financial year ending in `endYear`, running from the day after the
+ * previous year end to the end of its last day (UTC). Years ending on 31st Dec
+ * are labelled "2025", others "FY2025-26".
+ */
+export function financialYear(financialYearEnd: string, endYear: number): TaxReport["financialYear"] {
+  const { month, day } = parseYearEnd(financialYearEnd);
+  const end = new Date(Date.UTC(endYear, month, yearEndDay(endYear, month, day), 23, 59, 59, 999));
+  const start = new Date(Date.UTC(endYear - 1, month, yearEndDay(endYear - 1, month, day) + 1));
+  const label = month === 11 && day === 31
+    ? `${endYear}`
+    : `FY${endYear - 1}-${String(endYear % 100).padStart(2, "0")}`;
+  return { label, start, end };
+}
+
+// End year of the financial year a date falls in
+export function financialYearEndingIn(financialYearEnd: string, date: Date): number {
+  const year = date.getUTCFullYear();
+  return date <= financialYear(financialYearEnd, year).end ? year : year + 1;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+// Classify one disposal; a gain is long term once held beyond the anniversary
+function termFor(rule: HoldingPeriodRule | undefined, instrumentType: InstrumentType, disposal: LotDisposal): TaxTerm {
+  const months = rule?.longTermMonths(instrumentType) ?? null;
+  if (months === null) return "none";
+  return disposal.closeDate > addMonths(disposal.openDate, months) ? "long" : "short";
+}
+
+// Instrument type of each symbol, as recorded on its latest purchase
+function instrumentTypesBySymbol(transactions: Transaction[]): Map<string, InstrumentType> {
+  const types = new Map<string, InstrumentType>();
+  for (const t of sortChronologically(transactions.filter(t => t.type === "buy"))) {
+    types.set(t.symbol, t.instrumentType as InstrumentType);
+  }
+  return types;
+}
+
+/**
+ * Net up the year's gains. Losses are set against gains that get no discount
+ * first, so as much of the discount survives as the rules allow.
+ */
+function summarize(lines: TaxReportLine[], rule: HoldingPeriodRule | undefined): TaxReportSummary {
+  const gains = (term: TaxTerm[]) =>
+    lines.filter(l => term.includes(l.term) && l.realizedGainBase > 0).reduce((sum, l) => sum + l.realizedGainBase, 0);
+  const losses = (term: TaxTerm[]) =>
+    lines.filter(l => term.includes(l.term) && l.realizedGainBase < 0).reduce((sum, l) => sum - l.realizedGainBase, 0);
+
+  const shortTermGains = gains(["short", "none"]);
+  const shortTermLosses = losses(["short", "none"]);
+  const longTermGains = gains(["long"]);
+  const longTermLosses = losses(["long"]);
+  const netGain = shortTermGains + longTermGains - shortTermLosses - longTermLosses;
+
+  let discount = 0;
+  if (rule?.discount) {
+    const discountable = lines
+      .filter(l => l.discountEligible && l.realizedGainBase > 0)
+      .reduce((sum, l) => sum + l.realizedGainBase, 0);
+    const otherGains = shortTermGains + longTermGains - discountable;
+    const lossesLeft = Math.max(0, shortTermLosses + longTermLosses - otherGains);
+    discount = Math.max(0, discountable - lossesLeft) * rule.discount;
+  }
+
+  return {
+    shortTermGains,
+    shortTermLosses,
+    longTermGains,
+    longTermLosses,
+    netGain,
+    discount,
+    taxableGain: netGain - discount,
+  };
+}
+
+/**
+ * Realized gains for one of the portfolio's financial years (by default the
+ * current one), classified by the holding-period rules of its tax residency.
+ */
+export function buildTaxReport(
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  fx: FxLookup,
+  endYear: number = financialYearEndingIn(portfolio.financialYearEnd, new Date()),
+): TaxReport {
+  const year = financialYear(portfolio.financialYearEnd, endYear);
+  const residency = portfolio.taxResidency.toUpperCase();
+  const rule = holdingPeriodRules[residency];
+  const baseCurrency = portfolio.baseCurrency;
+  const ledger = buildLotLedger(transactions, portfolio.lotReliefMethod as LotReliefMethod);
+  const types = instrumentTypesBySymbol(withoutCancelled(transactions));
+  const missingRates = new Set<string>();
+
+  const toBase = (amount: number, currency: string, date: Date) => {
+    const rate = fx(currency, baseCurrency, date);
+    if (rate === undefined) {
+      missingRates.add(`${currency}-${baseCurrency}`);
+      return amount;
+    }
+    return amount * rate;
+  };
+
+  const lines = ledger.disposals
+    .filter(d => d.closeDate >= year.start && d.closeDate <= year.end)
+    .map((disposal): TaxReportLine => {
+      const instrumentType = types.get(disposal.symbol) ?? "STK";
+      const term = termFor(rule, instrumentType, disposal);
+      const costBasisBase = toBase(disposal.costBasis, disposal.currency, disposal.openDate);
+      const proceedsBase = toBase(disposal.proceeds, disposal.currency, disposal.closeDate);
+      return {
+        transactionId: disposal.transactionId,
+        lotId: disposal.lotId,
+        symbol: disposal.symbol,
+        instrumentType,
+        currency: disposal.currency,
+        acquiredAt: disposal.openDate,
+        disposedAt: disposal.closeDate,
+        holdingPeriodDays: disposal.holdingPeriodDays,
+        quantity: disposal.quantity,
+        costBasis: disposal.costBasis,
+        proceeds: disposal.proceeds,
+        realizedGain: disposal.realizedGain,
+        costBasisBase,
+        proceedsBase,
+        realizedGainBase: proceedsBase - costBasisBase,
+        term,
+        discountEligible: !!rule?.discount && term === "long",
+      };
+    });
+
+  const years = Array.from(new Set(
+    ledger.disposals.map(d => financialYearEndingIn(portfolio.financialYearEnd, d.closeDate))
+  )).sort((a, b) => b - a);
+
+  return {
+    portfolioId: portfolio.id,
+    portfolioName: portfolio.name,
+    taxResidency: residency,
+    baseCurrency,
+    financialYear: year,
+    rules: rule?.description ?? `No holding-period rules for ${residency}; gains are not split by term`,
+    years,
+    lines,
+    summary: summarize(lines, rule),
+    missingRates: Array.from(missingRates),
+  };
+}
@@ -0,0 +1,145 @@
+import type {
+  LotReliefMethod,
+  Portfolio,
+  Transaction,
+  TaxLot,
+  PortfolioValuation,
+  ValuationInterval,
+  ValuationPoint,
+  ValuationRange,
+} from "@shared/schema";
+import { buildLotLedger, positionCostBefore, sortChronologically, withoutCancelled } from "./lots";
+import type { PriceLookup } from "./performance";
+import type { FxLookup } from "./fx";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function rangeStart(range: ValuationRange, asOf: Date, inception: Date): Date {
+  const start = new Date(asOf);
+  switch (range) {
+    case "1M":
+      start.setMonth(start.getMonth() - 1);
+      break;
+    case "3M":
+      start.setMonth(start.getMonth() - 3);
+      break;
+    case "YTD":
+      return new Date(Math.max(new Date(asOf.getFullYear(), 0, 1).getTime(), inception.getTime()));
+    case "1Y":
+      start.setFullYear(start.getFullYear() - 1);
+      break;
+    case "3Y":
+      start.setFullYear(start.getFullYear() - 3);
+      break;
+    case "5Y":
+      start.setFullYear(start.getFullYear() - 5);
+      break;
+    case "ALL":
+      return inception;
+  }
+  return start < inception ? inception : start;
+}
+
+// End of each sampled day from `start` up to `asOf`, which is always the last point
+function sampleDates(start: Date, asOf: Date, interval: ValuationInterval): Date[] {
+  const dates: Date[] = [];
+  const next = new Date(start);
+  next.setUTCHours(23, 59, 59, 999);
+
+  while (next < asOf) {
+    dates.push(new Date(next));
+    if (interval === "month") {
+      next.setUTCMonth(next.getUTCMonth() + 1);
+    } else {
+      next.setTime(next.getTime() + (interval === "week" ? 7 : 1) * DAY_MS);
+    }
+  }
+  dates.push(asOf);
+  return dates;
+}
+
+/**
+ * Replay the transactions to value the portfolio at each sampled date of the
+ * range. Holdings are priced with `price` and converted into the portfolio's
+ * base currency with `fx`: market value at the sample date's rate, cost basis
+ * and contributions at the rate on the day they were paid. `inception` bounds
+ * the range, so two series can be sampled on the same dates; it defaults to
+ * the first transaction.
+ */
+export function buildValuationSeries(
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  price: PriceLookup,
+  fx: FxLookup,
+  range: ValuationRange,
+  interval: ValuationInterval,
+  asOf: Date = new Date(),
+  inception?: Date,
+): PortfolioValuation {
+  const history = sortChronologically(withoutCancelled(transactions)).filter(t => t.date <= asOf);
+  const baseCurrency = portfolio.baseCurrency;
+  const method = portfolio.lotReliefMethod as LotReliefMethod;
+  const missingRates = new Set<string>();
+
+  const toBase = (amount: number, currency: string, date: Date) => {
+    const rate = fx(currency, baseCurrency, date);
+    if (rate === undefined) {
+      missingRates.add(`${currency}-${baseCurrency}`);
+      return amount;
+    }
+    return amount * rate;
+  };
+
+  const valuation: PortfolioValuation = {
+    portfolioId: portfolio.id,
+    baseCurrency,
+    range,
+    interval,
+    points: [],
+    missingRates: [],
+  };
+  if (history.length === 0) return valuation;
+
+  let applied = 0;
+  let lots: TaxLot[] = [];
+  let netContributions = 0;
+
+  for (const date of sampleDates(rangeStart(range, asOf, inception ?? history[0].date), asOf, interval)) {
+    const before = applied;
+    while (applied < history.length && history[applied].date <= date) {
+      const transaction = history[applied];
+      const amount = parseFloat(transaction.quantity) * parseFloat(transaction.price);
+      const fees = parseFloat(transaction.fees || "0");
+      if (transaction.type === "buy") {
+        netContributions += toBase(amount + fees, transaction.currency, transaction.date);
+      } else if (transaction.type === "sell") {
+        netContributions -= toBase(amount - fees, transaction.currency, transaction.date);
+      } else if (transaction.type === "adjustment") {
+        // A correction contributes the difference in the position's cost
+        const costBefore = positionCostBefore(history.slice(0, applied), transaction, method);
+        netContributions += toBase(amount - costBefore, transaction.currency, transaction.date);
+      }
+      applied++;
+    }
+    // The ledger only needs replaying when something happened since the last point
+    if (applied !== before) {
+      lots = buildLotLedger(history.slice(0, applied), method, date).openLots;
+    }
+
+    const point: ValuationPoint = {
+      date: date.toISOString().slice(0, 10),
+      marketValue: 0,
+      costBasis: 0,
+      netContributions,
+    };
+    for (const lot of lots) {
+      const lotPrice = price(lot.symbol, date) ?? lot.costPerShare;
+      point.marketValue += toBase(lot.quantity * lotPrice, lot.currency, date);
+      point.costBasis += toBase(lot.costBasis, lot.currency, lot.openDate);
+    }
+    valuation.points.push(point);
+  }
+
+  valuation.missingRates = Array.from(missingRates);
+  return valuation;
+}
@@ -1,27 +1,43 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, timestamp, integer, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, timestamp, date, integer, bigint, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  googleId: text("google_id").notNull(),
+  email: text("email").notNull(),
+  name: text("name").notNull(),
+  picture: text("picture"),
+  accessToken: text("access_token"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  googleIdIdx: uniqueIndex("users_google_id_idx").on(table.googleId),
+}));
+
 export const portfolios = pgTable("portfolios", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
   name: text("name").notNull(),
   description: text("description"),
   externalIdentifier: text("external_identifier"),
   taxResidency: text("tax_residency").notNull().default("US"),
   financialYearEnd: text("financial_year_end").notNull().default("31st Mar"),
   performanceCalculationMethod: text("performance_calculation_method").notNull().default("Simple"),
+  lotReliefMethod: text("lot_relief_method").notNull().default("FIFO"),
   baseCurrency: text("base_currency").notNull().default("USD"),
   createdAt: timestamp("created_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"), // set while the portfolio is in the trash
 });
 
 export const holdings = pgTable("holdings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  portfolioId: varchar("portfolio_id").notNull().references(() => portfolios.id),
+  portfolioId: varchar("portfolio_id").notNull().references(() => portfolios.id, { onDelete: "cascade" }),
   symbol: text("symbol").notNull(),
   companyName: text("company_name").notNull(),
   exchange: text("exchange").notNull(),
   currency: text("currency").notNull(),
+  instrumentType: text("instrument_type").notNull().default("STK"), // one of instrumentTypes
   quantity: decimal("quantity", { precision: 20, scale: 8 }).notNull(),
   averageCost: decimal("average_cost", { precision: 20, scale: 8 }).notNull(),
   currentPrice: decimal("current_price", { precision: 20, scale: 8 }),
@@ -30,16 +46,28 @@ export const holdings = pgTable("holdings", {
 
 export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  portfolioId: varchar("portfolio_id").notNull().references(() => portfolios.id),
+  portfolioId: varchar("portfolio_id").notNull().references(() => portfolios.id, { onDelete: "cascade" }),
   symbol: text("symbol").notNull(),
-  type: text("type").notNull(), // 'buy', 'sell', 'dividend'
+  type: text("type").notNull(), // one of transactionTypes
   quantity: decimal("quantity", { precision: 20, scale: 8 }).notNull(),
   price: decimal("price", { precision: 20, scale: 8 }).notNull(),
   totalAmount: decimal("total_amount", { precision: 20, scale: 8 }).notNull(),
   fees: decimal("fees", { precision: 20, scale: 8 }).default("0"),
   currency: text("currency").notNull(),
   exchange: text("exchange").notNull(),
+  instrumentType: text("instrument_type").notNull().default("STK"), // one of instrumentTypes
   date: timestamp("date").notNull(),
+  splitRatio: text("split_ratio"), // "new:old" for split, consolidate and bonus
+  relatedSymbol: text("related_symbol"), // child instrument of a demerger
+  costApportionment: decimal("cost_apportionment", { precision: 20, scale: 8 }), // % of cost base moved to a demerged child
+  relatedTransactionId: varchar("related_transaction_id"), // trade reversed by a cancellation
+  withholdingTax: decimal("withholding_tax", { precision: 20, scale: 8 }), // dividend tax withheld at source
+  frankingCredits: decimal("franking_credits", { precision: 20, scale: 8 }), // franking / imputation credits attached to a dividend
+  reinvestedQuantity: decimal("reinvested_quantity", { precision: 20, scale: 8 }), // shares issued for a dividend under a DRIP
+  reinvestmentPrice: decimal("reinvestment_price", { precision: 20, scale: 8 }), // DRIP issue price per share
+  reliefMethod: text("relief_method"), // overrides the portfolio's lotReliefMethod for a sell
+  lotSelections: jsonb("lot_selections").$type<LotSelection[]>(), // lots to relieve when reliefMethod is 'SPECIFIC'
+  realizedGain: decimal("realized_gain", { precision: 20, scale: 8 }), // computed for sells by the lot ledger
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -51,21 +79,192 @@ export const currencies = pgTable("currencies", {
   lastUpdated: timestamp("last_updated").defaultNow(),
 });
 
+// Latest quote per symbol and exchange, as a ticker can name different instruments on two exchanges
 export const marketData = pgTable("market_data", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   symbol: text("symbol").notNull(),
+  exchange: text("exchange").notNull().default(""), // empty for a quote looked up without one
   price: decimal("price", { precision: 20, scale: 8 }).notNull(),
   change: decimal("change", { precision: 20, scale: 8 }),
   changePercent: decimal("change_percent", { precision: 20, scale: 8 }),
-  volume: integer("volume"),
+  volume: bigint("volume", { mode: "number" }),
   marketCap: decimal("market_cap", { precision: 20, scale: 2 }),
   lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => ({
+  symbolExchangeIdx: uniqueIndex("market_data_symbol_exchange_idx").on(table.symbol, table.exchange),
+}));
+
+// An instrument a portfolio, or one of its holdings, is measured against
+export const benchmarks = pgTable("benchmarks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  portfolioId: varchar("portfolio_id").notNull().references(() => portfolios.id, { onDelete: "cascade" }),
+  holdingSymbol: text("holding_symbol"), // the holding measured; null for the whole portfolio
+  symbol: text("symbol").notNull(),
+  name: text("name"),
+  exchange: text("exchange"),
+  currency: text("currency").notNull(), // its prices' currency
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A saved column mapping for one broker's export, reused on later imports
+export const importTemplates = pgTable("import_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(), // usually the broker
+  options: jsonb("options").$type<ImportOptions>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userNameIdx: uniqueIndex("import_templates_user_name_idx").on(table.userId, table.name),
+}));
+
+// Daily exchange rates, for converting amounts at the rate on the day they were paid
+export const currencyHistory = pgTable("currency_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fromCurrency: text("from_currency").notNull(),
+  toCurrency: text("to_currency").notNull(),
+  date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  rate: decimal("rate", { precision: 20, scale: 8 }).notNull(), // units of toCurrency per fromCurrency
+  source: text("source").notNull(),
+  lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => ({
+  pairDateIdx: uniqueIndex("currency_history_pair_date_idx").on(table.fromCurrency, table.toCurrency, table.date),
+}));
+
+// One daily bar per symbol and trading day
+export const priceHistory = pgTable("price_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  symbol: text("symbol").notNull(),
+  date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  open: decimal("open", { precision: 20, scale: 8 }),
+  high: decimal("high", { precision: 20, scale: 8 }),
+  low: decimal("low", { precision: 20, scale: 8 }),
+  close: decimal("close", { precision: 20, scale: 8 }).notNull(),
+  volume: bigint("volume", { mode: "number" }),
+  source: text("source").notNull(), // provider the bar was loaded from
+  lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => ({
+  symbolDateIdx: uniqueIndex("price_history_symbol_date_idx").on(table.symbol, table.date),
+}));
+
+export const transactionTypes = [
+  "buy",
+  "sell",
+  "dividend",
+  "split",
+  "bonus",
+  "consolidate",
+  "demerger",
+  "roc",
+  "cancellation",
+  "adjustment", // restates a position to `quantity` at `price` a share, as editing a holding does
+] as const;
+export type TransactionType = typeof transactionTypes[number];
+
+// Kinds of instrument, as classified by the portfolio service: listed stock,
+// mutual fund, fixed income and anything else
+export const instrumentTypes = ["STK", "MF", "FIXED", "OTH"] as const;
+export type InstrumentType = typeof instrumentTypes[number];
+
+// Transaction types that restructure existing lots rather than trade them
+export const corporateActionTypes: TransactionType[] = ["split", "bonus", "consolidate", "demerger", "roc", "cancellation"];
+
+// Days a deleted portfolio stays in the trash, restorable, before it is purged
+export const portfolioTrashDays = 30;
+
+// How a sell picks which tax lots it relieves
+export const lotReliefMethods = ["FIFO", "LIFO", "HIFO", "AVERAGE", "SPECIFIC"] as const;
+export type LotReliefMethod = typeof lotReliefMethods[number];
+
+// How percentage returns are calculated for a portfolio
+export const performanceCalculationMethods = ["Simple", "TWRR", "MWRR"] as const;
+export type PerformanceCalculationMethod = typeof performanceCalculationMethods[number];
+
+// Trailing windows reported by the performance endpoint; ITD is since inception
+export const performancePeriods = ["1M", "3M", "YTD", "1Y", "3Y", "ITD"] as const;
+export type PerformancePeriod = typeof performancePeriods[number];
+
+// Span and sampling of the portfolio valuation series
+export const valuationRanges = ["1M", "3M", "YTD", "1Y", "3Y", "5Y", "ALL"] as const;
+export type ValuationRange = typeof valuationRanges[number];
+export const valuationIntervals = ["day", "week", "month"] as const;
+export type ValuationInterval = typeof valuationIntervals[number];
+
+export const lotSelectionSchema = z.object({
+  lotId: z.string(),
+  quantity: z.string(),
+});
+export type LotSelection = z.infer<typeof lotSelectionSchema>;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+// Narrows a portfolio's transactions; dates are inclusive
+export const transactionFilterSchema = z.object({
+  type: z.enum(transactionTypes).optional(),
+  symbol: z.string().optional(), // case-insensitive substring
+  exchange: z.string().optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
 });
+export type TransactionFilter = z.infer<typeof transactionFilterSchema>;
+
+// Transaction fields an imported column can be mapped to
+export const importFields = [
+  "date",
+  "type",
+  "symbol",
+  "quantity",
+  "price",
+  "totalAmount",
+  "fees",
+  "currency",
+  "exchange",
+  "instrumentType",
+] as const;
+export type ImportField = typeof importFields[number];
+
+export const importDateFormats = ["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY", "DD-MM-YYYY", "DD.MM.YYYY", "DD-MMM-YYYY"] as const;
+export type ImportDateFormat = typeof importDateFormats[number];
+
+// How to read a spreadsheet's rows as transactions
+export const importOptionsSchema = z.object({
+  hasHeader: z.boolean().default(true),
+  columns: z.record(z.enum(importFields), z.number().int().min(0)), // field -> zero-based column
+  defaults: z.object({ // used when a field has no column, or the cell is blank
+    type: z.enum(transactionTypes).optional(),
+    currency: z.string().optional(),
+    exchange: z.string().optional(),
+    instrumentType: z.enum(instrumentTypes).optional(),
+  }).default({}),
+  dateFormat: z.enum(importDateFormats),
+  decimalSeparator: z.enum([".", ","]).default("."),
+});
+export type ImportOptions = z.infer<typeof importOptionsSchema>;
+
+// A spreadsheet cell: its text, or the number a numeric cell holds
+export type ImportCell = string | number;
+
+export const importRequestSchema = z.object({
+  rows: z.array(z.array(z.union([z.string(), z.number()]))).max(10000), // every cell, header row included
+  options: importOptionsSchema,
+  dryRun: z.boolean().default(true),
+});
+export type ImportRequest = z.infer<typeof importRequestSchema>;
 
 // Insert schemas
-export const insertPortfolioSchema = createInsertSchema(portfolios).omit({
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  accessToken: true,
+  createdAt: true,
+});
+
+export const insertPortfolioSchema = createInsertSchema(portfolios, {
+  performanceCalculationMethod: z.enum(performanceCalculationMethods).optional(),
+  lotReliefMethod: z.enum(lotReliefMethods).optional(),
+}).omit({
   id: true,
+  userId: true,
   createdAt: true,
+  deletedAt: true,
 });
 
 export const insertHoldingSchema = createInsertSchema(holdings).omit({
@@ -74,11 +273,70 @@ export const insertHoldingSchema = createInsertSchema(holdings).omit({
   lastUpdated: true,
 });
 
-export const insertTransactionSchema = createInsertSchema(transactions).omit({
+// What editing a holding can change. The symbol can't change, as the holding's
+// transactions are recorded under it; quantity and average cost are restated
+// by an adjustment transaction dated `date` (default now).
+export const updateHoldingSchema = z.object({
+  symbol: z.string().min(1),
+  companyName: z.string().min(1),
+  exchange: z.string().min(1),
+  currency: z.string().min(1),
+  quantity: z.coerce.number().positive(),
+  averageCost: z.coerce.number().min(0),
+  date: z.coerce.date().optional(),
+});
+
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  type: z.enum(transactionTypes),
+  instrumentType: z.enum(instrumentTypes).optional(),
+  reliefMethod: z.enum(lotReliefMethods).nullish(),
+  lotSelections: z.array(lotSelectionSchema).nullish(),
+}).omit({
   id: true,
+  realizedGain: true,
   createdAt: true,
 });
 
+export const insertImportTemplateSchema = createInsertSchema(importTemplates, {
+  name: z.string().trim().min(1),
+  options: importOptionsSchema,
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+// A symbol as market data providers know it, e.g. "BRK.B", "^GSPC" or "EURUSD=X"
+export const marketSymbolPattern = /^[A-Z0-9.\-^=]+$/;
+export const marketSymbolSchema = z.string().trim().toUpperCase()
+  .regex(marketSymbolPattern, "Symbols are letters, digits and . - ^ =");
+
+export const insertBenchmarkSchema = createInsertSchema(benchmarks, {
+  symbol: z.string().trim().min(1).transform(symbol => symbol.toUpperCase()),
+  holdingSymbol: z.string().trim().min(1).transform(symbol => symbol.toUpperCase()).nullish(),
+  currency: z.string().trim().length(3).transform(currency => currency.toUpperCase()),
+}).omit({
+  id: true,
+  portfolioId: true,
+  createdAt: true,
+});
+
+export const exportFormats = ["csv", "json", "ofx"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+// What restoring reads from a JSON export. Holdings and lots are derived from
+// the transactions, so only the portfolio's settings and its transactions count.
+export const portfolioBackupSchema = z.object({
+  format: z.literal("portfolio-backup"),
+  version: z.literal(1),
+  portfolio: insertPortfolioSchema,
+  transactions: z.array(insertTransactionSchema.omit({ portfolioId: true }).extend({
+    id: z.string(), // as exported; cancellations and lot selections refer to it
+    date: z.coerce.date(),
+  })),
+});
+export type PortfolioBackupInput = z.infer<typeof portfolioBackupSchema>;
+
 export const insertCurrencySchema = createInsertSchema(currencies).omit({
   id: true,
   lastUpdated: true,
@@ -89,29 +347,59 @@ export const insertMarketDataSchema = createInsertSchema(marketData).omit({
   lastUpdated: true,
 });
 
+export const insertPriceHistorySchema = createInsertSchema(priceHistory).omit({
+  id: true,
+  lastUpdated: true,
+});
+
+export const insertCurrencyHistorySchema = createInsertSchema(currencyHistory).omit({
+  id: true,
+  lastUpdated: true,
+});
+
 // Types
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+
 export type Portfolio = typeof portfolios.$inferSelect;
 export type InsertPortfolio = z.infer<typeof insertPortfolioSchema>;
 
 export type Holding = typeof holdings.$inferSelect;
 export type InsertHolding = z.infer<typeof insertHoldingSchema>;
+export type UpdateHolding = z.infer<typeof updateHoldingSchema>;
 
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 
+export type Benchmark = typeof benchmarks.$inferSelect;
+export type InsertBenchmark = z.infer<typeof insertBenchmarkSchema>;
+
+export type ImportTemplate = typeof importTemplates.$inferSelect;
+export type InsertImportTemplate = z.infer<typeof insertImportTemplateSchema>;
+
 export type Currency = typeof currencies.$inferSelect;
 export type InsertCurrency = z.infer<typeof insertCurrencySchema>;
 
 export type MarketData = typeof marketData.$inferSelect;
 export type InsertMarketData = z.infer<typeof insertMarketDataSchema>;
 
+export type PriceHistory = typeof priceHistory.$inferSelect;
+export type InsertPriceHistory = z.infer<typeof insertPriceHistorySchema>;
+export type CurrencyHistory = typeof currencyHistory.$inferSelect;
+export type InsertCurrencyHistory = z.infer<typeof insertCurrencyHistorySchema>;
+
 // Extended types for API responses
+// Amounts are in the portfolio's base currency
 export type PortfolioWithMetrics = Portfolio & {
   totalValue: number;
+  totalCost: number; // at the exchange rate on each lot's trade date
   totalGain: number;
   totalGainPercent: number;
+  priceGain: number; // from price moves, at today's exchange rate
+  currencyGain: number; // from exchange rate moves since the trade dates
   dividendYield: number;
   holdingsCount: number;
+  missingRates: string[]; // "EUR-USD" pairs with no rate, counted at 1
 };
 
 export type HoldingWithMetrics = Holding & {
@@ -120,4 +408,342 @@ export type HoldingWithMetrics = Holding & {
   totalGain: number;
   totalGainPercent: number;
   marketData?: MarketData;
+  // The same position in the portfolio's base currency
+  baseCurrency: string;
+  fxRate: number | null; // today's rate from the holding's currency, null when unknown
+  currentValueBase: number;
+  totalCostBase: number;
+  totalGainBase: number;
+  priceGainBase: number;
+  currencyGainBase: number;
+  priceAsOf: Date | null; // when currentPrice was last fetched, null when it never was
+  isStale: boolean; // price is older than its exchange's latest session warrants
+};
+
+// A portfolio in the trash, with when it will be purged
+export type DeletedPortfolio = Portfolio & { purgeAt: Date };
+
+// How many of a holding's latest transactions its detail carries
+export const holdingRecentTransactionCount = 10;
+
+// A holding as its own page shows it, with its tax lots (null when the
+// backend keeps none) and latest transactions, newest first
+export type HoldingDetail = HoldingWithMetrics & {
+  lots: LotLedger | null;
+  recentTransactions: Transaction[];
+};
+
+// One of a holding's transactions, with the rate to the portfolio's base
+// currency on the trade date when the backend records one
+export type HoldingTrade = Transaction & {
+  fxRate: number | null;
+};
+
+// A parcel of shares opened by a single acquisition, relieved by later sells
+export type TaxLot = {
+  id: string; // id of the transaction that opened the lot
+  portfolioId: string;
+  symbol: string;
+  currency: string;
+  openDate: Date;
+  originalQuantity: number;
+  quantity: number; // still held
+  costPerShare: number; // including acquisition fees
+  costBasis: number; // cost of the quantity still held
+  holdingPeriodDays: number; // as of today while open, as of the last disposal once closed
+};
+
+// The part of a sell that relieved one lot
+export type LotDisposal = {
+  transactionId: string;
+  lotId: string;
+  symbol: string;
+  currency: string;
+  method: LotReliefMethod;
+  openDate: Date;
+  closeDate: Date;
+  quantity: number;
+  costBasis: number;
+  proceeds: number; // net of disposal fees
+  realizedGain: number;
+  holdingPeriodDays: number;
+};
+
+export type LotLedger = {
+  method: LotReliefMethod;
+  openLots: TaxLot[];
+  closedLots: TaxLot[];
+  disposals: LotDisposal[];
+  realizedGain: number;
+};
+
+// Return of a portfolio over one trailing window. Percentages are null when
+// nothing was invested during the window.
+export type PerformanceWindow = {
+  period: PerformancePeriod;
+  startDate: Date; // window start, or inception when that is later
+  endDate: Date;
+  startValue: number;
+  endValue: number;
+  netContributions: number; // purchases less sale proceeds
+  income: number; // dividends and capital returned
+  returnPercent: number | null; // cumulative over the window
+  annualizedReturnPercent: number | null; // only for windows of a year or more
+};
+
+export type PortfolioPerformance = {
+  portfolioId: string;
+  method: PerformanceCalculationMethod;
+  baseCurrency: string; // every value, flow and return is in it
+  asOf: Date;
+  inceptionDate: Date | null;
+  windows: PerformanceWindow[];
+  missingRates: string[]; // "FROM-TO" pairs counted at 1 for want of a rate
+};
+
+// A portfolio's, or holding's, return over one performance window beside its
+// benchmark's. The benchmark's return is what the same cash flows would have
+// made invested in it. Alpha, beta and tracking error come from daily price
+// returns in the base currency and are null with too few trading days to tell.
+export type BenchmarkWindow = {
+  period: PerformancePeriod;
+  startDate: Date;
+  endDate: Date;
+  returnPercent: number | null;
+  benchmarkReturnPercent: number | null;
+  excessReturnPercent: number | null; // return less the benchmark's
+  alphaPercent: number | null; // annualized
+  beta: number | null;
+  trackingErrorPercent: number | null; // annualized
+};
+
+export type BenchmarkComparison = {
+  benchmark: Benchmark;
+  method: PerformanceCalculationMethod;
+  asOf: Date;
+  windows: BenchmarkWindow[];
+  unpricedDates: string[]; // cash flow days before the benchmark's price history, left out of it
+  missingRates: string[]; // currency pairs, e.g. "EUR-USD", with no rate to convert flows at; those flows are left out of it
+};
+
+// An instrument found by a market-data provider's symbol search
+export type InstrumentSearchResult = {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  currency: string | null;
+  type: string | null;
+  isin: string | null;
+  instrumentKey: string | null; // the Java backend's instrument key, when it found the match
+  provider: string;
+};
+
+// One page of a longer list, shaped like the portfolio service's PageTradeEntity
+export type Page<T> = {
+  content: T[];
+  number: number; // zero-based page index
+  size: number;
+  totalElements: number;
+  totalPages: number;
+  first: boolean;
+  last: boolean;
+  empty: boolean;
+};
+
+// Outcome of refreshing one symbol's price: a fresh quote was applied, the
+// last known price was kept, or there was nothing to fall back on
+export type PriceRefreshStatus = "updated" | "stale" | "failed";
+
+export type PriceRefreshResult = {
+  symbol: string;
+  status: PriceRefreshStatus;
+  price: string | null;
+  asOf: Date | null; // when the price was quoted
+  reason?: string;
+};
+
+export type PriceRefreshReport = {
+  portfolioId: string;
+  refreshedAt: Date;
+  updated: number;
+  stale: number;
+  failed: number;
+  results: PriceRefreshResult[];
+};
+
+// Portfolio totals at the end of one day, in the portfolio's base currency
+export type ValuationPoint = {
+  date: string; // YYYY-MM-DD
+  marketValue: number;
+  costBasis: number;
+  netContributions: number; // purchases less sale proceeds since inception
+  benchmarkValue?: number; // the same contributions invested in the requested benchmark
+};
+
+export type PortfolioValuation = {
+  portfolioId: string;
+  baseCurrency: string;
+  range: ValuationRange;
+  interval: ValuationInterval;
+  points: ValuationPoint[];
+  missingRates: string[]; // "FROM-TO" pairs valued at 1 for want of a rate
+};
+
+export type JobStatus = {
+  name: string;
+  description: string;
+  intervalMs: number;
+  running: boolean;
+  runs: number;
+  failures: number;
+  lastRunAt: Date | null;
+  lastDurationMs: number | null;
+  lastSuccessAt: Date | null;
+  lastSummary: string | null;
+  lastErrors: string[]; // errors from the latest run, including per-item ones
+  nextRunAt: Date | null;
+};
+
+// A dividend as received; base amounts use the rate on the payment date
+export type IncomeEntry = {
+  transactionId: string;
+  symbol: string;
+  date: Date;
+  currency: string;
+  gross: number;
+  withholdingTax: number;
+  frankingCredits: number;
+  net: number; // gross less withholding tax
+  reinvestedQuantity: number;
+  reinvestedAmount: number; // part of net taken as shares under a DRIP
+  grossBase: number;
+  netBase: number;
+};
+
+// Amounts are in the portfolio's base currency
+export type IncomeMonth = {
+  month: string; // YYYY-MM
+  gross: number;
+  withholdingTax: number;
+  frankingCredits: number;
+  net: number;
+  reinvested: number;
+  netBySymbol: Record<string, number>;
+};
+
+export type HoldingIncome = {
+  symbol: string;
+  payments: number;
+  lastPaidAt: Date | null;
+  gross: number;
+  net: number;
+  trailing12MonthGross: number;
+  yieldPercent: number | null; // trailing 12 month gross / current value; null once sold
+  yieldOnCostPercent: number | null; // trailing 12 month gross / cost basis
+};
+
+export type PortfolioIncome = {
+  portfolioId: string;
+  baseCurrency: string;
+  asOf: Date;
+  trailing12MonthGross: number;
+  trailing12MonthNet: number;
+  trailingYieldPercent: number;
+  yieldOnCostPercent: number;
+  totals: {
+    gross: number;
+    withholdingTax: number;
+    frankingCredits: number;
+    net: number;
+    reinvested: number;
+  };
+  months: IncomeMonth[]; // oldest first
+  holdings: HoldingIncome[];
+  entries: IncomeEntry[]; // newest first
+  missingRates: string[];
+};
+
+// Whether a realized gain counts as short or long term; "none" where the
+// residency makes no holding-period distinction
+export type TaxTerm = "short" | "long" | "none";
+
+// One disposal in a tax report. Cost is converted to the base currency at the
+// rate on the acquisition date, proceeds at the rate on the disposal date.
+export type TaxReportLine = {
+  transactionId: string;
+  lotId: string;
+  symbol: string;
+  instrumentType: InstrumentType;
+  currency: string;
+  acquiredAt: Date;
+  disposedAt: Date;
+  holdingPeriodDays: number;
+  quantity: number;
+  costBasis: number;
+  proceeds: number;
+  realizedGain: number;
+  costBasisBase: number;
+  proceedsBase: number;
+  realizedGainBase: number;
+  term: TaxTerm;
+  discountEligible: boolean; // qualifies for a CGT discount, e.g. Australia's 50%
+};
+
+export type TaxReportSummary = {
+  shortTermGains: number;
+  shortTermLosses: number;
+  longTermGains: number;
+  longTermLosses: number;
+  netGain: number;
+  discount: number; // CGT discount on eligible gains left after losses
+  taxableGain: number; // net gain after the discount
+};
+
+export type TaxReport = {
+  portfolioId: string;
+  portfolioName: string;
+  taxResidency: string;
+  baseCurrency: string;
+  financialYear: {
+    label: string; // "FY2025-26", or "2025" when the year ends on 31st Dec
+    start: Date;
+    end: Date;
+  };
+  rules: string; // holding-period rule applied, in words
+  years: number[]; // end years of every financial year with a disposal, newest first
+  lines: TaxReportLine[]; // in disposal order
+  summary: TaxReportSummary;
+  missingRates: string[];
+};
+
+// Full-fidelity backup of one portfolio, as GET /api/portfolios/:id/export?format=json emits it
+export type PortfolioBackup = {
+  format: "portfolio-backup";
+  version: 1;
+  exportedAt: Date;
+  portfolio: Omit<Portfolio, "userId">;
+  holdings: Holding[];
+  transactions: Transaction[];
+  lots: LotLedger;
+};
+
+// What importing one spreadsheet row would do: add a transaction, skip a copy
+// of one already recorded (or earlier in the file), or reject it
+export type ImportRowStatus = "new" | "duplicate" | "invalid";
+
+export type ImportRowResult = {
+  row: number; // 1-based line in the spreadsheet
+  status: ImportRowStatus;
+  transaction: InsertTransaction | null; // as it would be recorded; null when invalid
+  errors: string[];
+  duplicateOf: string | null; // id of the recorded transaction, when a duplicate of one
+};
+
+export type ImportResult = {
+  dryRun: boolean;
+  new: number;
+  duplicate: number;
+  invalid: number;
+  imported: number; // 0 on a dry run
+  rows: ImportRowResult[];
 };